@@ -1,21 +1,109 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { 
   AppStep, 
   AppState, 
-  ScriptLength, 
+  ChannelProfile,
+  LanguageCode,
+  VisualReference,
   ResearchData, 
   ScriptData, 
   MetadataResults, 
-  ThumbnailData 
+  ThumbnailData,
+  ParagraphItem,
+  ImageVariant,
+  ProjectRecord,
+  PipelineStep,
+  StepStatus,
+  AppSettings,
+  AIProviderId,
+  VideoFormat,
+  UsageRecord,
+  BatchItem,
+  PublishRecord
 } from './types';
 import { 
-  performResearch, 
-  generateScript, 
-  generateImage, 
-  generateMetadata, 
-  generateThumbnailContent 
+  generateThumbnailBackground,
+  rewriteParagraph,
+  generateImagePrompt,
+  localizeMetadata,
+  generateTitleCandidates,
+  verifyScript,
+  generateReferenceImage,
+  deriveShorts
 } from './geminiService';
+import { createProjectId, loadProject, saveProject } from './projectStore';
+import { ProjectPreferences, createInitialState, restoreProjectState } from './projectState';
+import {
+  PIPELINE_ORDER,
+  STEP_LABELS,
+  canRunStep,
+  completeStep,
+  createInitialSteps,
+  isPipelineStep,
+  markDownstreamStale,
+  setStepStatus,
+  stepsToResume
+} from './pipeline';
+import ProjectLibrary from './ProjectLibrary';
+import SettingsDialog from './SettingsDialog';
+import ChannelProfileDialog from './ChannelProfileDialog';
+import LocalizedMetadataPanel from './LocalizedMetadataPanel';
+import SourceDocumentsPicker from './SourceDocumentsPicker';
+import ResearchReport from './ResearchReport';
+import VisualReferencesPanel from './VisualReferencesPanel';
+import SceneImageCard from './SceneImageCard';
+import VariantStrip from './VariantStrip';
+import NarrationList from './NarrationList';
+import SlideshowPlayer from './SlideshowPlayer';
+import UsageDialog from './UsageDialog';
+import ErrorNotice from './ErrorNotice';
+import TitleCandidatesPanel from './TitleCandidatesPanel';
+import BatchQueuePanel from './BatchQueuePanel';
+import PublishPanel from './PublishPanel';
+import ThumbnailEditor from './ThumbnailEditor';
+import ScriptEditor from './ScriptEditor';
+import { replaceParagraph } from './scriptEditing';
+import { createImageVariant, removeVariant, variantHistory } from './imageVariants';
+import {
+  VIDEO_FORMATS,
+  SHORTS_MAX_SECONDS,
+  SHORTS_TARGET,
+  MAX_DERIVED_SHORTS,
+  aspectRatioFor,
+  effectiveTarget
+} from './shorts';
+import {
+  LENGTH_TOLERANCE,
+  SCRIPT_LENGTH_PRESETS,
+  estimateNarration,
+  estimateTargetSeconds,
+  formatDuration,
+  lengthDeviation,
+  measureScript,
+  resolveTargetChars
+} from './scriptLength';
+import { estimateSeconds } from './timing';
+import { NARRATION_CONCURRENCY, isAudioStale } from './narration';
+import { LANGUAGES, LANGUAGE_CODES } from './languages';
+import { MAX_SCENES, MIN_SCENES, resolveSceneCount } from './scenePacing';
+import { buildCitationList, countIssues, groupClaimsByParagraph, isFactCheckStale } from './factCheck';
+import { styleReferences } from './visualReferences';
+import { createComposition } from './thumbnailCompositor';
+import { loadChannelProfiles, loadSettings, saveChannelProfiles, saveSettings } from './settings';
+import { isAbortError, runWithConcurrency, withRetry } from './taskQueue';
+import { generateStepOutput, renderNarration, renderSceneImage } from './stepRunner';
+import { loadBatchQueue, runBatchItem, saveBatchQueue } from './batchQueue';
+import { downloadBlob, downloadText, downloadUrl } from './downloads';
+import { buildImagesZip, buildNarrationWav, buildProjectZip, exportFileName, sceneFileName } from './projectExport';
+import { buildSubtitleCues, formatSrt, formatVtt } from './subtitles';
+import { BudgetExceededError, setUsageMeter, sumUsage } from './usage';
+import { formatCost } from './pricing';
+import { AIFailure, describeFailure, failureSummary } from './aiErrors';
+import { videoExtension } from './slideshow';
+import { fullDescription } from './chapters';
+import { rankTitles } from './titleScoring';
+import { PublishExtras, PublishProgress, PublishRequest, publishVideo, retryPublishExtras } from './youtubePublish';
 import { 
   Search, 
   FileText, 
@@ -27,108 +115,941 @@ import {
   Download, 
   RefreshCw,
   ChevronRight,
-  ChevronLeft
+  ChevronLeft,
+  FolderOpen,
+  RotateCcw,
+  AlertTriangle,
+  Settings,
+  X,
+  Captions,
+  Package,
+  Tv,
+  Smartphone,
+  Mic,
+  Film,
+  Coins,
+  ShieldCheck,
+  ListChecks,
+  Youtube
 } from 'lucide-react';
 
+const AUTOSAVE_DELAY_MS = 800;
+// The cost badge turns amber once a project has used this share of its budget.
+const BUDGET_WARNING_RATIO = 0.8;
+
+const STATUS_STYLES: Record<StepStatus, { dot: string; label: string }> = {
+  [StepStatus.PENDING]: { dot: 'bg-slate-600', label: '대기' },
+  [StepStatus.RUNNING]: { dot: 'bg-sky-500 animate-pulse', label: '진행 중' },
+  [StepStatus.DONE]: { dot: 'bg-green-500', label: '완료' },
+  [StepStatus.FAILED]: { dot: 'bg-red-500', label: '실패' },
+  [StepStatus.STALE]: { dot: 'bg-amber-400', label: '갱신 필요' }
+};
+
+const getErrorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+// One-off model actions outside the pipeline; their failures are shown next to the control that started them.
+type ActionKey = 'factCheck' | 'deriveShorts' | 'rewrite' | 'referenceImage' | 'localize' | 'thumbnailBackground' | 'titles';
+
+interface ActionError {
+  failure: AIFailure;
+  retry: () => void;
+}
+
 export default function App() {
-  const [state, setState] = useState<AppState>({
-    currentStep: AppStep.INPUT,
-    topic: '',
-    length: ScriptLength.MEDIUM,
-    isProcessing: false
-  });
+  const [state, setState] = useState<AppState>(createInitialState());
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [channelProfiles, setChannelProfiles] = useState<ChannelProfile[]>(loadChannelProfiles);
+  const [isChannelDialogOpen, setIsChannelDialogOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isFactChecking, setIsFactChecking] = useState(false);
+  const [isGeneratingBackground, setIsGeneratingBackground] = useState(false);
+  const [isDerivingShorts, setIsDerivingShorts] = useState(false);
+  const [isGeneratingTitles, setIsGeneratingTitles] = useState(false);
+  const [actionErrors, setActionErrors] = useState<Partial<Record<ActionKey, ActionError>>>({});
+  const [batchItems, setBatchItems] = useState<BatchItem[]>(loadBatchQueue);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  // The last render of the open project, kept so it can be uploaded without saving it first.
+  const [renderedVideo, setRenderedVideo] = useState<Blob | null>(null);
+  const [publishProgress, setPublishProgress] = useState<PublishProgress | null>(null);
+  const [publishError, setPublishError] = useState<string | null>(null);
+  const imageBatchRef = useRef<AbortController | null>(null);
+  const sceneJobsRef = useRef(new Map<number, AbortController>());
+  const audioBatchRef = useRef<AbortController | null>(null);
+  const narrationJobsRef = useRef(new Map<number, AbortController>());
+  // Read synchronously by the budget check, which can't wait for a re-render between calls.
+  const usageRef = useRef<UsageRecord[]>([]);
+  // The queue runner reads items between awaits, so the ref is the source of truth and state mirrors it.
+  const batchItemsRef = useRef<BatchItem[]>(batchItems);
+  const batchControllerRef = useRef<AbortController | null>(null);
+  const publishControllerRef = useRef<AbortController | null>(null);
+  const backgroundJobRef = useRef<AbortController | null>(null);
+  // The upload's result belongs to the project it started in, so switching projects waits for it.
+  const isPublishing = publishProgress !== null;
 
   const updateState = (updates: Partial<AppState>) => {
     setState(prev => ({ ...prev, ...updates }));
   };
 
-  const startWorkflow = async () => {
+  // For one-off actions that can outlive a project switch: the result is only applied while the
+  // project the action started in is still open.
+  const updateProjectState = (projectId: string | undefined, update: (prev: AppState) => AppState) => {
+    setState(prev => prev.projectId === projectId ? update(prev) : prev);
+  };
+
+  const failAction = (key: ActionKey, error: unknown, retry: () => void, context?: string) => {
+    const failure = describeFailure(error);
+    if (context) failure.message = `${context}: ${failure.message}`;
+    setActionErrors(prev => ({ ...prev, [key]: { failure, retry } }));
+  };
+
+  const clearActionError = (key: ActionKey) => {
+    setActionErrors(prev => ({ ...prev, [key]: undefined }));
+  };
+
+  const renderActionError = (key: ActionKey) => {
+    const actionError = actionErrors[key];
+    return actionError && (
+      <ErrorNotice
+        failure={actionError.failure}
+        disabled={state.isProcessing}
+        onRetry={() => {
+          clearActionError(key);
+          actionError.retry();
+        }}
+        onDismiss={() => clearActionError(key)}
+      />
+    );
+  };
+
+  // Autosave the open project whenever it changes, debounced so image loops don't thrash IndexedDB.
+  useEffect(() => {
+    if (!state.projectId) return;
+    const projectId = state.projectId;
+    const timer = setTimeout(() => {
+      saveProject(projectId, state).catch(err => console.error('Failed to save project', err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [state]);
+
+  useEffect(() => {
+    usageRef.current = state.usage || [];
+  }, [state.usage]);
+
+  useEffect(() => {
+    setRenderedVideo(null);
+    setPublishError(null);
+  }, [state.projectId]);
+
+  useEffect(() => setUsageMeter({
+    records: () => usageRef.current,
+    onRecord: record => {
+      usageRef.current = [...usageRef.current, record];
+      setState(prev => ({ ...prev, usage: [...(prev.usage || []), record] }));
+    }
+  }), []);
+
+  useEffect(() => {
+    try {
+      saveBatchQueue(batchItems);
+    } catch (err) {
+      console.error('Failed to save batch queue', err);
+    }
+  }, [batchItems]);
+
+  const handleSettingsSave = (next: AppSettings) => {
+    saveSettings(next);
+    setSettings(next);
+    setIsSettingsOpen(false);
+  };
+
+  // Research and every later prompt depend on these inputs, so changing one invalidates all output.
+  const updateGenerationInputs = (updates: Partial<Pick<AppState, 'channel' | 'language' | 'documents' | 'webSearch'>>) => {
+    setState(prev => {
+      if (prev.steps[AppStep.RESEARCH].status !== StepStatus.DONE) return { ...prev, ...updates };
+      const steps = markDownstreamStale(setStepStatus(prev.steps, AppStep.RESEARCH, StepStatus.STALE), AppStep.RESEARCH);
+      return { ...prev, ...updates, steps };
+    });
+  };
+
+  const handleChannelProfilesSave = (profiles: ChannelProfile[], selectedId: string) => {
+    saveChannelProfiles(profiles);
+    setChannelProfiles(profiles);
+    setIsChannelDialogOpen(false);
+    const selected = profiles.find(p => p.id === selectedId);
+    if (selected) updateGenerationInputs({ channel: selected });
+  };
+
+  // An upload's record must land in the project it started from, so switching waits for it.
+  const confirmNoUpload = () => {
+    if (!publishControllerRef.current) return true;
+    alert('YouTube 업로드가 끝난 뒤 다른 프로젝트로 전환하세요.');
+    return false;
+  };
+
+  const startNewProject = () => {
+    if (!confirmNoUpload()) return;
+    setState(prev => createInitialState({
+      target: prev.target,
+      pacing: prev.pacing,
+      channel: prev.channel,
+      language: prev.language,
+      format: prev.format,
+      narration: prev.narration
+    }));
+  };
+
+  const openProject = (record: ProjectRecord) => {
+    if (!confirmNoUpload()) return;
+    setState(restoreProjectState(record));
+  };
+
+  const handleProjectDeleted = (id: string) => {
+    if (state.projectId === id) startNewProject();
+  };
+
+  const updateParagraph = (id: number, updates: Partial<ParagraphItem>) => {
+    setState(prev => prev.script ? {
+      ...prev,
+      script: {
+        ...prev.script,
+        paragraphs: prev.script.paragraphs.map(p => p.id === id ? { ...p, ...updates } : p)
+      }
+    } : prev);
+  };
+
+  // Generates one scene image with retry; cancelled by its own controller or by the batch signal.
+  const generateSceneImage = async (
+    paragraph: ParagraphItem,
+    current: AppState,
+    batch?: AbortController
+  ): Promise<Partial<ParagraphItem>> => {
+    sceneJobsRef.current.get(paragraph.id)?.abort();
+    const controller = new AbortController();
+    sceneJobsRef.current.set(paragraph.id, controller);
+    const abortScene = () => controller.abort();
+    batch?.signal.addEventListener('abort', abortScene);
+
+    updateParagraph(paragraph.id, { isGenerating: true, imageError: undefined });
+    let result: Partial<ParagraphItem>;
+    try {
+      result = await renderSceneImage(paragraph, current, settings, controller.signal);
+    } catch (err) {
+      console.error(`Failed to generate image for scene ${paragraph.id}`, err);
+      // Out of budget: stop the scenes still queued instead of letting each one fail on its own.
+      if (err instanceof BudgetExceededError) batch?.abort(err);
+      result = { imageError: isAbortError(err) ? '취소되었습니다.' : failureSummary(err) };
+    } finally {
+      batch?.signal.removeEventListener('abort', abortScene);
+      if (sceneJobsRef.current.get(paragraph.id) === controller) sceneJobsRef.current.delete(paragraph.id);
+    }
+
+    updateParagraph(paragraph.id, { ...result, isGenerating: false });
+    return result;
+  };
+
+  const runImagesStep = async (script: ScriptData, current: AppState, force: boolean): Promise<ScriptData> => {
+    const batch = new AbortController();
+    imageBatchRef.current = batch;
+    const targets = script.paragraphs.filter(p => force || !p.imageUrl || p.imageStale);
+
+    try {
+      const results = await runWithConcurrency(
+        targets,
+        settings.imageConcurrency,
+        p => generateSceneImage(p, current, batch),
+        batch.signal
+      );
+      const resultById = new Map(targets.map((p, i) => [p.id, results[i]]));
+      const failed = targets.filter((_, i) => !results[i]?.imageUrl).length;
+
+      if (batch.signal.reason instanceof BudgetExceededError) throw batch.signal.reason;
+      if (batch.signal.aborted) throw new Error('이미지 생성이 취소되었습니다.');
+      if (failed > 0) throw new Error(`${failed}개 장면의 이미지 생성에 실패했습니다.`);
+
+      return {
+        ...script,
+        paragraphs: script.paragraphs.map(p => ({ ...p, ...resultById.get(p.id), isGenerating: false }))
+      };
+    } finally {
+      if (imageBatchRef.current === batch) imageBatchRef.current = null;
+    }
+  };
+
+  const cancelAllImages = () => {
+    imageBatchRef.current?.abort();
+    sceneJobsRef.current.forEach(controller => controller.abort());
+  };
+
+  const cancelSceneImage = (id: number) => {
+    sceneJobsRef.current.get(id)?.abort();
+  };
+
+  // Same cancellation model as scene images: a per-paragraph controller linked to the batch.
+  const synthesizeParagraph = async (
+    paragraph: ParagraphItem,
+    current: AppState,
+    batch?: AbortController
+  ): Promise<Partial<ParagraphItem>> => {
+    narrationJobsRef.current.get(paragraph.id)?.abort();
+    const controller = new AbortController();
+    narrationJobsRef.current.set(paragraph.id, controller);
+    const abortParagraph = () => controller.abort();
+    batch?.signal.addEventListener('abort', abortParagraph);
+
+    updateParagraph(paragraph.id, { isSynthesizing: true, audioError: undefined });
+    let result: Partial<ParagraphItem>;
+    try {
+      result = await renderNarration(paragraph, current, settings, controller.signal);
+    } catch (err) {
+      console.error(`Failed to synthesize narration for scene ${paragraph.id}`, err);
+      if (err instanceof BudgetExceededError) batch?.abort(err);
+      result = { audioError: isAbortError(err) ? '취소되었습니다.' : failureSummary(err) };
+    } finally {
+      batch?.signal.removeEventListener('abort', abortParagraph);
+      if (narrationJobsRef.current.get(paragraph.id) === controller) narrationJobsRef.current.delete(paragraph.id);
+    }
+
+    updateParagraph(paragraph.id, { ...result, isSynthesizing: false });
+    return result;
+  };
+
+  const runAudioStep = async (script: ScriptData, current: AppState, force: boolean): Promise<ScriptData> => {
+    const batch = new AbortController();
+    audioBatchRef.current = batch;
+    const targets = script.paragraphs.filter(p => force || !p.audioUrl || isAudioStale(p));
+
+    try {
+      const results = await runWithConcurrency(
+        targets,
+        NARRATION_CONCURRENCY,
+        p => synthesizeParagraph(p, current, batch),
+        batch.signal
+      );
+      const resultById = new Map(targets.map((p, i) => [p.id, results[i]]));
+      const failed = targets.filter((_, i) => !results[i]?.audioUrl).length;
+
+      if (batch.signal.reason instanceof BudgetExceededError) throw batch.signal.reason;
+      if (batch.signal.aborted) throw new Error('음성 생성이 취소되었습니다.');
+      if (failed > 0) throw new Error(`${failed}개 문단의 음성 생성에 실패했습니다.`);
+
+      return {
+        ...script,
+        paragraphs: script.paragraphs.map(p => ({ ...p, ...resultById.get(p.id), isSynthesizing: false }))
+      };
+    } finally {
+      if (audioBatchRef.current === batch) audioBatchRef.current = null;
+    }
+  };
+
+  const cancelAllNarration = () => {
+    audioBatchRef.current?.abort();
+    narrationJobsRef.current.forEach(controller => controller.abort());
+  };
+
+  const cancelNarration = (id: number) => {
+    narrationJobsRef.current.get(id)?.abort();
+  };
+
+  const executeStep = async (step: PipelineStep, current: AppState, force: boolean): Promise<Partial<AppState>> => {
+    switch (step) {
+      case AppStep.IMAGES:
+        return { script: await runImagesStep(current.script!, current, force) };
+      case AppStep.AUDIO:
+        return { script: await runAudioStep(current.script!, current, force) };
+      default:
+        return generateStepOutput(step, current, settings);
+    }
+  };
+
+  // Runs the given steps in order, threading each step's output into the next one.
+  // Stops at the first failure so the run can later be resumed from that step.
+  // Without `force`, steps that work item by item (scene images) only fill in what is missing.
+  const runPipeline = async (stepsToRun: PipelineStep[], initial: AppState, force = false) => {
+    let working: AppState = { ...initial, isProcessing: true };
+    setState(working);
+
+    for (const step of stepsToRun) {
+      if (!canRunStep(working.steps, step)) break;
+
+      working = { ...working, currentStep: step, steps: setStepStatus(working.steps, step, StepStatus.RUNNING) };
+      const runningSteps = working.steps;
+      setState(prev => ({ ...prev, currentStep: step, steps: runningSteps }));
+
+      try {
+        const updates = await executeStep(step, working, force);
+        working = { ...working, ...updates, steps: completeStep(working.steps, step) };
+        const completedSteps = working.steps;
+        setState(prev => ({ ...prev, ...updates, steps: completedSteps }));
+      } catch (error) {
+        // A budget stop isn't a failure: the step goes back to waiting and resumes once the limit allows it.
+        if (error instanceof BudgetExceededError) {
+          working = { ...working, steps: setStepStatus(working.steps, step, StepStatus.PENDING, error.message) };
+          break;
+        }
+        console.error(`Step ${step} failed`, error);
+        const failure = describeFailure(error);
+        working = { ...working, steps: setStepStatus(working.steps, step, StepStatus.FAILED, failure.message, failure.kind) };
+        break;
+      }
+    }
+
+    const finalSteps = working.steps;
+    setState(prev => ({ ...prev, steps: finalSteps, isProcessing: false }));
+  };
+
+  const startWorkflow = () => {
     if (!state.topic) return;
-    updateState({ isProcessing: true, currentStep: AppStep.RESEARCH });
+    runPipeline(PIPELINE_ORDER, {
+      ...state,
+      projectId: createProjectId(),
+      research: undefined,
+      script: undefined,
+      factCheck: undefined,
+      metadata: undefined,
+      localizedMetadata: undefined,
+      thumbnail: undefined,
+      usage: [],
+      publish: undefined,
+      steps: createInitialSteps()
+    });
+  };
+
+  const resumePipeline = () => {
+    runPipeline(stepsToResume(state.steps), state);
+  };
+
+  const rerunStep = (step: PipelineStep) => {
+    runPipeline([step], state, true);
+  };
+
+  const handleTopicSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    startWorkflow();
+  };
+
+  const updateBatchItems = (update: (items: BatchItem[]) => BatchItem[]) => {
+    batchItemsRef.current = update(batchItemsRef.current);
+    setBatchItems(batchItemsRef.current);
+  };
+
+  const updateBatchItem = (id: string, updates: Partial<BatchItem>) => {
+    updateBatchItems(items => items.map(item => item.id === id ? { ...item, ...updates } : item));
+  };
+
+  // Works through pending items one at a time in the background; items added or retried meanwhile are picked up too.
+  // Every item uses the editor's current format, language, pacing and narration settings.
+  const runBatchQueue = async () => {
+    if (batchControllerRef.current) return;
+    const controller = new AbortController();
+    batchControllerRef.current = controller;
+    setIsBatchRunning(true);
+    const preferences: ProjectPreferences = {
+      target: state.target,
+      pacing: state.pacing,
+      channel: state.channel,
+      language: state.language,
+      format: state.format,
+      narration: state.narration
+    };
 
     try {
-      // 1. Research
-      const research = await performResearch(state.topic);
-      updateState({ research });
-
-      // 2. Script
-      updateState({ currentStep: AppStep.SCRIPT });
-      const scriptData = await generateScript(research.report, state.length);
-      updateState({ script: scriptData });
-
-      // 3. Metadata
-      updateState({ currentStep: AppStep.METADATA });
-      const metadata = await generateMetadata(scriptData.ttsScript);
-      updateState({ metadata });
-
-      // 4. Thumbnail
-      updateState({ currentStep: AppStep.THUMBNAIL });
-      const thumbnail = await generateThumbnailContent(scriptData.ttsScript);
-      updateState({ thumbnail });
-
-      // 5. Auto Image generation for paragraphs
-      updateState({ currentStep: AppStep.IMAGES });
-      const updatedParagraphs = [...scriptData.paragraphs];
-      for (let i = 0; i < updatedParagraphs.length; i++) {
-        updatedParagraphs[i].isGenerating = true;
-        updateState({ script: { ...scriptData, paragraphs: [...updatedParagraphs] } });
-        
+      while (!controller.signal.aborted) {
+        const item = batchItemsRef.current.find(candidate => candidate.status === StepStatus.PENDING);
+        if (!item) break;
+        updateBatchItem(item.id, { status: StepStatus.RUNNING, error: undefined, errorKind: undefined });
         try {
-          const url = await generateImage(updatedParagraphs[i].imagePrompt);
-          updatedParagraphs[i].imageUrl = url;
+          const result = await runBatchItem(item, preferences, settings, controller.signal, updates => updateBatchItem(item.id, updates));
+          updateBatchItem(item.id, result);
         } catch (err) {
-          console.error(`Failed to generate image for paragraph ${i}`, err);
+          console.error(`Batch item "${item.topic}" failed`, err);
+          const failure = describeFailure(err);
+          updateBatchItem(item.id, { status: StepStatus.FAILED, progress: undefined, error: failure.message, errorKind: failure.kind });
         }
-        
-        updatedParagraphs[i].isGenerating = false;
-        updateState({ script: { ...scriptData, paragraphs: [...updatedParagraphs] } });
       }
+    } finally {
+      batchControllerRef.current = null;
+      setIsBatchRunning(false);
+    }
+  };
+
+  const cancelBatchQueue = () => {
+    batchControllerRef.current?.abort();
+  };
+
+  const addBatchItems = (items: BatchItem[]) => {
+    updateBatchItems(current => [...current, ...items]);
+  };
 
-    } catch (error) {
-      console.error("Workflow failed", error);
-      alert("처리 중 오류가 발생했습니다. 다시 시도해 주세요.");
+  // Only the failed item goes back in the queue; its project resumes from the step that failed.
+  const retryBatchItem = (id: string) => {
+    const item = batchItemsRef.current.find(candidate => candidate.id === id);
+    if (item?.projectId && item.projectId === state.projectId) {
+      alert('편집 중인 프로젝트는 일괄 제작에서 다시 시도할 수 없습니다. 편집 화면에서 재개하거나 다른 프로젝트를 연 뒤 다시 시도하세요.');
+      return;
+    }
+    updateBatchItem(id, { status: StepStatus.PENDING, error: undefined, errorKind: undefined });
+    runBatchQueue();
+  };
+
+  const removeBatchItem = (id: string) => {
+    updateBatchItems(items => items.filter(item => item.id !== id || item.status === StepStatus.RUNNING));
+  };
+
+  const clearFinishedBatchItems = () => {
+    updateBatchItems(items => items.filter(item => item.status !== StepStatus.DONE));
+  };
+
+  const openBatchProject = async (projectId: string) => {
+    const record = await loadProject(projectId);
+    if (!record) {
+      alert('프로젝트를 불러올 수 없습니다.');
+      return;
+    }
+    openProject(record);
+  };
+
+  const runPublish = async (task: (signal: AbortSignal) => Promise<PublishRecord>) => {
+    const controller = new AbortController();
+    publishControllerRef.current = controller;
+    const projectId = state.projectId;
+    setPublishProgress({ stage: 'auth' });
+    setPublishError(null);
+    try {
+      const publish = await task(controller.signal);
+      updateProjectState(projectId, prev => ({ ...prev, publish }));
+    } catch (err) {
+      console.error('YouTube upload failed', err);
+      if (!isAbortError(err)) setPublishError(getErrorMessage(err));
     } finally {
-      updateState({ isProcessing: false });
+      publishControllerRef.current = null;
+      setPublishProgress(null);
     }
   };
 
-  const handleTopicSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    startWorkflow();
+  const publishToYouTube = (request: PublishRequest) =>
+    runPublish(signal => publishVideo(request, settings.youtube, setPublishProgress, signal));
+
+  const retryFailedPublishExtras = (extras: PublishExtras) => {
+    const record = state.publish;
+    if (!record) return;
+    runPublish(signal => retryPublishExtras(record, extras, settings.youtube, setPublishProgress, signal));
+  };
+
+  const cancelPublish = () => {
+    publishControllerRef.current?.abort();
   };
 
   const downloadImage = (url: string, filename: string) => {
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadUrl(url, filename);
+  };
+
+  const downloadSubtitles = (format: 'srt' | 'vtt') => {
+    if (!state.script) return;
+    const cues = buildSubtitleCues(state.script.paragraphs, settings.subtitles);
+    if (format === 'srt') {
+      downloadText(formatSrt(cues), 'subtitles.srt', 'application/x-subrip');
+    } else {
+      downloadText(formatVtt(cues), 'subtitles.vtt', 'text/vtt');
+    }
+  };
+
+  // A single archive instead of one anchor click per scene, which browsers tend to block.
+  const downloadAllImages = async () => {
+    try {
+      downloadBlob(await buildImagesZip(state), exportFileName(state, '_images'));
+    } catch (err) {
+      console.error('Failed to build images archive', err);
+      alert(getErrorMessage(err));
+    }
+  };
+
+  const exportProject = async () => {
+    setIsExporting(true);
+    try {
+      downloadBlob(await buildProjectZip(state, settings.subtitles), exportFileName(state));
+    } catch (err) {
+      console.error('Failed to export project', err);
+      alert('패키지를 만드는 중 오류가 발생했습니다.');
+    } finally {
+      setIsExporting(false);
+    }
   };
 
-  const downloadAllImages = () => {
-    state.script?.paragraphs.forEach((p, idx) => {
-      if (p.imageUrl) downloadImage(p.imageUrl, `scene_${idx + 1}.png`);
+  // Any script edit invalidates what was derived from it (metadata, thumbnail copy, scene images).
+  const applyScriptEdit = (script: ScriptData, changedIds: number[]) => {
+    setState(prev => ({ ...prev, script, steps: markDownstreamStale(prev.steps, AppStep.SCRIPT) }));
+    changedIds.forEach(async id => {
+      const paragraph = script.paragraphs.find(p => p.id === id);
+      if (!paragraph) return;
+      const { content } = paragraph;
+      try {
+        const imagePrompt = await generateImagePrompt(content, state.channel);
+        // A later edit may have replaced the text while this prompt was generated; its own refresh wins.
+        setState(prev => prev.script ? {
+          ...prev,
+          script: {
+            ...prev.script,
+            paragraphs: prev.script.paragraphs.map(p => p.id === id && p.content === content ? { ...p, imagePrompt } : p)
+          }
+        } : prev);
+      } catch (err) {
+        console.error(`Failed to refresh image prompt for paragraph ${id}`, err);
+      }
     });
   };
 
-  const retryImage = async (index: number) => {
+  const rewriteParagraphWithAI = async (id: number, instruction: string) => {
+    const paragraphs = state.script?.paragraphs || [];
+    const index = paragraphs.findIndex(p => p.id === id);
+    if (index < 0) return;
+    const paragraph = paragraphs[index];
+
+    const projectId = state.projectId;
+    clearActionError('rewrite');
+    updateParagraph(id, { isRewriting: true });
+    try {
+      const result = await rewriteParagraph(paragraph.content, instruction, {
+        previous: paragraphs[index - 1]?.content,
+        next: paragraphs[index + 1]?.content
+      }, state.channel, state.language);
+      updateProjectState(projectId, prev => prev.script ? {
+        ...prev,
+        script: replaceParagraph(prev.script, id, { ...result, isRewriting: false, imageStale: !!paragraph.imageUrl }),
+        steps: markDownstreamStale(prev.steps, AppStep.SCRIPT)
+      } : prev);
+    } catch (err) {
+      console.error(`Failed to rewrite paragraph ${id}`, err);
+      updateProjectState(projectId, prev => prev.script
+        ? { ...prev, script: replaceParagraph(prev.script, id, { isRewriting: false }) }
+        : prev);
+      failAction('rewrite', err, () => rewriteParagraphWithAI(id, instruction));
+    }
+  };
+
+  // Required facts feed the script prompt, so changing them makes the script stale.
+  const toggleRequiredFact = (id: string) => {
+    setState(prev => {
+      const structured = prev.research?.structured;
+      if (!prev.research || !structured) return prev;
+      const keyFacts = structured.keyFacts.map(fact => fact.id === id ? { ...fact, required: !fact.required } : fact);
+      return {
+        ...prev,
+        research: { ...prev.research, structured: { ...structured, keyFacts } },
+        steps: markDownstreamStale(prev.steps, AppStep.RESEARCH)
+      };
+    });
+  };
+
+  // Scene images and the thumbnail background were drawn against the old references.
+  const markReferenceStepsStale = (steps: AppState['steps']) =>
+    ([AppStep.IMAGES, AppStep.THUMBNAIL] as PipelineStep[]).reduce(
+      (next, step) => next[step].status === StepStatus.DONE ? setStepStatus(next, step, StepStatus.STALE) : next,
+      steps
+    );
+
+  const updateVisualReferences = (updates: Partial<Pick<AppState, 'visualReferences' | 'styleLock'>>) => {
+    setState(prev => ({ ...prev, ...updates, steps: markReferenceStepsStale(prev.steps) }));
+  };
+
+  const generateVisualReferenceImage = async (id: string) => {
+    const reference = state.visualReferences?.find(r => r.id === id);
+    if (!reference) return;
+    const projectId = state.projectId;
+    clearActionError('referenceImage');
+    try {
+      const imageUrl = await generateReferenceImage(reference, state.channel);
+      if (!imageUrl) throw new Error('모델이 이미지를 반환하지 않았습니다.');
+      updateProjectState(projectId, prev => ({
+        ...prev,
+        visualReferences: prev.visualReferences?.map(r => r.id === id ? { ...r, imageUrl } : r),
+        steps: markReferenceStepsStale(prev.steps)
+      }));
+    } catch (err) {
+      console.error(`Failed to generate reference image ${id}`, err);
+      failAction('referenceImage', err, () => generateVisualReferenceImage(id));
+    }
+  };
+
+  const runFactCheck = async () => {
+    if (!state.script || !state.research) return;
+    const script = state.script;
+    const projectId = state.projectId;
+    setIsFactChecking(true);
+    clearActionError('factCheck');
+    try {
+      const claims = await verifyScript(script, state.research);
+      updateProjectState(projectId, prev => ({ ...prev, factCheck: { claims, checkedAt: Date.now(), ttsScript: script.ttsScript } }));
+    } catch (err) {
+      console.error('Failed to fact-check script', err);
+      failAction('factCheck', err, runFactCheck);
+    } finally {
+      setIsFactChecking(false);
+    }
+  };
+
+  const downloadCitations = () => {
+    if (!state.research || !state.factCheck) return;
+    const citations = buildCitationList(state.research, state.factCheck.claims);
+    if (!citations) {
+      alert('주장과 연결된 출처가 없습니다.');
+      return;
+    }
+    downloadText(citations, exportFileName(state, '_citations', 'txt'));
+  };
+
+  const generateLocalizedMetadata = async (languages: LanguageCode[]) => {
+    const metadata = state.metadata;
+    if (!metadata) return;
+    const projectId = state.projectId;
+    clearActionError('localize');
+    const results = await Promise.allSettled(languages.map(language => localizeMetadata(metadata, language)));
+    const localized: Partial<Record<LanguageCode, MetadataResults>> = {};
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') localized[languages[i]] = result.value;
+      else console.error(`Failed to localize metadata for ${languages[i]}`, result.reason);
+    });
+    updateProjectState(projectId, prev => ({ ...prev, localizedMetadata: { ...prev.localizedMetadata, ...localized } }));
+    const failed = languages.filter(language => !localized[language]);
+    const firstError = results.find(result => result.status === 'rejected');
+    if (firstError?.status === 'rejected') {
+      const labels = failed.map(language => LANGUAGES[language].label).join(', ');
+      failAction('localize', firstError.reason, () => generateLocalizedMetadata(failed), `${labels} 현지화 실패`);
+    }
+  };
+
+  // The text placed on the thumbnail, or the first suggestion until one is placed.
+  const thumbnailCopy = state.thumbnail?.composition?.text || state.thumbnail?.copySuggestions?.type1?.[0];
+
+  const generateThumbnailTitles = async () => {
+    const metadata = state.metadata;
+    if (!metadata || !thumbnailCopy) return;
+    const projectId = state.projectId;
+    setIsGeneratingTitles(true);
+    clearActionError('titles');
+    try {
+      const added = await generateTitleCandidates(metadata, thumbnailCopy, state.channel, state.language, state.format);
+      updateProjectState(projectId, prev => prev.metadata ? {
+        ...prev,
+        metadata: { ...prev.metadata, titleCandidates: rankTitles([...(prev.metadata.titleCandidates || []), ...added]) }
+      } : prev);
+    } catch (err) {
+      console.error('Failed to generate title candidates', err);
+      failAction('titles', err, generateThumbnailTitles);
+    } finally {
+      setIsGeneratingTitles(false);
+    }
+  };
+
+  const selectTitle = (title: string) => {
+    setState(prev => prev.metadata ? { ...prev, metadata: { ...prev.metadata, title } } : prev);
+  };
+
+  const updateThumbnail = (updates: Partial<ThumbnailData>) => {
+    setState(prev => prev.thumbnail ? { ...prev, thumbnail: { ...prev.thumbnail, ...updates } } : prev);
+  };
+
+  const placeThumbnailCopy = (copy: string) => {
+    const composition = state.thumbnail?.composition || createComposition();
+    updateThumbnail({ composition: { ...composition, text: copy }, mockupImageUrl: undefined });
+  };
+
+  const generateThumbnailBackgrounds = async () => {
+    const thumbnail = state.thumbnail;
+    const prompt = thumbnail?.backgroundPrompt?.trim();
+    if (!thumbnail || !prompt) {
+      alert('배경 이미지 프롬프트를 입력해주세요.');
+      return;
+    }
+    const projectId = state.projectId;
+    const controller = new AbortController();
+    backgroundJobRef.current = controller;
+    setIsGeneratingBackground(true);
+    clearActionError('thumbnailBackground');
+    const references = styleReferences(state.visualReferences || [], !!state.styleLock);
+    const added: ImageVariant[] = [];
+    try {
+      for (let i = 0; i < settings.imageVariants; i++) {
+        const url = await withRetry(() => generateThumbnailBackground(prompt, state.channel, {
+          references,
+          aspectRatio: aspectRatioFor(state.format),
+          signal: controller.signal
+        }), {
+          retries: settings.imageMaxRetries,
+          signal: controller.signal
+        });
+        if (!url) throw new Error('모델이 이미지를 반환하지 않았습니다.');
+        added.push(createImageVariant(url, prompt));
+      }
+    } catch (err) {
+      console.error('Failed to generate thumbnail background', err);
+      if (!isAbortError(err)) failAction('thumbnailBackground', err, generateThumbnailBackgrounds);
+    } finally {
+      backgroundJobRef.current = null;
+      setIsGeneratingBackground(false);
+    }
+    if (!added.length) return;
+    updateProjectState(projectId, prev => prev.thumbnail ? {
+      ...prev,
+      thumbnail: {
+        ...prev.thumbnail,
+        pureImageUrl: added[0].imageUrl,
+        backgroundVariants: [...variantHistory(thumbnail.pureImageUrl, prompt, thumbnail.backgroundVariants), ...added],
+        mockupImageUrl: undefined
+      }
+    } : prev);
+  };
+
+  const cancelThumbnailBackgrounds = () => {
+    backgroundJobRef.current?.abort();
+  };
+
+  // Each Short becomes its own project with research and script done, ready for the remaining steps.
+  const createShortsFromScript = async () => {
     if (!state.script) return;
-    const newParagraphs = [...state.script.paragraphs];
-    newParagraphs[index].isGenerating = true;
-    updateState({ script: { ...state.script, paragraphs: newParagraphs } });
+    const answer = prompt(`몇 개의 쇼츠를 만들까요? (1~${MAX_DERIVED_SHORTS})`, '3');
+    if (!answer) return;
+    const count = Math.min(MAX_DERIVED_SHORTS, Math.max(1, Math.round(Number(answer)) || 1));
+    setIsDerivingShorts(true);
+    clearActionError('deriveShorts');
+    try {
+      const shorts = await deriveShorts(
+        state.script,
+        count,
+        resolveTargetChars(SHORTS_TARGET, settings.subtitles.charsPerSecond),
+        state.channel,
+        state.language
+      );
+      const preferences: ProjectPreferences = {
+        target: state.target,
+        pacing: state.pacing,
+        channel: state.channel,
+        language: state.language,
+        format: 'shorts',
+        narration: state.narration
+      };
+      for (const short of shorts) {
+        await saveProject(createProjectId(), {
+          ...createInitialState(preferences),
+          currentStep: AppStep.SCRIPT,
+          topic: short.title,
+          research: state.research,
+          script: short.script,
+          visualReferences: state.visualReferences,
+          styleLock: state.styleLock,
+          steps: completeStep(completeStep(createInitialSteps(), AppStep.RESEARCH), AppStep.SCRIPT)
+        });
+      }
+      alert(`쇼츠 ${shorts.length}개를 프로젝트 목록에 저장했습니다.`);
+    } catch (err) {
+      console.error('Failed to derive shorts', err);
+      failAction('deriveShorts', err, createShortsFromScript);
+    } finally {
+      setIsDerivingShorts(false);
+    }
+  };
+
+  const retryNarration = async (index: number) => {
+    const paragraph = state.script?.paragraphs[index];
+    if (!paragraph) return;
+    const result = await synthesizeParagraph(paragraph, state);
+    if (!result.audioUrl) return;
+    setState(prev =>
+      prev.steps[AppStep.AUDIO].status === StepStatus.FAILED && prev.script?.paragraphs.every(p => p.audioUrl && !isAudioStale(p))
+        ? { ...prev, steps: setStepStatus(prev.steps, AppStep.AUDIO, StepStatus.DONE) }
+        : prev
+    );
+  };
 
+  const downloadNarration = () => {
     try {
-      const url = await generateImage(newParagraphs[index].imagePrompt);
-      newParagraphs[index].imageUrl = url;
+      const wav = buildNarrationWav(state);
+      if (!wav) {
+        alert('모든 문단의 음성을 먼저 생성해주세요.');
+        return;
+      }
+      downloadBlob(wav, exportFileName(state, '_narration', 'wav'));
     } catch (err) {
-      console.error(err);
+      alert(getErrorMessage(err));
     }
+  };
+
+  const retryImage = async (index: number) => {
+    const paragraph = state.script?.paragraphs[index];
+    if (!paragraph) return;
+    const result = await generateSceneImage(paragraph, state);
+    if (!result.imageUrl) return;
+    // Retrying the last failed scene by hand completes a previously failed image step.
+    setState(prev =>
+      prev.steps[AppStep.IMAGES].status === StepStatus.FAILED && prev.script?.paragraphs.every(p => p.imageUrl)
+        ? { ...prev, steps: setStepStatus(prev.steps, AppStep.IMAGES, StepStatus.DONE) }
+        : prev
+    );
+  };
 
-    newParagraphs[index].isGenerating = false;
-    updateState({ script: { ...state.script, paragraphs: newParagraphs } });
+  const renderScriptStats = (script: ScriptData) => {
+    const counts = measureScript(script.ttsScript);
+    const targetChars = resolveTargetChars(effectiveTarget(state), settings.subtitles.charsPerSecond);
+    const deviation = lengthDeviation(counts.withSpaces, targetChars);
+    const withinTolerance = Math.abs(deviation) <= LENGTH_TOLERANCE;
+    return (
+      <div className="flex flex-wrap gap-3 text-xs text-slate-400">
+        <span>공백 포함 {counts.withSpaces.toLocaleString()}자</span>
+        <span>공백 제외 {counts.withoutSpaces.toLocaleString()}자</span>
+        <span>예상 내레이션 {estimateNarration(script.ttsScript, settings.subtitles.charsPerSecond)}</span>
+        {state.format === 'shorts' && estimateSeconds(script.ttsScript, settings.subtitles.charsPerSecond) > SHORTS_MAX_SECONDS && (
+          <span className="text-red-400">쇼츠 {SHORTS_MAX_SECONDS}초 초과</span>
+        )}
+        <span className={withinTolerance ? 'text-emerald-400' : 'text-amber-400'}>
+          목표 {targetChars.toLocaleString()}자 대비 {deviation >= 0 ? '+' : ''}{Math.round(deviation * 100)}%
+        </span>
+      </div>
+    );
+  };
+
+  const renderFactCheckBar = () => {
+    const report = state.factCheck;
+    const stale = report && isFactCheckStale(report, state.script);
+    const issues = report ? countIssues(report.claims) : 0;
+    return (
+      <div className="glass-panel p-4 rounded-2xl flex flex-wrap items-center gap-3 text-sm">
+        <ShieldCheck className="text-sky-400" size={18} />
+        {report ? (
+          <span className="text-slate-300">
+            사실 주장 {report.claims.length}개 ·{' '}
+            <span className={issues ? 'text-amber-400' : 'text-emerald-400'}>확인 필요 {issues}개</span>
+            {stale && <span className="text-amber-400"> · 대본이 수정되어 다시 확인이 필요합니다</span>}
+          </span>
+        ) : (
+          <span className="text-slate-400">대본의 숫자·날짜·이름을 조사 출처와 대조합니다.</span>
+        )}
+        <div className="ml-auto flex gap-2">
+          {report && (
+            <button
+              onClick={downloadCitations}
+              className="bg-slate-800 hover:bg-slate-700 px-3 py-1.5 rounded-xl flex items-center gap-2 transition-colors"
+            >
+              <Download size={14} /> 출처 목록
+            </button>
+          )}
+          <button
+            onClick={runFactCheck}
+            disabled={!state.script || !state.research || isFactChecking || state.isProcessing}
+            className="bg-sky-500/20 hover:bg-sky-500/40 disabled:opacity-40 text-sky-300 px-3 py-1.5 rounded-xl flex items-center gap-2 transition-colors"
+          >
+            {isFactChecking ? <Loader2 size={14} className="animate-spin" /> : <ShieldCheck size={14} />} 팩트체크
+          </button>
+        </div>
+      </div>
+    );
   };
 
+  const projectCost = sumUsage(state.usage || []).cost;
+
+  // The library and the batch queue aren't about the open project, so they hide its navigation.
+  const isProjectView = state.currentStep !== AppStep.INPUT && state.currentStep !== AppStep.LIBRARY && state.currentStep !== AppStep.BATCH;
+
   const renderStepNav = () => (
     <div className="flex overflow-x-auto gap-4 mb-8 pb-2 border-b border-slate-700 no-scrollbar">
       {[
@@ -136,8 +1057,11 @@ export default function App() {
         { id: AppStep.RESEARCH, label: '조사보고서', icon: FileText },
         { id: AppStep.SCRIPT, label: '대본/TTS', icon: PlayCircle },
         { id: AppStep.IMAGES, label: '이미지 구성', icon: ImageIcon },
+        { id: AppStep.AUDIO, label: '내레이션', icon: Mic },
+        { id: AppStep.PREVIEW, label: '미리보기', icon: Film },
         { id: AppStep.METADATA, label: '메타데이터', icon: Hash },
         { id: AppStep.THUMBNAIL, label: '썸네일', icon: Layout },
+        { id: AppStep.PUBLISH, label: '업로드', icon: Youtube },
       ].map(step => (
         <button
           key={step.id}
@@ -151,11 +1075,75 @@ export default function App() {
         >
           <step.icon size={18} />
           <span className="font-semibold">{step.label}</span>
+          {isPipelineStep(step.id) && (
+            <span
+              title={STATUS_STYLES[state.steps[step.id].status].label}
+              className={`w-2 h-2 rounded-full ${STATUS_STYLES[state.steps[step.id].status].dot}`}
+            />
+          )}
         </button>
       ))}
     </div>
   );
 
+  const renderPipelineBar = () => {
+    const current = state.currentStep;
+    const pending = stepsToResume(state.steps);
+    if (!isPipelineStep(current) && pending.length === 0) return null;
+    // A failed step is retried from its error notice instead of the separate button.
+    const failedError = isPipelineStep(current) && state.steps[current].status === StepStatus.FAILED
+      ? state.steps[current].error
+      : undefined;
+
+    return (
+      <div className="glass-panel rounded-2xl px-5 py-3 mb-8 flex flex-wrap items-center justify-between gap-3">
+        {isPipelineStep(current) ? (
+          <div className="flex items-center gap-3 min-w-0">
+            <span className={`w-2.5 h-2.5 rounded-full shrink-0 ${STATUS_STYLES[state.steps[current].status].dot}`} />
+            <span className="text-sm font-semibold text-slate-300">
+              {STEP_LABELS[current]} · {STATUS_STYLES[state.steps[current].status].label}
+            </span>
+            {state.steps[current].status === StepStatus.PENDING && state.steps[current].error && (
+              <span className="text-xs text-amber-400 flex items-center gap-1 truncate">
+                <AlertTriangle size={14} className="shrink-0" /> {state.steps[current].error}
+              </span>
+            )}
+            {state.steps[current].status === StepStatus.STALE && (
+              <span className="text-xs text-amber-400">이전 단계 결과가 바뀌어 다시 생성이 필요합니다.</span>
+            )}
+          </div>
+        ) : <div />}
+        <div className="flex gap-2">
+          {isPipelineStep(current) && !failedError && (
+            <button
+              onClick={() => rerunStep(current)}
+              disabled={state.isProcessing || !canRunStep(state.steps, current)}
+              className="bg-slate-800 hover:bg-slate-700 disabled:opacity-50 px-4 py-2 rounded-xl flex items-center gap-2 text-sm transition-colors"
+            >
+              <RefreshCw size={16} /> 이 단계 다시 실행
+            </button>
+          )}
+          {pending.length > 0 && (
+            <button
+              onClick={resumePipeline}
+              disabled={state.isProcessing || !state.topic}
+              className="bg-sky-500 hover:bg-sky-600 disabled:bg-slate-700 px-4 py-2 rounded-xl flex items-center gap-2 text-sm font-bold transition-colors"
+            >
+              <RotateCcw size={16} /> {STEP_LABELS[pending[0]]} 단계부터 재개
+            </button>
+          )}
+        </div>
+        {isPipelineStep(current) && failedError && (
+          <ErrorNotice
+            failure={{ kind: state.steps[current].errorKind || 'unknown', message: failedError }}
+            disabled={state.isProcessing || !canRunStep(state.steps, current)}
+            onRetry={() => rerunStep(current)}
+          />
+        )}
+      </div>
+    );
+  };
+
   const renderCurrentStep = () => {
     switch (state.currentStep) {
       case AppStep.INPUT:
@@ -178,28 +1166,190 @@ export default function App() {
                   className="w-full h-40 bg-slate-900/50 border border-slate-700 rounded-2xl p-4 focus:ring-2 focus:ring-sky-500 focus:border-transparent outline-none transition-all resize-none"
                   required
                 />
+                <SourceDocumentsPicker
+                  documents={state.documents || []}
+                  webSearch={state.webSearch ?? true}
+                  disabled={state.isProcessing}
+                  onDocumentsChange={documents => updateGenerationInputs({ documents })}
+                  onWebSearchChange={webSearch => updateGenerationInputs({ webSearch })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-semibold text-slate-300">영상 형식</label>
+                <div className="grid grid-cols-2 gap-4">
+                  {VIDEO_FORMATS.map(format => (
+                    <button
+                      key={format.id}
+                      type="button"
+                      onClick={() => updateState({ format: format.id })}
+                      className={`py-3 rounded-xl border transition-all ${
+                        state.format === format.id
+                          ? 'bg-sky-500/10 border-sky-500 text-sky-400'
+                          : 'border-slate-700 text-slate-400 hover:border-slate-500'
+                      }`}
+                    >
+                      <span className="font-medium">{format.label}</span>
+                      <span className="block text-xs opacity-70">{format.description}</span>
+                    </button>
+                  ))}
+                </div>
+                {state.format === 'shorts' && (
+                  <p className="text-xs text-slate-500">
+                    첫 3초 훅으로 시작하는 {SHORTS_MAX_SECONDS}초 이내 대본, 장면별 화면 자막, 세로 이미지와 #shorts 메타데이터를 만듭니다.
+                  </p>
+                )}
               </div>
 
-              <div className="grid grid-cols-3 gap-4">
-                {(Object.keys(ScriptLength) as Array<keyof typeof ScriptLength>).map((len) => (
+              {state.format === 'long' && (
+                <div className="space-y-3">
+                  <div className="grid grid-cols-3 gap-4">
+                    {SCRIPT_LENGTH_PRESETS.map(preset => (
+                      <button
+                        key={preset.id}
+                        type="button"
+                        onClick={() => updateState({ target: { unit: 'chars', value: preset.chars } })}
+                        className={`py-3 rounded-xl border font-medium transition-all ${
+                          state.target.unit === 'chars' && state.target.value === preset.chars
+                            ? 'bg-sky-500/10 border-sky-500 text-sky-400'
+                            : 'border-slate-700 text-slate-400 hover:border-slate-500'
+                        }`}
+                      >
+                        {preset.label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-3">
+                    <div className="flex rounded-xl border border-slate-700 overflow-hidden text-sm">
+                      {(['chars', 'minutes'] as const).map(unit => (
+                        <button
+                          key={unit}
+                          type="button"
+                          onClick={() => updateState({
+                            target: { unit, value: unit === 'minutes' ? 10 : resolveTargetChars(state.target, settings.subtitles.charsPerSecond) }
+                          })}
+                          className={`px-4 py-2 transition-all ${state.target.unit === unit ? 'bg-sky-500/10 text-sky-400' : 'text-slate-400 hover:text-slate-200'}`}
+                        >
+                          {unit === 'chars' ? '글자 수' : '영상 길이(분)'}
+                        </button>
+                      ))}
+                    </div>
+                    <input
+                      type="number"
+                      min={state.target.unit === 'chars' ? 500 : 1}
+                      max={state.target.unit === 'chars' ? 30000 : 60}
+                      step={state.target.unit === 'chars' ? 500 : 1}
+                      value={state.target.value}
+                      onChange={(e) => updateState({ target: { ...state.target, value: Math.max(1, Number(e.target.value) || 1) } })}
+                      className="w-32 bg-slate-900/50 border border-slate-700 rounded-xl px-3 py-2 outline-none focus:ring-2 focus:ring-sky-500"
+                    />
+                    <span className="text-xs text-slate-500">
+                      ≈ 공백 포함 {resolveTargetChars(state.target, settings.subtitles.charsPerSecond).toLocaleString()}자 · 내레이션 약 {formatDuration(estimateTargetSeconds(state.target, settings.subtitles.charsPerSecond))}
+                    </span>
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <label className="text-sm font-semibold text-slate-300">채널 프로필</label>
+                <div className="flex gap-3">
+                  <select
+                    value={state.channel.id}
+                    onChange={(e) => {
+                      const profile = channelProfiles.find(p => p.id === e.target.value);
+                      if (profile) updateGenerationInputs({ channel: profile });
+                    }}
+                    className="flex-grow bg-slate-900/50 border border-slate-700 rounded-xl px-3 py-2 outline-none focus:ring-2 focus:ring-sky-500"
+                  >
+                    {!channelProfiles.some(p => p.id === state.channel.id) && (
+                      <option value={state.channel.id}>{state.channel.name} (이 프로젝트에만 저장됨)</option>
+                    )}
+                    {channelProfiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </select>
                   <button
-                    key={len}
                     type="button"
-                    onClick={() => updateState({ length: ScriptLength[len] })}
-                    className={`py-3 rounded-xl border font-medium transition-all ${
-                      state.length === ScriptLength[len]
-                        ? 'bg-sky-500/10 border-sky-500 text-sky-400'
-                        : 'border-slate-700 text-slate-400 hover:border-slate-500'
-                    }`}
+                    onClick={() => setIsChannelDialogOpen(true)}
+                    className="px-4 py-2 rounded-xl border border-slate-700 text-slate-300 hover:border-slate-500 text-sm flex items-center gap-2 transition-all"
                   >
-                    {len === 'SHORT' ? '단문 (4천자)' : len === 'MEDIUM' ? '중문 (8천자)' : '장문 (1.2만자)'}
+                    <Tv size={16} /> 채널 관리
                   </button>
-                ))}
+                </div>
+                <p className="text-xs text-slate-500">{state.channel.narratorVoice} · {state.channel.structure}</p>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-semibold text-slate-300">출력 언어</label>
+                <div className="flex flex-wrap gap-2">
+                  {LANGUAGE_CODES.map(code => (
+                    <button
+                      key={code}
+                      type="button"
+                      onClick={() => updateGenerationInputs({ language: code })}
+                      className={`px-4 py-2 rounded-xl border text-sm transition-all ${
+                        state.language === code
+                          ? 'bg-sky-500/10 border-sky-500 text-sky-400'
+                          : 'border-slate-700 text-slate-400 hover:border-slate-500'
+                      }`}
+                    >
+                      {LANGUAGES[code].label}
+                    </button>
+                  ))}
+                </div>
               </div>
 
+              {state.format === 'long' && (
+                <div className="space-y-3">
+                  <label className="text-sm font-semibold text-slate-300">장면 구성</label>
+                  <div className="flex flex-wrap items-center gap-3">
+                    <div className="flex rounded-xl border border-slate-700 overflow-hidden text-sm">
+                      {(['auto', 'fixed'] as const).map(mode => (
+                        <button
+                          key={mode}
+                          type="button"
+                          onClick={() => updateState({ pacing: { ...state.pacing, mode } })}
+                          className={`px-4 py-2 transition-all ${state.pacing.mode === mode ? 'bg-sky-500/10 text-sky-400' : 'text-slate-400 hover:text-slate-200'}`}
+                        >
+                          {mode === 'auto' ? '길이에 맞춰 자동' : '장면 수 직접 지정'}
+                        </button>
+                      ))}
+                    </div>
+                    {state.pacing.mode === 'auto' ? (
+                      <label className="flex items-center gap-2 text-sm text-slate-400">
+                        <input
+                          type="number"
+                          min={5}
+                          max={120}
+                          value={state.pacing.secondsPerScene}
+                          onChange={(e) => updateState({ pacing: { ...state.pacing, secondsPerScene: Math.max(5, Number(e.target.value) || 5) } })}
+                          className="w-20 bg-slate-900/50 border border-slate-700 rounded-xl px-3 py-2 outline-none focus:ring-2 focus:ring-sky-500"
+                        />
+                        초마다 한 장면
+                      </label>
+                    ) : (
+                      <label className="flex items-center gap-2 text-sm text-slate-400">
+                        <input
+                          type="number"
+                          min={MIN_SCENES}
+                          max={MAX_SCENES}
+                          value={state.pacing.sceneCount}
+                          onChange={(e) => updateState({ pacing: { ...state.pacing, sceneCount: Number(e.target.value) || MIN_SCENES } })}
+                          className="w-20 bg-slate-900/50 border border-slate-700 rounded-xl px-3 py-2 outline-none focus:ring-2 focus:ring-sky-500"
+                        />
+                        개 장면
+                      </label>
+                    )}
+                    <span className="text-xs text-slate-500">
+                      → {resolveSceneCount(state.pacing, state.target, settings.subtitles.charsPerSecond)}개 장면 · 장면당 약 {formatDuration(
+                        estimateTargetSeconds(state.target, settings.subtitles.charsPerSecond) / resolveSceneCount(state.pacing, state.target, settings.subtitles.charsPerSecond)
+                      )}
+                    </span>
+                  </div>
+                </div>
+              )}
+
               <button
                 type="submit"
-                disabled={state.isProcessing}
+                disabled={state.isProcessing || isPublishing}
                 className="w-full bg-sky-500 hover:bg-sky-600 disabled:bg-slate-700 text-white font-bold py-4 rounded-2xl shadow-lg shadow-sky-500/20 transition-all flex items-center justify-center gap-2 group"
               >
                 {state.isProcessing ? (
@@ -215,33 +1365,47 @@ export default function App() {
           </div>
         );
 
+      case AppStep.BATCH:
+        return (
+          <BatchQueuePanel
+            items={batchItems}
+            channels={channelProfiles}
+            defaultTarget={state.target}
+            defaultChannel={state.channel}
+            isRunning={isBatchRunning}
+            disabled={state.isProcessing || isPublishing}
+            onAdd={addBatchItems}
+            onStart={runBatchQueue}
+            onCancel={cancelBatchQueue}
+            onRetry={retryBatchItem}
+            onRemove={removeBatchItem}
+            onClearFinished={clearFinishedBatchItems}
+            onOpen={openBatchProject}
+          />
+        );
+
+      case AppStep.LIBRARY:
+        return (
+          <ProjectLibrary
+            activeProjectId={state.projectId}
+            disabled={state.isProcessing || isPublishing}
+            onOpen={openProject}
+            onDeleted={handleProjectDeleted}
+            onNewProject={startNewProject}
+          />
+        );
+
       case AppStep.RESEARCH:
         return (
           <div className="max-w-4xl mx-auto space-y-6 animate-in fade-in duration-500">
             <h2 className="text-3xl font-bold flex items-center gap-3">
               <FileText className="text-sky-400" /> 조사 보고서 및 팩트체크
             </h2>
-            <div className="glass-panel p-8 rounded-3xl space-y-6 leading-relaxed">
-              <div className="prose prose-invert max-w-none whitespace-pre-wrap">
-                {state.research?.report || "조사 중입니다..."}
-              </div>
-              {state.research?.sources && state.research.sources.length > 0 && (
-                <div className="mt-8 pt-6 border-t border-slate-700">
-                  <h3 className="text-lg font-bold mb-4">참고 문헌 / 출처</h3>
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                    {state.research.sources.map((source, i) => (
-                      <a 
-                        key={i} 
-                        href={source.uri} 
-                        target="_blank" 
-                        rel="noopener noreferrer"
-                        className="p-3 bg-slate-900/50 rounded-lg hover:bg-slate-800 transition-colors text-sky-400 truncate text-sm flex items-center gap-2"
-                      >
-                        <Search size={14} /> {source.title}
-                      </a>
-                    ))}
-                  </div>
-                </div>
+            <div className="glass-panel p-8 rounded-3xl">
+              {state.research ? (
+                <ResearchReport research={state.research} disabled={state.isProcessing} onToggleFact={toggleRequiredFact} />
+              ) : (
+                <p className="text-slate-400">조사 중입니다...</p>
               )}
             </div>
           </div>
@@ -254,16 +1418,48 @@ export default function App() {
               <h2 className="text-3xl font-bold flex items-center gap-3">
                 <PlayCircle className="text-sky-400" /> 대본 및 Vrew TTS 최적화
               </h2>
-              <button 
-                onClick={() => {
-                  navigator.clipboard.writeText(state.script?.ttsScript || '');
-                  alert('클립보드에 복사되었습니다.');
-                }}
-                className="bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-xl flex items-center gap-2 transition-colors"
-              >
-                <Download size={18} /> TTS 전체 복사
-              </button>
+              {state.script && renderScriptStats(state.script)}
+              <div className="flex gap-2">
+                {state.format === 'long' && (
+                  <button
+                    onClick={createShortsFromScript}
+                    disabled={!state.script || state.isProcessing || isDerivingShorts}
+                    title="대본에서 쇼츠로 만들 구간을 골라 새 프로젝트로 저장합니다"
+                    className="bg-slate-800 hover:bg-slate-700 disabled:opacity-50 px-4 py-2 rounded-xl flex items-center gap-2 transition-colors"
+                  >
+                    {isDerivingShorts ? <Loader2 size={18} className="animate-spin" /> : <Smartphone size={18} />} 쇼츠 만들기
+                  </button>
+                )}
+                <button 
+                  onClick={() => downloadSubtitles('srt')}
+                  disabled={!state.script}
+                  className="bg-slate-800 hover:bg-slate-700 disabled:opacity-50 px-4 py-2 rounded-xl flex items-center gap-2 transition-colors"
+                >
+                  <Captions size={18} /> SRT
+                </button>
+                <button 
+                  onClick={() => downloadSubtitles('vtt')}
+                  disabled={!state.script}
+                  className="bg-slate-800 hover:bg-slate-700 disabled:opacity-50 px-4 py-2 rounded-xl flex items-center gap-2 transition-colors"
+                >
+                  <Captions size={18} /> VTT
+                </button>
+                <button 
+                  onClick={() => {
+                    navigator.clipboard.writeText(state.script?.ttsScript || '');
+                    alert('클립보드에 복사되었습니다.');
+                  }}
+                  className="bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-xl flex items-center gap-2 transition-colors"
+                >
+                  <Download size={18} /> TTS 전체 복사
+                </button>
+              </div>
             </div>
+
+            {renderActionError('deriveShorts')}
+            {state.script && renderFactCheckBar()}
+            {renderActionError('factCheck')}
+            {renderActionError('rewrite')}
             
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               <div className="space-y-4">
@@ -273,9 +1469,20 @@ export default function App() {
                 </div>
               </div>
               <div className="space-y-4">
-                <h3 className="text-xl font-semibold text-sky-400">Vrew용 TTS 내레이션 (구어체)</h3>
-                <div className="glass-panel p-6 rounded-2xl h-[600px] overflow-y-auto whitespace-pre-wrap text-sky-50 font-medium">
-                  {state.script?.ttsScript || "변환 중..."}
+                <h3 className="text-xl font-semibold text-sky-400">Vrew용 TTS 내레이션 (문단 편집)</h3>
+                <div className="h-[600px] overflow-y-auto pr-2">
+                  {state.script ? (
+                    <ScriptEditor
+                      script={state.script}
+                      disabled={state.isProcessing}
+                      onChange={applyScriptEdit}
+                      onRewrite={rewriteParagraphWithAI}
+                      claims={state.factCheck ? groupClaimsByParagraph(state.factCheck.claims) : undefined}
+                      sources={state.research?.sources}
+                    />
+                  ) : (
+                    <div className="glass-panel p-6 rounded-2xl text-sky-50 font-medium">변환 중...</div>
+                  )}
                 </div>
               </div>
             </div>
@@ -287,57 +1494,129 @@ export default function App() {
           <div className="max-w-6xl mx-auto space-y-8 animate-in fade-in duration-500">
             <div className="flex justify-between items-center">
               <h2 className="text-3xl font-bold flex items-center gap-3">
-                <ImageIcon className="text-sky-400" /> 12개 주요 장면 이미지 구성
+                <ImageIcon className="text-sky-400" /> {state.script?.paragraphs.length ?? 0}개 주요 장면 이미지 구성
               </h2>
-              <button 
-                onClick={downloadAllImages}
-                className="bg-sky-500 hover:bg-sky-600 px-6 py-2 rounded-xl flex items-center gap-2 transition-colors font-bold"
-              >
-                <Download size={18} /> 전체 이미지 다운로드
-              </button>
+              <div className="flex gap-2">
+                {state.script?.paragraphs.some(p => p.isGenerating) && (
+                  <button 
+                    onClick={cancelAllImages}
+                    className="bg-slate-800 hover:bg-red-500/80 px-4 py-2 rounded-xl flex items-center gap-2 transition-colors"
+                  >
+                    <X size={18} /> 전체 취소
+                  </button>
+                )}
+                <button 
+                  onClick={downloadAllImages}
+                  className="bg-sky-500 hover:bg-sky-600 px-6 py-2 rounded-xl flex items-center gap-2 transition-colors font-bold"
+                >
+                  <Download size={18} /> 전체 이미지 다운로드
+                </button>
+              </div>
             </div>
+
+            <VisualReferencesPanel
+              references={state.visualReferences || []}
+              styleLock={!!state.styleLock}
+              disabled={state.isProcessing}
+              onChange={(visualReferences: VisualReference[]) => updateVisualReferences({ visualReferences })}
+              onStyleLockChange={styleLock => updateVisualReferences({ styleLock })}
+              onGenerateImage={generateVisualReferenceImage}
+            />
+            {renderActionError('referenceImage')}
             
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            <div className={`grid gap-6 ${state.format === 'shorts' ? 'grid-cols-2 md:grid-cols-3 lg:grid-cols-4' : 'grid-cols-1 md:grid-cols-2 lg:grid-cols-3'}`}>
               {state.script?.paragraphs.map((p, idx) => (
-                <div key={idx} className="glass-panel rounded-2xl overflow-hidden flex flex-col group border border-slate-700/50 hover:border-sky-500/50 transition-all">
-                  <div className="aspect-video bg-slate-900 relative">
-                    {p.imageUrl ? (
-                      <>
-                        <img src={p.imageUrl} alt={`Scene ${idx + 1}`} className="w-full h-full object-cover" />
-                        <div className="absolute top-2 right-2 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                          <button 
-                            onClick={() => retryImage(idx)}
-                            className="p-2 bg-black/60 backdrop-blur-md rounded-lg text-white hover:bg-sky-500 transition-colors"
-                          >
-                            <RefreshCw size={16} className={p.isGenerating ? "animate-spin" : ""} />
-                          </button>
-                          <button 
-                            onClick={() => downloadImage(p.imageUrl!, `scene_${idx + 1}.png`)}
-                            className="p-2 bg-black/60 backdrop-blur-md rounded-lg text-white hover:bg-sky-500 transition-colors"
-                          >
-                            <Download size={16} />
-                          </button>
-                        </div>
-                      </>
-                    ) : (
-                      <div className="flex items-center justify-center h-full text-slate-600 flex-col gap-3">
-                        {p.isGenerating ? <Loader2 className="animate-spin text-sky-500" size={32} /> : <ImageIcon size={32} />}
-                        <span className="text-sm">{p.isGenerating ? "이미지 생성 중..." : "이미지 준비 중"}</span>
-                      </div>
-                    )}
-                  </div>
-                  <div className="p-4 space-y-2 flex-grow">
-                    <div className="flex items-center gap-2 mb-2">
-                      <span className="bg-sky-500/20 text-sky-400 text-xs font-bold px-2 py-1 rounded">Scene {idx + 1}</span>
-                    </div>
-                    <p className="text-xs text-slate-400 line-clamp-3 leading-relaxed italic">"{p.content}"</p>
-                  </div>
-                </div>
+                <React.Fragment key={p.id}>
+                  <SceneImageCard
+                    paragraph={p}
+                    index={idx}
+                    variantCount={settings.imageVariants}
+                    vertical={state.format === 'shorts'}
+                    onGenerate={() => retryImage(idx)}
+                    onCancel={() => cancelSceneImage(p.id)}
+                    onDownload={() => downloadImage(p.imageUrl!, sceneFileName(idx, p.imageUrl))}
+                    onPromptChange={prompt => updateParagraph(p.id, { imagePrompt: prompt })}
+                    onSelectVariant={variant => updateParagraph(p.id, { imageUrl: variant.imageUrl })}
+                    onDeleteVariant={variant => updateParagraph(p.id, { variants: removeVariant(p.variants || [], variant.id, p.imageUrl) })}
+                    onCaptionChange={state.format === 'shorts' ? caption => updateParagraph(p.id, { caption }) : undefined}
+                  />
+                </React.Fragment>
               ))}
             </div>
           </div>
         );
 
+      case AppStep.AUDIO:
+        return (
+          <div className="max-w-5xl mx-auto space-y-8 animate-in fade-in duration-500">
+            <div className="flex justify-between items-center">
+              <h2 className="text-3xl font-bold flex items-center gap-3">
+                <Mic className="text-sky-400" /> 내레이션 음성
+              </h2>
+              <div className="flex gap-2">
+                {state.script?.paragraphs.some(p => p.isSynthesizing) ? (
+                  <button
+                    onClick={cancelAllNarration}
+                    className="bg-slate-800 hover:bg-red-500/80 px-4 py-2 rounded-xl flex items-center gap-2 transition-colors"
+                  >
+                    <X size={18} /> 전체 취소
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => runPipeline([AppStep.AUDIO], state)}
+                    disabled={!state.script || state.isProcessing}
+                    className="bg-slate-800 hover:bg-slate-700 disabled:opacity-50 px-4 py-2 rounded-xl flex items-center gap-2 transition-colors"
+                  >
+                    <Mic size={18} /> 없는 문단만 생성
+                  </button>
+                )}
+                <button
+                  onClick={downloadNarration}
+                  disabled={!state.script}
+                  className="bg-sky-500 hover:bg-sky-600 disabled:bg-slate-700 px-6 py-2 rounded-xl flex items-center gap-2 transition-colors font-bold"
+                >
+                  <Download size={18} /> 전체 WAV 다운로드
+                </button>
+              </div>
+            </div>
+
+            {state.script ? (
+              <NarrationList
+                paragraphs={state.script.paragraphs}
+                narration={state.narration}
+                disabled={state.isProcessing}
+                onNarrationChange={narration => updateState({ narration })}
+                onSynthesize={retryNarration}
+                onCancel={cancelNarration}
+              />
+            ) : (
+              <p className="text-slate-500">대본을 먼저 생성해주세요.</p>
+            )}
+          </div>
+        );
+
+      case AppStep.PREVIEW:
+        return (
+          <div className="max-w-5xl mx-auto space-y-8 animate-in fade-in duration-500">
+            <h2 className="text-3xl font-bold flex items-center gap-3">
+              <Film className="text-sky-400" /> 영상 미리보기
+            </h2>
+            {state.script ? (
+              <SlideshowPlayer
+                paragraphs={state.script.paragraphs}
+                format={state.format}
+                subtitleOptions={settings.subtitles}
+                onRendered={video => {
+                  setRenderedVideo(video);
+                  downloadBlob(video, exportFileName(state, '_video', videoExtension(video)));
+                }}
+              />
+            ) : (
+              <p className="text-slate-500">대본을 먼저 생성해주세요.</p>
+            )}
+          </div>
+        );
+
       case AppStep.METADATA:
         return (
           <div className="max-w-4xl mx-auto space-y-8 animate-in fade-in duration-500">
@@ -346,11 +1625,34 @@ export default function App() {
             </h2>
             
             <div className="grid gap-6">
+              {state.metadata && (
+                <TitleCandidatesPanel
+                  candidates={state.metadata.titleCandidates || []}
+                  selected={state.metadata.title}
+                  thumbnailCopy={thumbnailCopy}
+                  disabled={state.isProcessing}
+                  isGenerating={isGeneratingTitles}
+                  onSelect={selectTitle}
+                  onGenerateWithThumbnail={generateThumbnailTitles}
+                />
+              )}
+              {renderActionError('titles')}
+
               <div className="glass-panel p-6 rounded-2xl space-y-4">
                 <h3 className="text-lg font-bold text-sky-400 border-b border-slate-700 pb-2">영상 설명란</h3>
                 <div className="text-slate-300 whitespace-pre-wrap text-sm leading-relaxed h-48 overflow-y-auto bg-slate-900/50 p-4 rounded-xl">
-                  {state.metadata?.youtubeDescription}
+                  {state.metadata && fullDescription(
+                    state.metadata,
+                    state.script?.paragraphs || [],
+                    state.format,
+                    settings.subtitles.charsPerSecond
+                  )}
                 </div>
+                {state.format === 'long' && (
+                  <p className="text-xs text-slate-500">
+                    챕터 타임스탬프는 문단별 내레이션 길이로 계산합니다. 음성을 생성하기 전에는 추정치이며, 3개 미만이거나 10초보다 짧은 챕터는 생략됩니다.
+                  </p>
+                )}
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -381,6 +1683,16 @@ export default function App() {
                   {state.metadata?.pinnedComment}
                 </div>
               </div>
+
+              {state.metadata && (
+                <LocalizedMetadataPanel
+                  sourceLanguage={state.language}
+                  localized={state.localizedMetadata || {}}
+                  disabled={state.isProcessing}
+                  onGenerate={generateLocalizedMetadata}
+                />
+              )}
+              {renderActionError('localize')}
             </div>
           </div>
         );
@@ -394,31 +1706,61 @@ export default function App() {
 
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
               <div className="space-y-6">
-                <div className="glass-panel rounded-3xl overflow-hidden shadow-2xl border border-slate-700">
-                  <div className="aspect-video bg-slate-900 flex items-center justify-center relative">
-                    {state.thumbnail?.pureImageUrl ? (
-                      <img src={state.thumbnail.pureImageUrl} alt="Thumbnail background" className="w-full h-full object-cover" />
-                    ) : (
-                      <Loader2 className="animate-spin text-sky-500" />
-                    )}
-                    <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent flex flex-col justify-end p-8">
-                      <p className="text-white text-2xl font-black drop-shadow-lg text-center leading-tight">
-                        [디자인 가이드: 아래 추천 문구를 여기에 배치하세요]
-                      </p>
-                    </div>
+                {state.thumbnail ? (
+                  <ThumbnailEditor thumbnail={state.thumbnail} onChange={updateThumbnail} format={state.format} />
+                ) : (
+                  <div className="glass-panel rounded-3xl aspect-video flex items-center justify-center">
+                    <Loader2 className="animate-spin text-sky-500" />
                   </div>
-                  <div className="p-4 bg-slate-800 flex justify-between items-center">
-                    <span className="text-sm font-semibold text-slate-400">썸네일 배경 이미지</span>
-                    {state.thumbnail?.pureImageUrl && (
-                      <button 
-                        onClick={() => downloadImage(state.thumbnail!.pureImageUrl!, 'thumbnail_bg.png')}
-                        className="bg-sky-500 hover:bg-sky-600 p-2 rounded-lg text-white"
+                )}
+
+                {state.thumbnail && (
+                  <div className="glass-panel p-6 rounded-3xl space-y-4">
+                    <h3 className="text-lg font-bold text-sky-400 flex items-center gap-2">
+                      <ImageIcon size={20} /> 배경 이미지 후보
+                    </h3>
+                    {(state.thumbnail.backgroundVariants?.length || 0) > 1 && (
+                      <VariantStrip
+                        variants={state.thumbnail.backgroundVariants!}
+                        selectedUrl={state.thumbnail.pureImageUrl}
+                        disabled={isGeneratingBackground}
+                        onSelect={variant => updateThumbnail({
+                          pureImageUrl: variant.imageUrl,
+                          backgroundPrompt: variant.prompt,
+                          mockupImageUrl: undefined
+                        })}
+                        onDelete={variant => updateThumbnail({
+                          backgroundVariants: removeVariant(state.thumbnail!.backgroundVariants!, variant.id, state.thumbnail!.pureImageUrl)
+                        })}
+                      />
+                    )}
+                    <textarea
+                      value={state.thumbnail.backgroundPrompt || ''}
+                      onChange={e => updateThumbnail({ backgroundPrompt: e.target.value })}
+                      disabled={isGeneratingBackground}
+                      placeholder="배경 이미지 프롬프트 (영문)"
+                      className="w-full h-20 bg-slate-900/50 border border-slate-700 rounded-xl p-3 text-sm resize-none outline-none focus:ring-2 focus:ring-sky-500 disabled:opacity-50"
+                    />
+                    {isGeneratingBackground ? (
+                      <button
+                        onClick={cancelThumbnailBackgrounds}
+                        className="w-full py-2 rounded-xl bg-slate-800 hover:bg-red-500/80 text-sm flex items-center justify-center gap-2 transition-colors"
+                      >
+                        <Loader2 size={16} className="animate-spin" /> 생성 취소
+                      </button>
+                    ) : (
+                      <button
+                        onClick={generateThumbnailBackgrounds}
+                        disabled={state.isProcessing}
+                        className="w-full py-2 rounded-xl bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-sm flex items-center justify-center gap-2 transition-colors"
                       >
-                        <Download size={18} />
+                        <RefreshCw size={16} />
+                        {settings.imageVariants > 1 ? `배경 후보 ${settings.imageVariants}개 생성` : '새 배경 후보 생성'}
                       </button>
                     )}
+                    {renderActionError('thumbnailBackground')}
                   </div>
-                </div>
+                )}
 
                 <div className="glass-panel p-6 rounded-3xl space-y-4">
                   <h3 className="text-lg font-bold text-yellow-400 flex items-center gap-2">
@@ -439,7 +1781,13 @@ export default function App() {
                   </h3>
                   <div className="space-y-3">
                     {state.thumbnail?.copySuggestions.type1.map((copy, i) => (
-                      <div key={i} className="bg-slate-900/80 p-4 rounded-xl border border-slate-700 hover:border-sky-500/50 transition-colors cursor-pointer group">
+                      <div
+                        key={i}
+                        onClick={() => placeThumbnailCopy(copy)}
+                        className={`bg-slate-900/80 p-4 rounded-xl border transition-colors cursor-pointer group ${
+                          state.thumbnail?.composition?.text === copy ? 'border-sky-500' : 'border-slate-700 hover:border-sky-500/50'
+                        }`}
+                      >
                         <p className="text-slate-200 font-bold group-hover:text-white">{copy}</p>
                       </div>
                     ))}
@@ -452,7 +1800,13 @@ export default function App() {
                   </h3>
                   <div className="space-y-3">
                     {state.thumbnail?.copySuggestions.type2.map((copy, i) => (
-                      <div key={i} className="bg-slate-900/80 p-4 rounded-xl border border-slate-700 hover:border-sky-500/50 transition-colors cursor-pointer group">
+                      <div
+                        key={i}
+                        onClick={() => placeThumbnailCopy(copy)}
+                        className={`bg-slate-900/80 p-4 rounded-xl border transition-colors cursor-pointer group ${
+                          state.thumbnail?.composition?.text === copy ? 'border-sky-500' : 'border-slate-700 hover:border-sky-500/50'
+                        }`}
+                      >
                         <p className="text-slate-200 font-bold group-hover:text-white">{copy}</p>
                       </div>
                     ))}
@@ -463,6 +1817,28 @@ export default function App() {
           </div>
         );
 
+      case AppStep.PUBLISH:
+        return (
+          <div className="max-w-4xl mx-auto space-y-8 animate-in fade-in duration-500">
+            <h2 className="text-3xl font-bold flex items-center gap-3">
+              <Youtube className="text-sky-400" /> YouTube 업로드
+            </h2>
+            <PublishPanel
+              state={state}
+              subtitleOptions={settings.subtitles}
+              youtube={settings.youtube}
+              renderedVideo={renderedVideo}
+              progress={publishProgress}
+              error={publishError}
+              disabled={state.isProcessing}
+              onPublish={publishToYouTube}
+              onRetryExtras={retryFailedPublishExtras}
+              onCancel={cancelPublish}
+              onOpenSettings={() => setIsSettingsOpen(true)}
+            />
+          </div>
+        );
+
       default:
         return null;
     }
@@ -479,25 +1855,71 @@ export default function App() {
           <span className="text-xl font-black tracking-tighter">CREATOR AI</span>
         </div>
         
-        {state.currentStep !== AppStep.INPUT && (
-          <div className="flex items-center gap-4">
-            <button 
-              onClick={() => updateState({ currentStep: AppStep.INPUT })}
-              className="px-4 py-2 text-slate-400 hover:text-white transition-colors"
-            >
-              새 프로젝트
-            </button>
-            <div className="flex items-center gap-2 bg-slate-800/50 px-3 py-1.5 rounded-full border border-slate-700">
-              <div className={`w-2 h-2 rounded-full ${state.isProcessing ? 'bg-sky-500 animate-pulse' : 'bg-green-500'}`} />
-              <span className="text-xs font-semibold text-slate-400">{state.isProcessing ? "작업 중" : "완료"}</span>
-            </div>
-          </div>
-        )}
+        <div className="flex items-center gap-4">
+          {settings.provider === AIProviderId.MOCK && (
+            <span className="text-xs font-bold text-amber-400 bg-amber-400/10 border border-amber-400/40 px-3 py-1 rounded-full">
+              MOCK 모드
+            </span>
+          )}
+          <button 
+            onClick={() => updateState({ currentStep: AppStep.LIBRARY })}
+            className="px-4 py-2 text-slate-400 hover:text-white transition-colors flex items-center gap-2"
+          >
+            <FolderOpen size={18} /> 프로젝트 보관함
+          </button>
+          <button
+            onClick={() => updateState({ currentStep: AppStep.BATCH })}
+            className="px-4 py-2 text-slate-400 hover:text-white transition-colors flex items-center gap-2"
+          >
+            {isBatchRunning ? <Loader2 size={18} className="animate-spin text-sky-400" /> : <ListChecks size={18} />} 일괄 제작
+          </button>
+          <button
+            onClick={() => setIsUsageOpen(true)}
+            title="사용량 및 비용"
+            className={`text-xs font-bold px-3 py-1 rounded-full border flex items-center gap-1 transition-colors ${
+              settings.projectBudget && projectCost >= settings.projectBudget * BUDGET_WARNING_RATIO
+                ? 'text-amber-400 border-amber-400/40 bg-amber-400/10'
+                : 'text-slate-400 border-slate-700 hover:text-white'
+            }`}
+          >
+            <Coins size={14} /> {formatCost(projectCost)}{settings.projectBudget > 0 && ` / ${formatCost(settings.projectBudget)}`}
+          </button>
+          <button 
+            onClick={() => setIsSettingsOpen(true)}
+            title="설정"
+            className="p-2 text-slate-400 hover:text-white transition-colors"
+          >
+            <Settings size={18} />
+          </button>
+          {isProjectView && (
+            <>
+              <button 
+                onClick={exportProject}
+                disabled={isExporting || !state.research}
+                className="px-4 py-2 text-slate-400 hover:text-white disabled:opacity-50 transition-colors flex items-center gap-2"
+              >
+                {isExporting ? <Loader2 size={18} className="animate-spin" /> : <Package size={18} />} ZIP 내보내기
+              </button>
+              <button 
+                onClick={startNewProject}
+                disabled={state.isProcessing || isPublishing}
+                className="px-4 py-2 text-slate-400 hover:text-white disabled:opacity-50 transition-colors"
+              >
+                새 프로젝트
+              </button>
+              <div className="flex items-center gap-2 bg-slate-800/50 px-3 py-1.5 rounded-full border border-slate-700">
+                <div className={`w-2 h-2 rounded-full ${state.isProcessing ? 'bg-sky-500 animate-pulse' : 'bg-green-500'}`} />
+                <span className="text-xs font-semibold text-slate-400">{state.isProcessing ? "작업 중" : "완료"}</span>
+              </div>
+            </>
+          )}
+        </div>
       </header>
 
       {/* Main Content */}
       <main className="flex-grow container mx-auto px-6 py-12">
-        {state.currentStep !== AppStep.INPUT && renderStepNav()}
+        {isProjectView && renderStepNav()}
+        {isProjectView && renderPipelineBar()}
         {renderCurrentStep()}
       </main>
 
@@ -513,6 +1935,7 @@ export default function App() {
                   {state.currentStep === AppStep.RESEARCH && "최신 정보를 조사하고 팩트를 체크하고 있습니다."}
                   {state.currentStep === AppStep.SCRIPT && "조사 결과를 바탕으로 몰입도 높은 대본을 작성 중입니다."}
                   {state.currentStep === AppStep.IMAGES && "각 장면별 초현실적 고품질 이미지를 생성하고 있습니다."}
+                  {state.currentStep === AppStep.AUDIO && "문단별 내레이션 음성을 합성하고 있습니다."}
                   {state.currentStep === AppStep.METADATA && "SEO 최적화를 위한 메타데이터를 추출하고 있습니다."}
                   {state.currentStep === AppStep.THUMBNAIL && "클릭을 부르는 썸네일 카피를 고민하고 있습니다."}
                 </p>
@@ -525,6 +1948,31 @@ export default function App() {
         </div>
       )}
 
+      {isSettingsOpen && (
+        <SettingsDialog
+          settings={settings}
+          onSave={handleSettingsSave}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+
+      {isUsageOpen && (
+        <UsageDialog
+          usage={state.usage || []}
+          budget={settings.projectBudget}
+          onClose={() => setIsUsageOpen(false)}
+        />
+      )}
+
+      {isChannelDialogOpen && (
+        <ChannelProfileDialog
+          profiles={channelProfiles}
+          selectedId={state.channel.id}
+          onSave={handleChannelProfilesSave}
+          onClose={() => setIsChannelDialogOpen(false)}
+        />
+      )}
+
       {/* Footer Branding */}
       <footer className="py-8 border-t border-slate-800/50 text-center text-slate-500 text-sm">
         <p>© 2024 AI Creator All-in-one Toolkit. Built for professional YouTube workflow.</p>
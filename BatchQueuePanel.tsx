@@ -0,0 +1,265 @@
+import React, { useRef, useState } from 'react';
+import { BatchItem, ChannelProfile, ScriptTarget, StepStatus } from './types';
+import { parseTarget, parseTopicList } from './batchQueue';
+import { PIPELINE_ORDER, STEP_LABELS } from './pipeline';
+import { describeTarget } from './scriptLength';
+import { ERROR_KINDS } from './aiErrors';
+import { ListChecks, Upload, Plus, Play, Square, RefreshCw, FolderOpen, Trash2, Loader2 } from 'lucide-react';
+
+interface BatchQueuePanelProps {
+  items: BatchItem[];
+  channels: ChannelProfile[];
+  defaultTarget: ScriptTarget;
+  defaultChannel: ChannelProfile;
+  isRunning: boolean;
+  // Opening a project replaces the editor, so it's blocked while the editor is busy.
+  disabled: boolean;
+  onAdd: (items: BatchItem[]) => void;
+  onStart: () => void;
+  onCancel: () => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+  onOpen: (projectId: string) => void;
+}
+
+const ITEM_STATUS: Partial<Record<StepStatus, { dot: string; label: string }>> = {
+  [StepStatus.PENDING]: { dot: 'bg-slate-600', label: '대기' },
+  [StepStatus.RUNNING]: { dot: 'bg-sky-500 animate-pulse', label: '진행 중' },
+  [StepStatus.DONE]: { dot: 'bg-green-500', label: '완료' },
+  [StepStatus.FAILED]: { dot: 'bg-red-500', label: '실패' }
+};
+
+// Share of the pipeline behind the item, counting the running step as half done.
+const itemProgress = (item: BatchItem): number => {
+  if (item.status === StepStatus.DONE) return 1;
+  if (!item.step) return 0;
+  const index = PIPELINE_ORDER.indexOf(item.step);
+  return (index + (item.status === StepStatus.RUNNING ? 0.5 : 0)) / PIPELINE_ORDER.length;
+};
+
+export default function BatchQueuePanel({
+  items,
+  channels,
+  defaultTarget,
+  defaultChannel,
+  isRunning,
+  disabled,
+  onAdd,
+  onStart,
+  onCancel,
+  onRetry,
+  onRemove,
+  onClearFinished,
+  onOpen
+}: BatchQueuePanelProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [text, setText] = useState('');
+  const [length, setLength] = useState(describeTarget(defaultTarget));
+  const [channelId, setChannelId] = useState(defaultChannel.id);
+
+  const addTopics = (source: string) => {
+    const target = parseTarget(length);
+    if (!target) {
+      alert(`기본 분량 "${length}"을(를) 읽을 수 없습니다. 예: 8000자, 10분`);
+      return false;
+    }
+    const channel = channels.find(c => c.id === channelId) || defaultChannel;
+    const { items: parsed, warnings } = parseTopicList(source, { target, channel }, channels);
+    if (!parsed.length) {
+      alert('추가할 주제가 없습니다.');
+      return false;
+    }
+    onAdd(parsed);
+    if (warnings.length) alert(warnings.join('\n'));
+    return true;
+  };
+
+  const handlePaste = () => {
+    if (addTopics(text)) setText('');
+  };
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    try {
+      addTopics(await file.text());
+    } catch (err) {
+      console.error(`Failed to read ${file.name}`, err);
+      alert('파일을 읽을 수 없습니다.');
+    } finally {
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  const pendingCount = items.filter(item => item.status === StepStatus.PENDING).length;
+  const finishedCount = items.filter(item => item.status === StepStatus.DONE).length;
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-8 animate-in fade-in duration-500">
+      <div className="flex justify-between items-center">
+        <h2 className="text-3xl font-bold flex items-center gap-3">
+          <ListChecks className="text-sky-400" /> 일괄 제작
+        </h2>
+        {isRunning ? (
+          <button
+            onClick={onCancel}
+            className="bg-red-500/80 hover:bg-red-500 px-6 py-2 rounded-xl flex items-center gap-2 transition-colors font-bold"
+          >
+            <Square size={18} /> 중지
+          </button>
+        ) : (
+          <button
+            onClick={onStart}
+            disabled={!pendingCount}
+            className="bg-sky-500 hover:bg-sky-600 disabled:bg-slate-700 px-6 py-2 rounded-xl flex items-center gap-2 transition-colors font-bold"
+          >
+            <Play size={18} /> 대기 중인 {pendingCount}개 실행
+          </button>
+        )}
+      </div>
+
+      <div className="glass-panel p-6 rounded-3xl space-y-4">
+        <div className="space-y-2">
+          <label className="text-sm font-semibold text-slate-300">주제 목록</label>
+          <textarea
+            value={text}
+            onChange={e => setText(e.target.value)}
+            placeholder={'한 줄에 주제 하나. 분량과 채널을 따로 지정하려면 쉼표로 구분하세요.\n예) 최근 한국 경제 상황, 10분, 경제 채널\n    삼성전자 신제품 리뷰, 8000자'}
+            className="w-full h-36 bg-slate-900/50 border border-slate-700 rounded-2xl p-4 focus:ring-2 focus:ring-sky-500 focus:border-transparent outline-none transition-all resize-none text-sm"
+          />
+          <p className="text-xs text-slate-500">
+            CSV 열 순서: 주제, 분량(예: 8000자, 10분), 채널 프로필 이름. 비워 둔 칸은 아래 기본값을 사용합니다. 영상 형식·언어·내레이션은 현재 입력 화면의 설정을 따릅니다.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="text-sm text-slate-400">기본 분량</label>
+          <input
+            value={length}
+            onChange={e => setLength(e.target.value)}
+            className="w-28 bg-slate-900/50 border border-slate-700 rounded-xl px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-sky-500"
+          />
+          <label className="text-sm text-slate-400">기본 채널</label>
+          <select
+            value={channelId}
+            onChange={e => setChannelId(e.target.value)}
+            className="bg-slate-900/50 border border-slate-700 rounded-xl px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-sky-500"
+          >
+            {!channels.some(c => c.id === defaultChannel.id) && (
+              <option value={defaultChannel.id}>{defaultChannel.name}</option>
+            )}
+            {channels.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+          <div className="ml-auto flex gap-3">
+            <button
+              type="button"
+              onClick={() => inputRef.current?.click()}
+              className="px-4 py-2 rounded-xl border border-slate-700 text-slate-300 hover:border-slate-500 text-sm flex items-center gap-2 transition-all"
+            >
+              <Upload size={16} /> CSV 가져오기
+            </button>
+            <button
+              type="button"
+              onClick={handlePaste}
+              disabled={!text.trim()}
+              className="bg-slate-800 hover:bg-slate-700 disabled:opacity-50 px-4 py-2 rounded-xl flex items-center gap-2 text-sm transition-colors"
+            >
+              <Plus size={16} /> 대기열에 추가
+            </button>
+          </div>
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".csv,.tsv,.txt,text/csv,text/plain"
+            onChange={e => handleFile(e.target.files?.[0])}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      {items.length === 0 ? (
+        <div className="glass-panel p-12 rounded-3xl text-center text-slate-400">
+          대기열이 비어 있습니다. 주제를 붙여 넣거나 CSV 파일을 가져오세요.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex justify-between items-center text-sm text-slate-400">
+            <span>총 {items.length}개 · 완료 {finishedCount}개</span>
+            <button
+              onClick={onClearFinished}
+              disabled={!finishedCount}
+              className="hover:text-white disabled:opacity-50 transition-colors"
+            >
+              완료 항목 지우기
+            </button>
+          </div>
+          {items.map(item => {
+            const status = ITEM_STATUS[item.status] || ITEM_STATUS[StepStatus.PENDING]!;
+            return (
+              <div key={item.id} className="glass-panel p-5 rounded-2xl border border-slate-700/50 space-y-3">
+                <div className="flex items-center gap-4">
+                  <div className="flex-grow min-w-0 space-y-1">
+                    <p className="font-bold text-slate-100 truncate">{item.topic}</p>
+                    <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+                      <span className="flex items-center gap-1.5">
+                        <span className={`w-2 h-2 rounded-full ${status.dot}`} /> {status.label}
+                      </span>
+                      <span>목표 {describeTarget(item.target)}</span>
+                      <span>{item.channel.name}</span>
+                      {item.step && item.status === StepStatus.RUNNING && (
+                        <span className="text-sky-400 flex items-center gap-1">
+                          <Loader2 size={12} className="animate-spin" /> {STEP_LABELS[item.step]} {item.progress}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    {item.projectId && (
+                      <button
+                        onClick={() => onOpen(item.projectId!)}
+                        disabled={disabled || item.status === StepStatus.RUNNING || item.status === StepStatus.PENDING}
+                        title="프로젝트 열기"
+                        className="p-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 rounded-lg text-slate-300 transition-colors"
+                      >
+                        <FolderOpen size={16} />
+                      </button>
+                    )}
+                    {item.status === StepStatus.FAILED && (
+                      <button
+                        onClick={() => onRetry(item.id)}
+                        title="실패한 단계부터 다시 시도"
+                        className="p-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-slate-300 transition-colors"
+                      >
+                        <RefreshCw size={16} />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onRemove(item.id)}
+                      disabled={item.status === StepStatus.RUNNING}
+                      title="대기열에서 제거 (저장된 프로젝트는 남습니다)"
+                      className="p-2 bg-slate-800 hover:bg-red-500/80 disabled:opacity-50 rounded-lg text-slate-300 transition-colors"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+                <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full transition-all ${item.status === StepStatus.FAILED ? 'bg-red-500' : 'bg-sky-500'}`}
+                    style={{ width: `${Math.round(itemProgress(item) * 100)}%` }}
+                  />
+                </div>
+                {item.error && item.status !== StepStatus.DONE && (
+                  <p className={`text-xs ${item.status === StepStatus.FAILED ? 'text-red-400' : 'text-amber-400'}`}>
+                    {item.step && `${STEP_LABELS[item.step]} · `}
+                    {item.errorKind && item.errorKind !== 'unknown' && `${ERROR_KINDS[item.errorKind].label}: `}
+                    {item.error}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { ChannelProfile } from './types';
+import { createChannelProfile, parseList } from './channelProfiles';
+import { Tv, X, Plus, Copy, Trash2 } from 'lucide-react';
+
+interface ChannelProfileDialogProps {
+  profiles: ChannelProfile[];
+  selectedId: string;
+  onSave: (profiles: ChannelProfile[], selectedId: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-900/50 border border-slate-700 rounded-xl p-3 text-sm outline-none focus:ring-2 focus:ring-sky-500';
+
+export default function ChannelProfileDialog({ profiles, selectedId, onSave, onClose }: ChannelProfileDialogProps) {
+  const [drafts, setDrafts] = useState<ChannelProfile[]>(profiles);
+  const [activeId, setActiveId] = useState(profiles.some(p => p.id === selectedId) ? selectedId : profiles[0]?.id);
+  const active = drafts.find(p => p.id === activeId);
+
+  const updateActive = (updates: Partial<ChannelProfile>) => {
+    setDrafts(prev => prev.map(p => p.id === activeId ? { ...p, ...updates } : p));
+  };
+
+  const addProfile = (base?: ChannelProfile) => {
+    const name = prompt('채널 이름', base ? `${base.name} 사본` : '새 채널');
+    if (!name) return;
+    const profile = createChannelProfile(name, base);
+    setDrafts(prev => [...prev, profile]);
+    setActiveId(profile.id);
+  };
+
+  const removeActive = () => {
+    if (!active || drafts.length <= 1) return;
+    if (!confirm(`"${active.name}" 채널 프로필을 삭제할까요?`)) return;
+    const remaining = drafts.filter(p => p.id !== active.id);
+    setDrafts(remaining);
+    setActiveId(remaining[0].id);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/60 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="glass-panel rounded-3xl p-8 w-full max-w-2xl space-y-6 max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold flex items-center gap-3">
+            <Tv className="text-sky-400" /> 채널 프로필
+          </h2>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex gap-2">
+          <select
+            value={activeId}
+            onChange={e => setActiveId(e.target.value)}
+            className="flex-grow bg-slate-900/50 border border-slate-700 rounded-xl px-3 py-2 outline-none focus:ring-2 focus:ring-sky-500"
+          >
+            {drafts.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <button onClick={() => addProfile()} title="새 채널" className="p-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-slate-300 transition-colors">
+            <Plus size={16} />
+          </button>
+          <button onClick={() => active && addProfile(active)} title="복제" className="p-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-slate-300 transition-colors">
+            <Copy size={16} />
+          </button>
+          <button onClick={removeActive} disabled={drafts.length <= 1} title="삭제" className="p-2 bg-slate-800 hover:bg-red-500/80 disabled:opacity-50 rounded-lg text-slate-300 transition-colors">
+            <Trash2 size={16} />
+          </button>
+        </div>
+
+        {active && (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <span className="text-xs text-slate-500">채널 이름</span>
+              <input value={active.name} onChange={e => updateActive({ name: e.target.value })} className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs text-slate-500">채널 성격 (조사 관점·메타데이터에 반영)</span>
+              <input value={active.description} onChange={e => updateActive({ description: e.target.value })} className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs text-slate-500">화자/말투</span>
+              <input value={active.narratorVoice} onChange={e => updateActive({ narratorVoice: e.target.value })} className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs text-slate-500">대본 구조</span>
+              <input value={active.structure} onChange={e => updateActive({ structure: e.target.value })} className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs text-slate-500">CTA 문구</span>
+              <input value={active.cta} onChange={e => updateActive({ cta: e.target.value })} className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs text-slate-500">이미지 그림체 (영문 권장, 모든 장면·썸네일에 적용)</span>
+              <textarea value={active.imageStyle} onChange={e => updateActive({ imageStyle: e.target.value })} rows={2} className={`${inputClass} resize-none`} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <span className="text-xs text-slate-500">금지어 (쉼표로 구분)</span>
+                <input
+                  defaultValue={active.bannedWords.join(', ')}
+                  key={`banned-${active.id}`}
+                  onBlur={e => updateActive({ bannedWords: parseList(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+              <div className="space-y-1">
+                <span className="text-xs text-slate-500">기본 해시태그 (쉼표로 구분)</span>
+                <input
+                  defaultValue={active.defaultHashtags.join(', ')}
+                  key={`hashtags-${active.id}`}
+                  onBlur={e => updateActive({ defaultHashtags: parseList(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        <button
+          onClick={() => onSave(drafts, activeId)}
+          className="w-full bg-sky-500 hover:bg-sky-600 text-white font-bold py-3 rounded-2xl transition-all"
+        >
+          저장 후 이 채널 사용
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import React from 'react';
+import { AIFailure, ERROR_KINDS } from './aiErrors';
+import { AlertTriangle, RefreshCw, X } from 'lucide-react';
+
+interface ErrorNoticeProps {
+  failure: AIFailure;
+  disabled?: boolean;
+  onRetry?: () => void;
+  onDismiss?: () => void;
+}
+
+export default function ErrorNotice({ failure, disabled, onRetry, onDismiss }: ErrorNoticeProps) {
+  const { label, hint } = ERROR_KINDS[failure.kind];
+  return (
+    <div className="w-full rounded-xl border border-red-500/40 bg-red-500/10 px-4 py-3 flex items-start gap-3 text-sm">
+      <AlertTriangle size={18} className="text-red-400 shrink-0 mt-0.5" />
+      <div className="flex-grow min-w-0 space-y-1">
+        <p className="font-bold text-red-300">{label}</p>
+        <p className="text-slate-300 break-words">{failure.message}</p>
+        <p className="text-xs text-slate-400">{hint}</p>
+      </div>
+      <div className="flex items-center gap-2 shrink-0">
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            disabled={disabled}
+            className="bg-slate-800 hover:bg-slate-700 disabled:opacity-50 px-3 py-1.5 rounded-lg flex items-center gap-1 text-xs text-slate-200 transition-colors"
+          >
+            <RefreshCw size={12} /> 다시 시도
+          </button>
+        )}
+        {onDismiss && (
+          <button onClick={onDismiss} title="닫기" className="p-1 text-slate-400 hover:text-white transition-colors">
+            <X size={14} />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
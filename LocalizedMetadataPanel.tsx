@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { LanguageCode, MetadataResults } from './types';
+import { LANGUAGES, LANGUAGE_CODES } from './languages';
+import { Languages, Loader2, Copy } from 'lucide-react';
+
+interface LocalizedMetadataPanelProps {
+  sourceLanguage: LanguageCode;
+  localized: Partial<Record<LanguageCode, MetadataResults>>;
+  disabled: boolean;
+  onGenerate: (languages: LanguageCode[]) => Promise<void>;
+}
+
+const copyText = (text: string) => {
+  navigator.clipboard.writeText(text);
+};
+
+export default function LocalizedMetadataPanel({ sourceLanguage, localized, disabled, onGenerate }: LocalizedMetadataPanelProps) {
+  const candidates = LANGUAGE_CODES.filter(code => code !== sourceLanguage);
+  const [selected, setSelected] = useState<LanguageCode[]>(candidates.filter(code => localized[code]));
+  const [activeTab, setActiveTab] = useState<LanguageCode | undefined>(candidates.find(code => localized[code]));
+  const [isGenerating, setIsGenerating] = useState(false);
+  const active = activeTab ? localized[activeTab] : undefined;
+
+  const toggle = (code: LanguageCode) => {
+    setSelected(prev => prev.includes(code) ? prev.filter(c => c !== code) : [...prev, code]);
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      await onGenerate(selected);
+      setActiveTab(selected[0]);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl space-y-4">
+      <h3 className="text-lg font-bold text-sky-400 border-b border-slate-700 pb-2 flex items-center gap-2">
+        <Languages size={18} /> 다국어 제목·설명 (YouTube 번역)
+      </h3>
+      <div className="flex flex-wrap items-center gap-2">
+        {candidates.map(code => (
+          <label
+            key={code}
+            className={`px-3 py-1.5 rounded-xl border text-sm cursor-pointer transition-all ${
+              selected.includes(code) ? 'bg-sky-500/10 border-sky-500 text-sky-400' : 'border-slate-700 text-slate-400'
+            }`}
+          >
+            <input type="checkbox" checked={selected.includes(code)} onChange={() => toggle(code)} className="hidden" />
+            {LANGUAGES[code].label}
+          </label>
+        ))}
+        <button
+          onClick={handleGenerate}
+          disabled={disabled || isGenerating || !selected.length}
+          className="ml-auto bg-sky-500 hover:bg-sky-600 disabled:bg-slate-700 px-4 py-1.5 rounded-xl text-sm font-bold flex items-center gap-2 transition-colors"
+        >
+          {isGenerating ? <Loader2 size={14} className="animate-spin" /> : <Languages size={14} />} 현지화 생성
+        </button>
+      </div>
+
+      {candidates.some(code => localized[code]) && (
+        <div className="space-y-3">
+          <div className="flex gap-2 border-b border-slate-700">
+            {candidates.filter(code => localized[code]).map(code => (
+              <button
+                key={code}
+                onClick={() => setActiveTab(code)}
+                className={`px-3 py-2 text-sm border-b-2 transition-colors ${
+                  activeTab === code ? 'border-sky-400 text-sky-400' : 'border-transparent text-slate-500 hover:text-slate-300'
+                }`}
+              >
+                {LANGUAGES[code].label}
+              </button>
+            ))}
+          </div>
+          {active && (
+            <div className="space-y-3 text-sm">
+              {[
+                { label: '제목', value: active.title || '' },
+                { label: '설명', value: active.youtubeDescription },
+                { label: '해시태그', value: active.hashtags.join(' ') },
+                { label: '태그', value: active.seoKeywords.join(', ') }
+              ].map(field => (
+                <div key={field.label} className="space-y-1">
+                  <div className="flex justify-between items-center">
+                    <span className="text-xs text-slate-500">{field.label}</span>
+                    <button onClick={() => copyText(field.value)} title="복사" className="p-1 text-slate-500 hover:text-slate-200 transition-colors">
+                      <Copy size={12} />
+                    </button>
+                  </div>
+                  <div className="text-slate-300 whitespace-pre-wrap bg-slate-900/50 p-3 rounded-xl max-h-40 overflow-y-auto">{field.value}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import React from 'react';
+import { NarrationOptions, ParagraphItem } from './types';
+import { MAX_NARRATION_SPEED, MIN_NARRATION_SPEED, NARRATION_VOICES, isAudioStale } from './narration';
+import { formatDuration } from './scriptLength';
+import { Loader2, RefreshCw, X, AlertTriangle } from 'lucide-react';
+
+interface NarrationListProps {
+  paragraphs: ParagraphItem[];
+  narration: NarrationOptions;
+  disabled: boolean;
+  onNarrationChange: (narration: NarrationOptions) => void;
+  onSynthesize: (index: number) => void;
+  onCancel: (id: number) => void;
+}
+
+export default function NarrationList({
+  paragraphs,
+  narration,
+  disabled,
+  onNarrationChange,
+  onSynthesize,
+  onCancel
+}: NarrationListProps) {
+  return (
+    <div className="space-y-6">
+      <div className="glass-panel p-6 rounded-2xl flex flex-wrap items-center gap-6">
+        <label className="flex items-center gap-3 text-sm text-slate-300">
+          목소리
+          <select
+            value={narration.voice}
+            onChange={e => onNarrationChange({ ...narration, voice: e.target.value })}
+            disabled={disabled}
+            className="bg-slate-900/50 border border-slate-700 rounded-xl px-3 py-2 outline-none focus:ring-2 focus:ring-sky-500"
+          >
+            {NARRATION_VOICES.map(voice => <option key={voice.id} value={voice.id}>{voice.label}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-3 text-sm text-slate-300">
+          속도
+          <input
+            type="range"
+            min={MIN_NARRATION_SPEED}
+            max={MAX_NARRATION_SPEED}
+            step={0.05}
+            value={narration.speed}
+            onChange={e => onNarrationChange({ ...narration, speed: Number(e.target.value) })}
+            disabled={disabled}
+            className="accent-sky-500"
+          />
+          <span className="w-12 text-slate-400">{narration.speed.toFixed(2)}x</span>
+        </label>
+        <span className="text-xs text-slate-500">목소리나 속도를 바꾸면 이미 만든 음성은 그대로 두고, 다시 생성한 문단부터 적용됩니다.</span>
+      </div>
+
+      <div className="space-y-3">
+        {paragraphs.map((p, idx) => {
+          const stale = isAudioStale(p);
+          return (
+            <div key={p.id} className="glass-panel p-4 rounded-2xl flex flex-col md:flex-row md:items-center gap-4">
+              <div className="flex-grow min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="bg-sky-500/20 text-sky-400 text-xs font-bold px-2 py-1 rounded">Scene {idx + 1}</span>
+                  {p.audioUrl && p.audioDuration !== undefined && (
+                    <span className="text-xs text-slate-500">{formatDuration(p.audioDuration)}</span>
+                  )}
+                  {stale && <span className="text-xs text-amber-400">문단 변경됨 · 재생성 필요</span>}
+                  {p.audioError && !p.isSynthesizing && (
+                    <span className="text-xs text-red-400 flex items-center gap-1 truncate">
+                      <AlertTriangle size={12} className="shrink-0" /> {p.audioError}
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-slate-400 line-clamp-2">{p.content}</p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {p.audioUrl && <audio controls src={p.audioUrl} className="h-9" />}
+                {p.isSynthesizing ? (
+                  <>
+                    <Loader2 className="animate-spin text-sky-400" size={18} />
+                    <button
+                      onClick={() => onCancel(p.id)}
+                      title="생성 취소"
+                      className="p-2 rounded-lg bg-slate-800 hover:bg-red-500/80 text-slate-300 transition-colors"
+                    >
+                      <X size={16} />
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    onClick={() => onSynthesize(idx)}
+                    disabled={disabled}
+                    title={p.audioUrl ? '다시 생성' : '음성 생성'}
+                    className="p-2 rounded-lg bg-slate-800 hover:bg-sky-500 disabled:opacity-50 text-slate-300 transition-colors"
+                  >
+                    <RefreshCw size={16} />
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
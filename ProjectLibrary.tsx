@@ -0,0 +1,171 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ProjectRecord, ProjectSummary } from './types';
+import {
+  listProjects,
+  loadProject,
+  renameProject,
+  duplicateProject,
+  deleteProject
+} from './projectStore';
+import { describeTarget } from './scriptLength';
+import { formatCost } from './pricing';
+import { FolderOpen, Copy, Pencil, Trash2, Loader2, Plus } from 'lucide-react';
+
+interface ProjectLibraryProps {
+  activeProjectId?: string;
+  disabled: boolean;
+  onOpen: (record: ProjectRecord) => void;
+  onDeleted: (id: string) => void;
+  onNewProject: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('ko-KR', { dateStyle: 'medium', timeStyle: 'short' });
+
+export default function ProjectLibrary({ activeProjectId, disabled, onOpen, onDeleted, onNewProject }: ProjectLibraryProps) {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (err) {
+      console.error('Failed to list projects', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleOpen = async (id: string) => {
+    try {
+      const record = await loadProject(id);
+      if (!record) {
+        alert('프로젝트를 불러올 수 없습니다.');
+        refresh();
+        return;
+      }
+      onOpen(record);
+    } catch (err) {
+      console.error(`Failed to open project ${id}`, err);
+      alert('프로젝트를 불러오는 중 오류가 발생했습니다.');
+    }
+  };
+
+  const handleRename = async (project: ProjectSummary) => {
+    const name = prompt('새 프로젝트 이름', project.name);
+    if (!name) return;
+    try {
+      await renameProject(project.id, name);
+    } catch (err) {
+      console.error(`Failed to rename project ${project.id}`, err);
+      alert('프로젝트 이름을 바꾸는 중 오류가 발생했습니다.');
+    }
+    refresh();
+  };
+
+  const handleDuplicate = async (id: string) => {
+    try {
+      await duplicateProject(id);
+    } catch (err) {
+      console.error(`Failed to duplicate project ${id}`, err);
+      alert('프로젝트를 복제하는 중 오류가 발생했습니다.');
+    }
+    refresh();
+  };
+
+  const handleDelete = async (project: ProjectSummary) => {
+    if (!confirm(`"${project.name}" 프로젝트를 삭제할까요? 되돌릴 수 없습니다.`)) return;
+    try {
+      await deleteProject(project.id);
+      onDeleted(project.id);
+    } catch (err) {
+      console.error(`Failed to delete project ${project.id}`, err);
+      alert('프로젝트를 삭제하는 중 오류가 발생했습니다.');
+    }
+    refresh();
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-8 animate-in fade-in duration-500">
+      <div className="flex justify-between items-center">
+        <h2 className="text-3xl font-bold flex items-center gap-3">
+          <FolderOpen className="text-sky-400" /> 프로젝트 보관함
+        </h2>
+        <button
+          onClick={onNewProject}
+          disabled={disabled}
+          className="bg-sky-500 hover:bg-sky-600 disabled:bg-slate-700 px-6 py-2 rounded-xl flex items-center gap-2 transition-colors font-bold"
+        >
+          <Plus size={18} /> 새 프로젝트
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="animate-spin text-sky-500" size={32} />
+        </div>
+      ) : projects.length === 0 ? (
+        <div className="glass-panel p-12 rounded-3xl text-center text-slate-400">
+          저장된 프로젝트가 없습니다. 새 프로젝트를 시작하면 자동으로 저장됩니다.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {projects.map(project => (
+            <div
+              key={project.id}
+              className={`glass-panel p-5 rounded-2xl flex items-center gap-4 border transition-all ${
+                project.id === activeProjectId ? 'border-sky-500/60' : 'border-slate-700/50 hover:border-sky-500/30'
+              }`}
+            >
+              <button
+                onClick={() => handleOpen(project.id)}
+                disabled={disabled}
+                className="flex-grow text-left space-y-1 min-w-0 disabled:opacity-50"
+              >
+                <p className="font-bold text-slate-100 truncate">{project.name}</p>
+                <p className="text-xs text-slate-500 truncate">{project.topic}</p>
+                <div className="flex gap-3 text-xs text-slate-400">
+                  <span>{formatDate(project.updatedAt)}</span>
+                  {project.format === 'shorts'
+                    ? <span className="text-pink-400">쇼츠</span>
+                    : project.target && <span>목표 {describeTarget(project.target)}</span>}
+                  <span>{project.charCount.toLocaleString()}자</span>
+                  <span>{project.sceneCount}개 장면</span>
+                  {project.cost !== undefined && project.cost > 0 && <span>{formatCost(project.cost)}</span>}
+                </div>
+              </button>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => handleRename(project)}
+                  title="이름 변경"
+                  className="p-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-slate-300 transition-colors"
+                >
+                  <Pencil size={16} />
+                </button>
+                <button
+                  onClick={() => handleDuplicate(project.id)}
+                  title="복제"
+                  className="p-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-slate-300 transition-colors"
+                >
+                  <Copy size={16} />
+                </button>
+                <button
+                  onClick={() => handleDelete(project)}
+                  disabled={disabled && project.id === activeProjectId}
+                  title="삭제"
+                  className="p-2 bg-slate-800 hover:bg-red-500/80 disabled:opacity-50 rounded-lg text-slate-300 transition-colors"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,373 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AppState, PrivacyStatus, PublishExtra, SubtitleOptions, YouTubeSettings } from './types';
+import {
+  PUBLISH_EXTRA_LABELS,
+  PUBLISH_STAGE_LABELS,
+  PublishExtras,
+  PublishProgress,
+  PublishRequest,
+  YOUTUBE_DESCRIPTION_MAX_BYTES,
+  descriptionBytes,
+  publishDefaults,
+  thumbnailBlob,
+  validatePublishRequest
+} from './youtubePublish';
+import { prepareSignIn } from './youtubeApi';
+import { YOUTUBE_TITLE_MAX_CHARS, titleLength } from './titleScoring';
+import { Youtube, Upload, Loader2, Square, RefreshCw, ExternalLink, AlertTriangle, Settings, RotateCcw } from 'lucide-react';
+
+interface PublishPanelProps {
+  state: AppState;
+  subtitleOptions: SubtitleOptions;
+  youtube: YouTubeSettings;
+  // The last video rendered in the preview, if any.
+  renderedVideo: Blob | null;
+  progress: PublishProgress | null;
+  error: string | null;
+  disabled: boolean;
+  onPublish: (request: PublishRequest) => void;
+  onRetryExtras: (extras: PublishExtras) => void;
+  onCancel: () => void;
+  onOpenSettings: () => void;
+}
+
+const PRIVACY_OPTIONS: { value: PrivacyStatus; label: string }[] = [
+  { value: 'private', label: '비공개' },
+  { value: 'unlisted', label: '일부 공개' },
+  { value: 'public', label: '공개' }
+];
+
+const formatSize = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+
+// datetime-local works in local time without a zone; the API wants an absolute instant.
+const toIsoTime = (local: string) => local ? new Date(local).toISOString() : undefined;
+
+const localInputValue = (time: number) => {
+  const date = new Date(time - new Date(time).getTimezoneOffset() * 60000);
+  return date.toISOString().slice(0, 16);
+};
+
+export default function PublishPanel({
+  state,
+  subtitleOptions,
+  youtube,
+  renderedVideo,
+  progress,
+  error,
+  disabled,
+  onPublish,
+  onRetryExtras,
+  onCancel,
+  onOpenSettings
+}: PublishPanelProps) {
+  const defaults = publishDefaults(state, subtitleOptions);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [title, setTitle] = useState(defaults.title);
+  const [description, setDescription] = useState(defaults.description);
+  const [privacyStatus, setPrivacyStatus] = useState<PrivacyStatus>('private');
+  const [scheduleAt, setScheduleAt] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [extras, setExtras] = useState<Record<PublishExtra, boolean>>({ thumbnail: true, captions: true, comment: true });
+  const [isPreparing, setIsPreparing] = useState(false);
+
+  // Loaded early so the sign-in popup opens straight from the click instead of being blocked.
+  useEffect(() => {
+    if (!youtube.mock && youtube.clientId) prepareSignIn().catch(err => console.error(err));
+  }, [youtube.mock, youtube.clientId]);
+
+  const video = file || renderedVideo;
+  const hasThumbnail = !!(state.thumbnail?.mockupImageUrl || state.thumbnail?.pureImageUrl);
+  const available: Record<PublishExtra, boolean> = {
+    thumbnail: hasThumbnail,
+    captions: !!defaults.captions,
+    comment: !!defaults.comment
+  };
+  const isBusy = progress !== null || isPreparing;
+  const needsClientId = !youtube.mock && !youtube.clientId.trim();
+  const record = state.publish;
+  const failedExtras = record ? Object.keys(record.failedExtras) as PublishExtra[] : [];
+
+  const resetToProject = () => {
+    setTitle(defaults.title);
+    setDescription(defaults.description);
+  };
+
+  // Built at click time so the thumbnail and captions match the project as it is now.
+  const collectExtras = async (wanted: Record<PublishExtra, boolean>): Promise<PublishExtras> => ({
+    thumbnail: wanted.thumbnail && hasThumbnail ? await thumbnailBlob(state) : undefined,
+    captions: wanted.captions ? defaults.captions : undefined,
+    comment: wanted.comment ? defaults.comment : undefined
+  });
+
+  const handlePublish = async () => {
+    if (!video) return;
+    const publishAt = toIsoTime(scheduleAt);
+    const problem = validatePublishRequest({ title, description, privacyStatus, publishAt });
+    if (problem) {
+      alert(problem);
+      return;
+    }
+    if (record && !confirm('이 프로젝트는 이미 업로드했습니다. 새 영상으로 한 번 더 업로드할까요?')) return;
+    setIsPreparing(true);
+    try {
+      onPublish({
+        video,
+        title,
+        description,
+        tags: defaults.tags,
+        language: state.language,
+        localizations: defaults.localizations,
+        privacyStatus,
+        publishAt,
+        ...await collectExtras(extras)
+      });
+    } catch (err) {
+      console.error('Failed to prepare the upload', err);
+      alert(err instanceof Error ? err.message : '업로드를 준비하지 못했습니다.');
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  const handleRetryExtras = async () => {
+    setIsPreparing(true);
+    try {
+      onRetryExtras(await collectExtras({ thumbnail: true, captions: true, comment: true }));
+    } catch (err) {
+      console.error('Failed to prepare the extras', err);
+      alert(err instanceof Error ? err.message : '업로드를 준비하지 못했습니다.');
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  if (!state.metadata) {
+    return <p className="text-slate-500">메타데이터를 먼저 생성해주세요.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {youtube.mock && (
+        <div className="rounded-xl border border-amber-400/40 bg-amber-400/10 px-4 py-3 text-sm text-amber-300">
+          모의 API 모드입니다. 실제로 업로드되지 않으며, 요청은 브라우저 안의 가짜 YouTube API가 검사합니다.
+        </div>
+      )}
+      {needsClientId && (
+        <div className="rounded-xl border border-slate-700 bg-slate-900/40 px-4 py-3 text-sm text-slate-300 flex items-center justify-between gap-3">
+          <span>업로드하려면 설정에서 Google OAuth 클라이언트 ID를 입력하세요.</span>
+          <button
+            onClick={onOpenSettings}
+            className="bg-slate-800 hover:bg-slate-700 px-3 py-1.5 rounded-lg flex items-center gap-1 text-xs text-slate-200 transition-colors shrink-0"
+          >
+            <Settings size={12} /> 설정 열기
+          </button>
+        </div>
+      )}
+
+      <div className="glass-panel p-6 rounded-2xl space-y-4">
+        <h3 className="text-lg font-bold text-sky-400 border-b border-slate-700 pb-2">영상 파일</h3>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          {video ? (
+            <span className="text-slate-200">
+              {file ? file.name : '미리보기에서 렌더링한 영상'} · {formatSize(video.size)}
+            </span>
+          ) : (
+            <span className="text-slate-500">미리보기에서 영상을 렌더링하거나 파일을 선택하세요.</span>
+          )}
+          <div className="ml-auto flex gap-2">
+            {file && renderedVideo && (
+              <button
+                onClick={() => setFile(null)}
+                disabled={isBusy}
+                className="px-3 py-1.5 rounded-lg border border-slate-700 text-slate-300 hover:border-slate-500 disabled:opacity-50 text-xs transition-all"
+              >
+                렌더링한 영상 사용
+              </button>
+            )}
+            <button
+              onClick={() => inputRef.current?.click()}
+              disabled={isBusy}
+              className="px-3 py-1.5 rounded-lg border border-slate-700 text-slate-300 hover:border-slate-500 disabled:opacity-50 text-xs flex items-center gap-1 transition-all"
+            >
+              <Upload size={12} /> 파일 선택
+            </button>
+          </div>
+          <input
+            ref={inputRef}
+            type="file"
+            accept="video/*"
+            onChange={e => setFile(e.target.files?.[0] || null)}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      <div className="glass-panel p-6 rounded-2xl space-y-4">
+        <div className="flex items-center justify-between border-b border-slate-700 pb-2">
+          <h3 className="text-lg font-bold text-sky-400">제목과 설명</h3>
+          <button
+            onClick={resetToProject}
+            disabled={isBusy}
+            className="text-xs text-slate-400 hover:text-white disabled:opacity-50 flex items-center gap-1 transition-colors"
+          >
+            <RotateCcw size={12} /> 프로젝트 내용으로 되돌리기
+          </button>
+        </div>
+        <div className="space-y-1">
+          <input
+            value={title}
+            onChange={e => setTitle(e.target.value)}
+            disabled={isBusy}
+            className="w-full bg-slate-900/50 border border-slate-700 rounded-xl px-4 py-2 outline-none focus:ring-2 focus:ring-sky-500"
+          />
+          <p className={`text-xs text-right ${titleLength(title) > YOUTUBE_TITLE_MAX_CHARS ? 'text-red-400 font-bold' : 'text-slate-500'}`}>
+            {titleLength(title)}/{YOUTUBE_TITLE_MAX_CHARS}자
+          </p>
+        </div>
+        <div className="space-y-1">
+          <textarea
+            value={description}
+            onChange={e => setDescription(e.target.value)}
+            disabled={isBusy}
+            className="w-full h-56 bg-slate-900/50 border border-slate-700 rounded-xl p-4 outline-none focus:ring-2 focus:ring-sky-500 resize-none text-sm"
+          />
+          <p className={`text-xs text-right ${descriptionBytes(description) > YOUTUBE_DESCRIPTION_MAX_BYTES ? 'text-red-400 font-bold' : 'text-slate-500'}`}>
+            {descriptionBytes(description)}/{YOUTUBE_DESCRIPTION_MAX_BYTES}바이트
+          </p>
+        </div>
+        <p className="text-xs text-slate-500">
+          태그 {defaults.tags.length}개: {defaults.tags.join(', ') || '없음'}
+          {Object.keys(defaults.localizations).length > 0 && ` · 번역 ${Object.keys(defaults.localizations).join(', ')}`}
+        </p>
+      </div>
+
+      <div className="glass-panel p-6 rounded-2xl space-y-4">
+        <h3 className="text-lg font-bold text-sky-400 border-b border-slate-700 pb-2">공개 설정</h3>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <select
+            value={scheduleAt ? 'private' : privacyStatus}
+            onChange={e => setPrivacyStatus(e.target.value as PrivacyStatus)}
+            disabled={isBusy || !!scheduleAt}
+            className="bg-slate-900/50 border border-slate-700 rounded-xl px-3 py-2 outline-none focus:ring-2 focus:ring-sky-500"
+          >
+            {PRIVACY_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+          <label className="text-slate-400">공개 예약</label>
+          <input
+            type="datetime-local"
+            value={scheduleAt}
+            min={localInputValue(Date.now())}
+            onChange={e => setScheduleAt(e.target.value)}
+            disabled={isBusy}
+            className="bg-slate-900/50 border border-slate-700 rounded-xl px-3 py-2 outline-none focus:ring-2 focus:ring-sky-500"
+          />
+          {scheduleAt && (
+            <button onClick={() => setScheduleAt('')} disabled={isBusy} className="text-xs text-slate-400 hover:text-white">
+              예약 취소
+            </button>
+          )}
+        </div>
+        {scheduleAt && <p className="text-xs text-slate-500">예약한 영상은 비공개로 올라간 뒤 지정한 시각에 공개됩니다.</p>}
+        <div className="flex flex-wrap gap-4 text-sm">
+          {(Object.keys(PUBLISH_EXTRA_LABELS) as PublishExtra[]).map(extra => (
+            <label key={extra} className={`flex items-center gap-2 ${available[extra] ? 'text-slate-300' : 'text-slate-600'}`}>
+              <input
+                type="checkbox"
+                checked={extras[extra] && available[extra]}
+                onChange={e => setExtras(prev => ({ ...prev, [extra]: e.target.checked }))}
+                disabled={isBusy || !available[extra]}
+                className="accent-sky-500"
+              />
+              {PUBLISH_EXTRA_LABELS[extra]}
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500">
+          YouTube API로는 댓글을 고정할 수 없어 댓글만 게시합니다. 업로드 후 YouTube 스튜디오에서 직접 고정하세요.
+          비공개·예약 영상에는 댓글이 거부될 수 있으니, 그때는 공개된 뒤 다시 시도하세요.
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-xl border border-red-500/40 bg-red-500/10 px-4 py-3 flex items-start gap-3 text-sm">
+          <AlertTriangle size={18} className="text-red-400 shrink-0 mt-0.5" />
+          <p className="text-slate-300 break-words">{error}</p>
+        </div>
+      )}
+
+      {progress ? (
+        <div className="glass-panel p-6 rounded-2xl space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-sky-400 flex items-center gap-2">
+              <Loader2 size={16} className="animate-spin" /> {PUBLISH_STAGE_LABELS[progress.stage]}
+              {progress.fraction !== undefined && ` ${Math.round(progress.fraction * 100)}%`}
+            </span>
+            <button
+              onClick={onCancel}
+              className="bg-red-500/80 hover:bg-red-500 px-4 py-1.5 rounded-lg flex items-center gap-1 text-xs font-bold transition-colors"
+            >
+              <Square size={12} /> 중지
+            </button>
+          </div>
+          {progress.fraction !== undefined && (
+            <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+              <div className="h-full bg-sky-500 transition-all" style={{ width: `${Math.round(progress.fraction * 100)}%` }} />
+            </div>
+          )}
+        </div>
+      ) : (
+        <button
+          onClick={handlePublish}
+          disabled={disabled || isBusy || !video || needsClientId}
+          className="w-full bg-red-600 hover:bg-red-700 disabled:bg-slate-700 text-white font-bold py-4 rounded-2xl transition-all flex items-center justify-center gap-2"
+        >
+          {isPreparing ? <Loader2 className="animate-spin" /> : <Youtube />} YouTube에 업로드
+        </button>
+      )}
+
+      {record && (
+        <div className="glass-panel p-6 rounded-2xl space-y-3 text-sm">
+          <h3 className="text-lg font-bold text-sky-400 border-b border-slate-700 pb-2">
+            업로드 결과 {record.mock && <span className="text-xs text-amber-400">(모의 업로드)</span>}
+          </h3>
+          <div className="flex flex-wrap items-center gap-4">
+            <span className="font-mono text-slate-300">{record.videoId}</span>
+            <span className="text-slate-400">{PRIVACY_OPTIONS.find(o => o.value === record.privacyStatus)?.label}</span>
+            {record.publishAt && <span className="text-slate-400">{new Date(record.publishAt).toLocaleString()} 공개 예정</span>}
+            {!record.mock && (
+              <>
+                <a href={record.url} target="_blank" rel="noreferrer" className="text-sky-400 hover:underline flex items-center gap-1">
+                  <ExternalLink size={14} /> 영상 보기
+                </a>
+                <a
+                  href={`https://studio.youtube.com/video/${record.videoId}/comments`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-sky-400 hover:underline flex items-center gap-1"
+                >
+                  <ExternalLink size={14} /> 스튜디오에서 댓글 고정
+                </a>
+              </>
+            )}
+          </div>
+          {failedExtras.length > 0 && (
+            <div className="space-y-2">
+              {failedExtras.map(extra => (
+                <p key={extra} className="text-red-400 break-words">
+                  {PUBLISH_EXTRA_LABELS[extra]} 실패: {record.failedExtras[extra]}
+                </p>
+              ))}
+              <button
+                onClick={handleRetryExtras}
+                disabled={disabled || isBusy}
+                className="bg-slate-800 hover:bg-slate-700 disabled:opacity-50 px-3 py-1.5 rounded-lg flex items-center gap-1 text-xs text-slate-200 transition-colors"
+              >
+                <RefreshCw size={12} /> 실패한 항목 다시 시도
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import React from 'react';
+import { ResearchData, ResearchSource } from './types';
+import { Search, FileText, CalendarDays, Users, CircleHelp, ListChecks } from 'lucide-react';
+
+interface ResearchReportProps {
+  research: ResearchData;
+  disabled: boolean;
+  onToggleFact: (id: string) => void;
+}
+
+const Citations = ({ indices, sources }: { indices: number[]; sources: ResearchSource[] }) => (
+  <>
+    {indices.map(index => {
+      const source = sources[index];
+      if (!source) return null;
+      return source.kind === 'document' ? (
+        <a key={index} href={`#source-${index}`} title={source.title} className="ml-0.5 text-[10px] align-super text-emerald-400 hover:underline">
+          [{index + 1}]
+        </a>
+      ) : (
+        <a
+          key={index}
+          href={source.uri}
+          target="_blank"
+          rel="noopener noreferrer"
+          title={source.title}
+          className="ml-0.5 text-[10px] align-super text-sky-400 hover:underline"
+        >
+          [{index + 1}]
+        </a>
+      );
+    })}
+  </>
+);
+
+const renderInline = (text: string) =>
+  text.split(/(\*\*[^*]+\*\*)/g).map((part, i) =>
+    part.startsWith('**') && part.endsWith('**') ? <strong key={i} className="text-slate-100">{part.slice(2, -2)}</strong> : part
+  );
+
+// Minimal markdown for reports saved before structured research: headings, bullets and bold.
+const MarkdownReport = ({ markdown }: { markdown: string }) => (
+  <div className="space-y-2 text-slate-300">
+    {markdown.split('\n').map((line, i) => {
+      const heading = line.match(/^(#{1,6})\s+(.*)$/);
+      if (heading) {
+        const className = heading[1].length <= 2 ? 'text-xl font-bold text-slate-100 pt-4' : 'text-lg font-semibold text-slate-200 pt-2';
+        return <p key={i} className={className}>{renderInline(heading[2])}</p>;
+      }
+      const bullet = line.match(/^\s*(?:[-*]|\d+\.)\s+(.*)$/);
+      if (bullet) return <p key={i} className="pl-4 before:content-['•'] before:mr-2 before:text-sky-400">{renderInline(bullet[1])}</p>;
+      return line.trim() ? <p key={i}>{renderInline(line)}</p> : null;
+    })}
+  </div>
+);
+
+const sectionTitleClass = 'text-lg font-bold text-sky-400 flex items-center gap-2 border-b border-slate-700 pb-2';
+
+export default function ResearchReport({ research, disabled, onToggleFact }: ResearchReportProps) {
+  const { structured, sources } = research;
+  const requiredCount = structured?.keyFacts.filter(fact => fact.required).length || 0;
+
+  return (
+    <div className="space-y-8 leading-relaxed">
+      {structured ? (
+        <>
+          <p className="text-slate-200 text-lg">{structured.summary}</p>
+
+          <section className="space-y-3">
+            <h3 className={sectionTitleClass}>
+              <ListChecks size={18} /> 핵심 사실
+              <span className="ml-auto text-xs font-normal text-slate-500">
+                체크한 사실은 대본에 반드시 포함됩니다 ({requiredCount}개 선택)
+              </span>
+            </h3>
+            <div className="space-y-2">
+              {structured.keyFacts.map(fact => (
+                <label
+                  key={fact.id}
+                  className={`flex gap-3 p-3 rounded-xl border cursor-pointer transition-all ${
+                    fact.required ? 'border-sky-500/60 bg-sky-500/5' : 'border-slate-700/50 hover:border-slate-600'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={!!fact.required}
+                    disabled={disabled}
+                    onChange={() => onToggleFact(fact.id)}
+                    className="mt-1 accent-sky-500"
+                  />
+                  <span className="text-slate-300 text-sm">
+                    {fact.text}
+                    <Citations indices={fact.sourceIndices} sources={sources} />
+                  </span>
+                </label>
+              ))}
+            </div>
+          </section>
+
+          {structured.timeline.length > 0 && (
+            <section className="space-y-3">
+              <h3 className={sectionTitleClass}><CalendarDays size={18} /> 타임라인</h3>
+              <ol className="border-l border-slate-700 ml-2 space-y-3">
+                {structured.timeline.map((entry, i) => (
+                  <li key={i} className="pl-4 text-sm">
+                    <span className="font-mono text-sky-300 mr-2">{entry.date}</span>
+                    <span className="text-slate-300">{entry.event}</span>
+                    <Citations indices={entry.sourceIndices} sources={sources} />
+                  </li>
+                ))}
+              </ol>
+            </section>
+          )}
+
+          {structured.stakeholders.length > 0 && (
+            <section className="space-y-3">
+              <h3 className={sectionTitleClass}><Users size={18} /> 주요 인물·기관</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {structured.stakeholders.map((stakeholder, i) => (
+                  <div key={i} className="p-3 bg-slate-900/50 rounded-xl text-sm">
+                    <p className="font-bold text-slate-100">
+                      {stakeholder.name}
+                      <Citations indices={stakeholder.sourceIndices} sources={sources} />
+                    </p>
+                    <p className="text-slate-400">{stakeholder.role}</p>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {structured.openQuestions.length > 0 && (
+            <section className="space-y-3">
+              <h3 className={sectionTitleClass}><CircleHelp size={18} /> 확인이 필요한 쟁점</h3>
+              <ul className="space-y-2 text-sm text-amber-200/90">
+                {structured.openQuestions.map((question, i) => (
+                  <li key={i}>
+                    ? {question.question}
+                    <Citations indices={question.sourceIndices} sources={sources} />
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          <details className="text-sm">
+            <summary className="cursor-pointer text-slate-500 hover:text-slate-300">보고서 원문 보기</summary>
+            <div className="mt-4"><MarkdownReport markdown={research.report} /></div>
+          </details>
+        </>
+      ) : (
+        <MarkdownReport markdown={research.report} />
+      )}
+
+      {sources.length > 0 && (
+        <div className="pt-6 border-t border-slate-700">
+          <h3 className="text-lg font-bold mb-4">참고 문헌 / 출처</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {sources.map((source, i) => source.kind === 'document' ? (
+              <div
+                key={i}
+                id={`source-${i}`}
+                className="p-3 bg-slate-900/50 rounded-lg text-emerald-400 truncate text-sm flex items-center gap-2"
+                title="첨부 자료"
+              >
+                <FileText size={14} /> [{i + 1}] {source.title}
+              </div>
+            ) : (
+              <a
+                key={i}
+                id={`source-${i}`}
+                href={source.uri}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="p-3 bg-slate-900/50 rounded-lg hover:bg-slate-800 transition-colors text-sky-400 truncate text-sm flex items-center gap-2"
+              >
+                <Search size={14} /> [{i + 1}] {source.title}
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
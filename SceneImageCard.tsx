@@ -0,0 +1,150 @@
+import React from 'react';
+import { ImageVariant, ParagraphItem } from './types';
+import { selectedVariant } from './imageVariants';
+import { MAX_CAPTION_CHARS } from './shorts';
+import VariantStrip from './VariantStrip';
+import { Loader2, X, RefreshCw, Download, AlertTriangle, Image as ImageIcon, Layers } from 'lucide-react';
+
+interface SceneImageCardProps {
+  paragraph: ParagraphItem;
+  index: number;
+  variantCount: number;
+  vertical?: boolean;
+  onGenerate: () => void;
+  onCancel: () => void;
+  onDownload: () => void;
+  onPromptChange: (prompt: string) => void;
+  onSelectVariant: (variant: ImageVariant) => void;
+  onDeleteVariant: (variant: ImageVariant) => void;
+  onCaptionChange?: (caption: string) => void;
+}
+
+const overlayButtonClass = 'p-2 bg-black/60 backdrop-blur-md rounded-lg text-white transition-colors';
+
+export default function SceneImageCard({
+  paragraph: p,
+  index,
+  variantCount,
+  vertical,
+  onGenerate,
+  onCancel,
+  onDownload,
+  onPromptChange,
+  onSelectVariant,
+  onDeleteVariant,
+  onCaptionChange
+}: SceneImageCardProps) {
+  const variants = p.variants || [];
+  const picked = selectedVariant(variants, p.imageUrl);
+  const promptChanged = !!picked && picked.prompt !== p.imagePrompt;
+
+  return (
+    <div className="glass-panel rounded-2xl overflow-hidden flex flex-col group border border-slate-700/50 hover:border-sky-500/50 transition-all">
+      <div className={`${vertical ? 'aspect-[9/16]' : 'aspect-video'} bg-slate-900 relative`}>
+        {p.imageUrl ? (
+          <>
+            <img src={p.imageUrl} alt={`Scene ${index + 1}`} className="w-full h-full object-cover" />
+            {p.caption && (
+              <div className="absolute inset-x-3 bottom-[20%] text-center">
+                <span className="inline-block px-2 py-1 rounded bg-black/70 text-white text-sm font-bold">{p.caption}</span>
+              </div>
+            )}
+            {p.isGenerating && (
+              <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
+                <Loader2 className="animate-spin text-sky-400" size={32} />
+              </div>
+            )}
+            <div className="absolute top-2 right-2 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+              {p.isGenerating ? (
+                <button onClick={onCancel} title="생성 취소" className={`${overlayButtonClass} hover:bg-red-500`}>
+                  <X size={16} />
+                </button>
+              ) : (
+                <button onClick={onGenerate} title="새 후보 생성 (기존 이미지는 기록에 남습니다)" className={`${overlayButtonClass} hover:bg-sky-500`}>
+                  <RefreshCw size={16} />
+                </button>
+              )}
+              <button onClick={onDownload} className={`${overlayButtonClass} hover:bg-sky-500`}>
+                <Download size={16} />
+              </button>
+            </div>
+          </>
+        ) : (
+          <div className="flex items-center justify-center h-full text-slate-600 flex-col gap-3 p-4 text-center">
+            {p.isGenerating ? <Loader2 className="animate-spin text-sky-500" size={32} /> : p.imageError ? <AlertTriangle className="text-red-400" size={32} /> : <ImageIcon size={32} />}
+            <span className={`text-sm ${p.imageError && !p.isGenerating ? 'text-red-400 line-clamp-2' : ''}`}>
+              {p.isGenerating ? "이미지 생성 중..." : p.imageError || "이미지 준비 중"}
+            </span>
+            {p.isGenerating ? (
+              <button
+                onClick={onCancel}
+                className="text-xs px-3 py-1 rounded-lg bg-slate-800 hover:bg-red-500/80 text-slate-300 transition-colors"
+              >
+                취소
+              </button>
+            ) : p.imageError && (
+              <button
+                onClick={onGenerate}
+                className="text-xs px-3 py-1 rounded-lg bg-slate-800 hover:bg-sky-500 text-slate-300 transition-colors flex items-center gap-1"
+              >
+                <RefreshCw size={12} /> 다시 시도
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+      <div className="p-4 space-y-3 flex-grow">
+        <div className="flex items-center gap-2">
+          <span className="bg-sky-500/20 text-sky-400 text-xs font-bold px-2 py-1 rounded">Scene {index + 1}</span>
+          {p.imageStale && <span className="text-xs text-amber-400">문단 변경됨 · 재생성 필요</span>}
+          {variants.length > 1 && <span className="ml-auto text-xs text-slate-500">후보 {variants.length}개</span>}
+        </div>
+        <p className="text-xs text-slate-400 line-clamp-3 leading-relaxed italic">"{p.content}"</p>
+        {onCaptionChange && (
+          <input
+            key={`caption-${p.id}-${p.caption}`}
+            defaultValue={p.caption || ''}
+            onBlur={e => e.target.value.trim() !== (p.caption || '') && onCaptionChange(e.target.value.trim())}
+            maxLength={MAX_CAPTION_CHARS * 2}
+            placeholder="화면 자막"
+            className="w-full bg-slate-900/50 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 outline-none focus:ring-2 focus:ring-sky-500"
+          />
+        )}
+
+        {variants.length > 1 && (
+          <VariantStrip
+            variants={variants}
+            selectedUrl={p.imageUrl}
+            disabled={p.isGenerating}
+            onSelect={onSelectVariant}
+            onDelete={onDeleteVariant}
+          />
+        )}
+
+        <textarea
+          key={`prompt-${p.id}-${p.imagePrompt}`}
+          defaultValue={p.imagePrompt}
+          onBlur={e => e.target.value.trim() !== p.imagePrompt && onPromptChange(e.target.value.trim())}
+          disabled={p.isGenerating}
+          placeholder="이미지 프롬프트 (영문)"
+          className="w-full h-20 bg-slate-900/50 border border-slate-700 rounded-lg p-2 text-xs text-slate-300 resize-none outline-none focus:ring-2 focus:ring-sky-500 disabled:opacity-50"
+        />
+        {promptChanged && (
+          <div className="text-[11px] text-slate-500 space-y-1">
+            <p className="line-clamp-2" title={picked!.prompt}>선택한 이미지의 프롬프트: {picked!.prompt}</p>
+            <button onClick={() => onPromptChange(picked!.prompt)} className="text-sky-400 hover:underline">
+              이 프롬프트로 되돌리기
+            </button>
+          </div>
+        )}
+        <button
+          onClick={onGenerate}
+          disabled={p.isGenerating || !p.imagePrompt}
+          className="w-full py-2 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-xs text-slate-300 flex items-center justify-center gap-2 transition-colors"
+        >
+          <Layers size={14} /> {variantCount > 1 ? `후보 ${variantCount}개 생성` : '새 후보 생성'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import React, { useRef, useState } from 'react';
+import { ClaimStatus, FactClaim, ResearchSource, ScriptData } from './types';
+import { mergeWithNext, moveParagraph, splitParagraph, updateParagraphContent } from './scriptEditing';
+import { CLAIM_STATUS_LABELS } from './factCheck';
+import { ArrowUp, ArrowDown, Scissors, Combine, WandSparkles, Loader2 } from 'lucide-react';
+
+interface ScriptEditorProps {
+  script: ScriptData;
+  disabled: boolean;
+  // `changedIds` lists paragraphs whose text changed and whose image prompt should be regenerated.
+  onChange: (script: ScriptData, changedIds: number[]) => void;
+  onRewrite: (id: number, instruction: string) => void;
+  claims?: Record<number, FactClaim[]>;
+  sources?: ResearchSource[];
+}
+
+const REWRITE_PRESETS = ['더 극적으로', '더 짧게', '더 쉽게', '사례 추가'];
+
+const CLAIM_STYLES: Record<ClaimStatus, string> = {
+  supported: 'bg-emerald-500/10 text-emerald-300 border-emerald-500/30',
+  unsupported: 'bg-amber-500/10 text-amber-300 border-amber-500/30',
+  contradicted: 'bg-red-500/10 text-red-300 border-red-500/30'
+};
+
+const iconButtonClass = 'p-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-40 text-slate-300 transition-colors';
+
+export default function ScriptEditor({ script, disabled, onChange, onRewrite, claims, sources = [] }: ScriptEditorProps) {
+  const [instructions, setInstructions] = useState<Record<number, string>>({});
+  const caretRef = useRef<Record<number, number>>({});
+  const focusValueRef = useRef<Record<number, string>>({});
+
+  const handleBlur = (id: number, content: string) => {
+    // Image prompts are refreshed once per editing session, not on every keystroke.
+    if (focusValueRef.current[id] !== undefined && focusValueRef.current[id] !== content) {
+      onChange(script, [id]);
+    }
+    delete focusValueRef.current[id];
+  };
+
+  const handleSplit = (id: number) => {
+    const result = splitParagraph(script, id, caretRef.current[id]);
+    if (result.changedIds.length) onChange(result.script, result.changedIds);
+  };
+
+  const handleMerge = (id: number) => {
+    const result = mergeWithNext(script, id);
+    if (result.changedIds.length) onChange(result.script, result.changedIds);
+  };
+
+  return (
+    <div className="space-y-4">
+      {script.paragraphs.map((p, idx) => (
+        <div key={p.id} className="glass-panel rounded-2xl p-4 space-y-3 border border-slate-700/50">
+          <div className="flex justify-between items-center">
+            <div className="flex items-center gap-2">
+              <span className="bg-sky-500/20 text-sky-400 text-xs font-bold px-2 py-1 rounded">Scene {idx + 1}</span>
+              <span className="text-xs text-slate-500">{p.content.length.toLocaleString()}자</span>
+              {p.imageStale && <span className="text-xs text-amber-400">이미지 갱신 필요</span>}
+            </div>
+            <div className="flex gap-1">
+              <button onClick={() => onChange(moveParagraph(script, p.id, -1), [])} disabled={disabled || idx === 0} title="위로" className={iconButtonClass}>
+                <ArrowUp size={14} />
+              </button>
+              <button onClick={() => onChange(moveParagraph(script, p.id, 1), [])} disabled={disabled || idx === script.paragraphs.length - 1} title="아래로" className={iconButtonClass}>
+                <ArrowDown size={14} />
+              </button>
+              <button onClick={() => handleSplit(p.id)} disabled={disabled} title="커서 위치(또는 가운데 문장)에서 나누기" className={iconButtonClass}>
+                <Scissors size={14} />
+              </button>
+              <button onClick={() => handleMerge(p.id)} disabled={disabled || idx === script.paragraphs.length - 1} title="다음 문단과 합치기" className={iconButtonClass}>
+                <Combine size={14} />
+              </button>
+            </div>
+          </div>
+
+          <div className="relative">
+            <textarea
+              value={p.content}
+              disabled={disabled || p.isRewriting}
+              onFocus={() => { focusValueRef.current[p.id] = p.content; }}
+              onSelect={e => { caretRef.current[p.id] = e.currentTarget.selectionStart; }}
+              onChange={e => onChange(updateParagraphContent(script, p.id, e.target.value), [])}
+              onBlur={e => handleBlur(p.id, e.target.value)}
+              rows={5}
+              className="w-full bg-slate-900/50 border border-slate-700 rounded-xl p-3 text-sm text-sky-50 leading-relaxed outline-none focus:ring-2 focus:ring-sky-500 resize-y"
+            />
+            {p.isRewriting && (
+              <div className="absolute inset-0 bg-black/40 rounded-xl flex items-center justify-center">
+                <Loader2 className="animate-spin text-sky-400" />
+              </div>
+            )}
+          </div>
+
+          {claims?.[p.id] && (
+            <div className="flex flex-wrap gap-1.5">
+              {claims[p.id].map((claim, i) => (
+                <span
+                  key={i}
+                  title={[
+                    CLAIM_STATUS_LABELS[claim.status],
+                    claim.note,
+                    ...claim.sourceIndices.map(index => `[${index + 1}] ${sources[index]?.title || ''}`)
+                  ].filter(Boolean).join('\n')}
+                  className={`text-xs px-2 py-0.5 rounded-lg border ${CLAIM_STYLES[claim.status]}`}
+                >
+                  {claim.status === 'supported' ? '✓' : claim.status === 'contradicted' ? '✗' : '⚠'} {claim.claim}
+                  {claim.sourceIndices.length > 0 && (
+                    <sup className="ml-1 opacity-70">{claim.sourceIndices.map(index => index + 1).join(',')}</sup>
+                  )}
+                </span>
+              ))}
+            </div>
+          )}
+
+          <p className="text-xs text-slate-500 italic line-clamp-2" title={p.imagePrompt}>🎨 {p.imagePrompt}</p>
+
+          <div className="flex gap-2">
+            <input
+              value={instructions[p.id] || ''}
+              onChange={e => setInstructions(prev => ({ ...prev, [p.id]: e.target.value }))}
+              placeholder="AI 수정 지시 (예: 더 극적으로)"
+              list="rewrite-presets"
+              className="flex-grow bg-slate-900/50 border border-slate-700 rounded-xl px-3 py-1.5 text-sm outline-none focus:ring-2 focus:ring-sky-500"
+            />
+            <button
+              onClick={() => onRewrite(p.id, instructions[p.id] || '')}
+              disabled={disabled || p.isRewriting}
+              className="bg-sky-500/20 hover:bg-sky-500/40 disabled:opacity-40 text-sky-300 px-3 py-1.5 rounded-xl text-sm flex items-center gap-1 transition-colors"
+            >
+              <WandSparkles size={14} /> AI 수정
+            </button>
+          </div>
+        </div>
+      ))}
+      <datalist id="rewrite-presets">
+        {REWRITE_PRESETS.map(preset => <option key={preset} value={preset} />)}
+      </datalist>
+    </div>
+  );
+}
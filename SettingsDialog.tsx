@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { AIProviderId, AppSettings, ModelPrice, SubtitleOptions, YouTubeSettings } from './types';
+import { PROVIDER_LABELS } from './aiProvider';
+import { MAX_IMAGE_VARIANTS } from './imageVariants';
+import { Settings, X } from 'lucide-react';
+
+interface SettingsDialogProps {
+  settings: AppSettings;
+  onSave: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+const clamp = (value: number, min: number, max: number) =>
+  Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : min;
+
+export default function SettingsDialog({ settings, onSave, onClose }: SettingsDialogProps) {
+  const [draft, setDraft] = useState<AppSettings>(settings);
+
+  const updateDraft = (updates: Partial<AppSettings>) => {
+    setDraft(prev => ({ ...prev, ...updates }));
+  };
+
+  const updateSubtitles = (updates: Partial<SubtitleOptions>) => {
+    setDraft(prev => ({ ...prev, subtitles: { ...prev.subtitles, ...updates } }));
+  };
+
+  const updateYouTube = (updates: Partial<YouTubeSettings>) => {
+    setDraft(prev => ({ ...prev, youtube: { ...prev.youtube, ...updates } }));
+  };
+
+  const updatePrice = (model: string, updates: Partial<ModelPrice>) => {
+    setDraft(prev => ({ ...prev, prices: { ...prev.prices, [model]: { ...prev.prices[model], ...updates } } }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/60 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="glass-panel rounded-3xl p-8 w-full max-w-lg space-y-6 max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold flex items-center gap-3">
+            <Settings className="text-sky-400" /> 설정
+          </h2>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          <label className="text-sm font-semibold text-slate-300">AI 공급자</label>
+          <div className="grid gap-2">
+            {Object.values(AIProviderId).map(id => (
+              <button
+                key={id}
+                type="button"
+                onClick={() => updateDraft({ provider: id })}
+                className={`py-3 px-4 rounded-xl border text-left font-medium transition-all ${
+                  draft.provider === id
+                    ? 'bg-sky-500/10 border-sky-500 text-sky-400'
+                    : 'border-slate-700 text-slate-400 hover:border-slate-500'
+                }`}
+              >
+                {PROVIDER_LABELS[id]}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500">모의 공급자는 API를 호출하지 않고 고정된 대본과 자리표시 이미지를 돌려줍니다.</p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-slate-300">이미지 동시 생성 수</label>
+            <input
+              type="number"
+              min={1}
+              max={8}
+              value={draft.imageConcurrency}
+              onChange={e => updateDraft({ imageConcurrency: clamp(Number(e.target.value), 1, 8) })}
+              className="w-full bg-slate-900/50 border border-slate-700 rounded-xl p-3 outline-none focus:ring-2 focus:ring-sky-500"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-slate-300">실패 시 재시도 횟수</label>
+            <input
+              type="number"
+              min={0}
+              max={6}
+              value={draft.imageMaxRetries}
+              onChange={e => updateDraft({ imageMaxRetries: clamp(Number(e.target.value), 0, 6) })}
+              className="w-full bg-slate-900/50 border border-slate-700 rounded-xl p-3 outline-none focus:ring-2 focus:ring-sky-500"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-slate-300">이미지 후보 수</label>
+            <input
+              type="number"
+              min={1}
+              max={MAX_IMAGE_VARIANTS}
+              value={draft.imageVariants}
+              onChange={e => updateDraft({ imageVariants: clamp(Number(e.target.value), 1, MAX_IMAGE_VARIANTS) })}
+              className="w-full bg-slate-900/50 border border-slate-700 rounded-xl p-3 outline-none focus:ring-2 focus:ring-sky-500"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <label className="text-sm font-semibold text-slate-300">자막 (SRT/VTT)</label>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <span className="text-xs text-slate-500">줄당 최대 글자</span>
+              <input
+                type="number"
+                min={8}
+                max={60}
+                value={draft.subtitles.maxCharsPerLine}
+                onChange={e => updateSubtitles({ maxCharsPerLine: clamp(Number(e.target.value), 8, 60) })}
+                className="w-full bg-slate-900/50 border border-slate-700 rounded-xl p-3 outline-none focus:ring-2 focus:ring-sky-500"
+              />
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs text-slate-500">자막당 줄 수</span>
+              <input
+                type="number"
+                min={1}
+                max={3}
+                value={draft.subtitles.maxLinesPerCue}
+                onChange={e => updateSubtitles({ maxLinesPerCue: clamp(Number(e.target.value), 1, 3) })}
+                className="w-full bg-slate-900/50 border border-slate-700 rounded-xl p-3 outline-none focus:ring-2 focus:ring-sky-500"
+              />
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs text-slate-500">말하기 속도 (자/초)</span>
+              <input
+                type="number"
+                min={2}
+                max={15}
+                step={0.5}
+                value={draft.subtitles.charsPerSecond}
+                onChange={e => updateSubtitles({ charsPerSecond: Math.min(15, Math.max(2, Number(e.target.value) || 2)) })}
+                className="w-full bg-slate-900/50 border border-slate-700 rounded-xl p-3 outline-none focus:ring-2 focus:ring-sky-500"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">내레이션 오디오가 있는 문단은 실제 길이로, 없으면 말하기 속도로 시간을 계산합니다.</p>
+        </div>
+
+        <div className="space-y-3">
+          <label className="text-sm font-semibold text-slate-300">비용</label>
+          <div className="space-y-1">
+            <span className="text-xs text-slate-500">프로젝트당 예산 한도 (USD, 0이면 제한 없음)</span>
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={draft.projectBudget}
+              onChange={e => updateDraft({ projectBudget: Math.max(0, Number(e.target.value) || 0) })}
+              className="w-full bg-slate-900/50 border border-slate-700 rounded-xl p-3 outline-none focus:ring-2 focus:ring-sky-500"
+            />
+          </div>
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_5rem_5rem_5rem] gap-2 text-xs text-slate-500">
+              <span>모델</span>
+              <span>입력 $/1M</span>
+              <span>출력 $/1M</span>
+              <span>$/이미지</span>
+            </div>
+            {Object.entries(draft.prices).map(([model, price]) => (
+              <div key={model} className="grid grid-cols-[1fr_5rem_5rem_5rem] gap-2 items-center">
+                <span className="text-xs text-slate-300 truncate" title={model}>{model}</span>
+                {(['inputPerMillion', 'outputPerMillion', 'perImage'] as const).map(field => (
+                  <input
+                    key={field}
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={price[field]}
+                    onChange={e => updatePrice(model, { [field]: Math.max(0, Number(e.target.value) || 0) })}
+                    className="w-full bg-slate-900/50 border border-slate-700 rounded-lg p-2 text-xs outline-none focus:ring-2 focus:ring-sky-500"
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500">단가를 바꾸면 이후 호출부터 적용됩니다. 예산에 닿을 것 같으면 다음 호출 전에 파이프라인을 일시정지합니다.</p>
+        </div>
+
+        <div className="space-y-3">
+          <label className="text-sm font-semibold text-slate-300">YouTube 업로드</label>
+          <div className="space-y-1">
+            <span className="text-xs text-slate-500">Google OAuth 클라이언트 ID (웹 애플리케이션, 이 주소를 승인된 자바스크립트 출처로 등록)</span>
+            <input
+              value={draft.youtube.clientId}
+              onChange={e => updateYouTube({ clientId: e.target.value })}
+              placeholder="0000000000-xxxx.apps.googleusercontent.com"
+              className="w-full bg-slate-900/50 border border-slate-700 rounded-xl p-3 outline-none focus:ring-2 focus:ring-sky-500 text-sm"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <input
+              type="checkbox"
+              checked={draft.youtube.mock}
+              onChange={e => updateYouTube({ mock: e.target.checked })}
+              className="accent-sky-500"
+            />
+            모의 API 사용 (실제로 업로드하지 않음)
+          </label>
+        </div>
+
+        <button
+          onClick={() => onSave(draft)}
+          className="w-full bg-sky-500 hover:bg-sky-600 text-white font-bold py-3 rounded-2xl transition-all"
+        >
+          저장
+        </button>
+      </div>
+    </div>
+  );
+}
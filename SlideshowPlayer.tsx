@@ -0,0 +1,210 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ParagraphItem, SubtitleOptions, VideoFormat } from './types';
+import { VIDEO_SIZES, buildTimeline, drawFrame, loadSceneImages, renderVideo, sceneIndexAt, supportedRecorderType } from './slideshow';
+import { isAbortError } from './taskQueue';
+import { formatDuration } from './scriptLength';
+import { Play, Pause, Film, Loader2, X, AlertTriangle } from 'lucide-react';
+
+interface SlideshowPlayerProps {
+  paragraphs: ParagraphItem[];
+  format: VideoFormat;
+  subtitleOptions: SubtitleOptions;
+  onRendered: (video: Blob) => void;
+}
+
+export default function SlideshowPlayer({ paragraphs, format, subtitleOptions, onRendered }: SlideshowPlayerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const clockRef = useRef({ startedAt: 0, offset: 0 });
+  const renderRef = useRef<AbortController | null>(null);
+  const [images, setImages] = useState(new Map<string, HTMLImageElement>());
+  const [time, setTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [showCaptions, setShowCaptions] = useState(true);
+  const [renderProgress, setRenderProgress] = useState<number | null>(null);
+
+  const timeline = useMemo(() => buildTimeline(paragraphs, subtitleOptions), [paragraphs, subtitleOptions]);
+  const audioSrc = useMemo(() => timeline.narration && URL.createObjectURL(timeline.narration), [timeline]);
+  const [width, height] = VIDEO_SIZES[format];
+  const missingImages = paragraphs.filter(p => !p.imageUrl).length;
+
+  useEffect(() => () => {
+    if (audioSrc) URL.revokeObjectURL(audioSrc);
+  }, [audioSrc]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSceneImages(timeline.scenes).then(loaded => !cancelled && setImages(loaded));
+    return () => {
+      cancelled = true;
+    };
+  }, [timeline]);
+
+  useEffect(() => () => renderRef.current?.abort(), []);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) drawFrame(ctx, timeline, images, time, showCaptions);
+  }, [timeline, images, time, showCaptions, width, height]);
+
+  // The narration element is the clock when there is one, so pictures never drift from the voice.
+  const currentTime = () => audioRef.current && audioSrc
+    ? audioRef.current.currentTime
+    : clockRef.current.offset + (performance.now() - clockRef.current.startedAt) / 1000;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = 0;
+    const tick = () => {
+      const now = currentTime();
+      if (now >= timeline.duration) {
+        setTime(timeline.duration);
+        setIsPlaying(false);
+        return;
+      }
+      setTime(now);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, timeline, audioSrc]);
+
+  const play = async () => {
+    const from = time >= timeline.duration ? 0 : time;
+    clockRef.current = { startedAt: performance.now(), offset: from };
+    if (audioRef.current && audioSrc) {
+      audioRef.current.currentTime = from;
+      try {
+        await audioRef.current.play();
+      } catch (err) {
+        console.error('Narration playback failed', err);
+        return;
+      }
+    }
+    setTime(from);
+    setIsPlaying(true);
+  };
+
+  const pause = () => {
+    audioRef.current?.pause();
+    setIsPlaying(false);
+  };
+
+  const seek = (to: number) => {
+    clockRef.current = { startedAt: performance.now(), offset: to };
+    if (audioRef.current && audioSrc) audioRef.current.currentTime = to;
+    setTime(to);
+  };
+
+  const render = async () => {
+    pause();
+    const controller = new AbortController();
+    renderRef.current = controller;
+    setRenderProgress(0);
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const video = await renderVideo(canvas, timeline, {
+        showCaptions,
+        signal: controller.signal,
+        onProgress: setRenderProgress
+      });
+      onRendered(video);
+    } catch (err) {
+      if (!isAbortError(err)) alert(err instanceof Error ? err.message : '영상 렌더링에 실패했습니다.');
+    } finally {
+      renderRef.current = null;
+      setRenderProgress(null);
+    }
+  };
+
+  const isRendering = renderProgress !== null;
+  const sceneNumber = timeline.scenes.length ? sceneIndexAt(timeline, time) + 1 : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className={`glass-panel p-4 rounded-2xl mx-auto ${format === 'shorts' ? 'max-w-sm' : ''}`}>
+        <canvas
+          ref={canvasRef}
+          width={width}
+          height={height}
+          className="w-full rounded-xl bg-black"
+        />
+        {audioSrc && <audio ref={audioRef} src={audioSrc} preload="auto" onEnded={() => setIsPlaying(false)} />}
+
+        <div className="flex items-center gap-3 mt-4">
+          <button
+            onClick={isPlaying ? pause : play}
+            disabled={isRendering || !timeline.scenes.length}
+            title={isPlaying ? '일시정지' : '재생'}
+            className="p-2 rounded-lg bg-sky-500 hover:bg-sky-600 disabled:bg-slate-700 text-white transition-colors"
+          >
+            {isPlaying ? <Pause size={18} /> : <Play size={18} />}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={timeline.duration}
+            step={0.1}
+            value={Math.min(time, timeline.duration)}
+            onChange={e => seek(Number(e.target.value))}
+            disabled={isRendering}
+            className="flex-grow accent-sky-500"
+          />
+          <span className="text-xs text-slate-400 whitespace-nowrap">
+            {formatDuration(time)} / {formatDuration(timeline.duration)} · Scene {sceneNumber}
+          </span>
+        </div>
+      </div>
+
+      <div className="glass-panel p-6 rounded-2xl flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={showCaptions}
+            onChange={e => setShowCaptions(e.target.checked)}
+            disabled={isRendering}
+            className="accent-sky-500"
+          />
+          자막 표시
+        </label>
+        <span className="text-xs text-slate-500">
+          {timeline.narration ? '내레이션 음성 포함' : '내레이션 없음 · 예상 길이로 재생'}
+          {missingImages > 0 && ` · 이미지 없는 장면 ${missingImages}개`}
+        </span>
+
+        <div className="ml-auto flex items-center gap-2">
+          {isRendering ? (
+            <>
+              <Loader2 className="animate-spin text-sky-400" size={18} />
+              <span className="text-sm text-slate-300">렌더링 {Math.round(renderProgress! * 100)}%</span>
+              <button
+                onClick={() => renderRef.current?.abort()}
+                className="bg-slate-800 hover:bg-red-500/80 px-4 py-2 rounded-xl flex items-center gap-2 transition-colors"
+              >
+                <X size={18} /> 취소
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={render}
+              disabled={!timeline.scenes.length || !supportedRecorderType()}
+              className="bg-sky-500 hover:bg-sky-600 disabled:bg-slate-700 px-6 py-2 rounded-xl flex items-center gap-2 transition-colors font-bold"
+            >
+              <Film size={18} /> 영상 파일로 렌더링
+            </button>
+          )}
+        </div>
+        {isRendering && (
+          <p className="w-full text-xs text-amber-400 flex items-center gap-1">
+            <AlertTriangle size={12} /> 실시간으로 녹화하므로 영상 길이만큼 걸립니다. 렌더링 중에는 탭을 전환하지 마세요.
+          </p>
+        )}
+        {!supportedRecorderType() && (
+          <p className="w-full text-xs text-red-400">이 브라우저는 영상 녹화를 지원하지 않습니다.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import React, { useRef, useState } from 'react';
+import { SourceDocument } from './types';
+import { ACCEPTED_DOCUMENT_TYPES, parseDocument } from './documentParser';
+import { Paperclip, FileText, Trash2, Loader2, Globe } from 'lucide-react';
+
+interface SourceDocumentsPickerProps {
+  documents: SourceDocument[];
+  webSearch: boolean;
+  disabled: boolean;
+  onDocumentsChange: (documents: SourceDocument[]) => void;
+  onWebSearchChange: (webSearch: boolean) => void;
+}
+
+export default function SourceDocumentsPicker({
+  documents,
+  webSearch,
+  disabled,
+  onDocumentsChange,
+  onWebSearchChange
+}: SourceDocumentsPickerProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isParsing, setIsParsing] = useState(false);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files?.length) return;
+    setIsParsing(true);
+    const parsed: SourceDocument[] = [];
+    const errors: string[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        parsed.push(await parseDocument(file));
+      } catch (err) {
+        console.error(`Failed to parse ${file.name}`, err);
+        errors.push(err instanceof Error ? err.message : file.name);
+      }
+    }
+    setIsParsing(false);
+    if (inputRef.current) inputRef.current.value = '';
+    if (parsed.length) onDocumentsChange([...documents, ...parsed]);
+    if (errors.length) alert(errors.join('\n'));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled || isParsing}
+          className="px-4 py-2 rounded-xl border border-slate-700 text-slate-300 hover:border-slate-500 disabled:opacity-50 text-sm flex items-center gap-2 transition-all"
+        >
+          {isParsing ? <Loader2 size={16} className="animate-spin" /> : <Paperclip size={16} />} 자료 파일 첨부
+        </button>
+        <span className="text-xs text-slate-500">PDF, TXT, Markdown, DOCX, SRT/VTT · 브라우저에서만 처리됩니다</span>
+        <label className="ml-auto flex items-center gap-2 text-sm text-slate-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={webSearch}
+            disabled={disabled}
+            onChange={e => onWebSearchChange(e.target.checked)}
+            className="accent-sky-500"
+          />
+          <Globe size={14} /> Google 검색 병행
+        </label>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={ACCEPTED_DOCUMENT_TYPES}
+          onChange={e => handleFiles(e.target.files)}
+          className="hidden"
+        />
+      </div>
+
+      {documents.length > 0 && (
+        <div className="space-y-2">
+          {documents.map((doc, i) => (
+            <div key={doc.id} className="flex items-center gap-3 bg-slate-900/50 border border-slate-700 rounded-xl px-3 py-2 text-sm">
+              <FileText size={14} className="text-sky-400 shrink-0" />
+              <span className="text-slate-500 shrink-0">자료 {i + 1}</span>
+              <span className="text-slate-200 truncate flex-grow">{doc.name}</span>
+              <span className="text-xs text-slate-500 shrink-0">
+                {doc.text.length.toLocaleString()}자{doc.truncated ? ' (일부만 사용)' : ''}
+              </span>
+              <button
+                type="button"
+                onClick={() => onDocumentsChange(documents.filter(d => d.id !== doc.id))}
+                disabled={disabled}
+                title="삭제"
+                className="p-1 text-slate-400 hover:text-red-400 disabled:opacity-50 transition-colors"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!webSearch && !documents.length && (
+        <p className="text-xs text-amber-400">웹 검색을 끄면 첨부한 자료만으로 조사합니다. 자료를 하나 이상 첨부하세요.</p>
+      )}
+    </div>
+  );
+}
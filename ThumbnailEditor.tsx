@@ -0,0 +1,227 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ThumbnailData, ThumbnailComposition, ThumbnailTextStyle, ThumbnailTemplate, VideoFormat } from './types';
+import {
+  THUMBNAIL_FONTS,
+  THUMBNAIL_SIZES,
+  TEXT_POSITIONS,
+  createComposition,
+  extractKeywords,
+  renderThumbnail,
+  exportThumbnailJpeg
+} from './thumbnailCompositor';
+import { loadThumbnailTemplates, saveThumbnailTemplates } from './settings';
+import { downloadUrl } from './downloads';
+import { Download, Check, Save, Trash2 } from 'lucide-react';
+
+interface ThumbnailEditorProps {
+  thumbnail: ThumbnailData;
+  onChange: (updates: Partial<ThumbnailData>) => void;
+  format?: VideoFormat;
+}
+
+const inputClass = 'w-full bg-slate-900/50 border border-slate-700 rounded-xl p-2 text-sm outline-none focus:ring-2 focus:ring-sky-500';
+
+export default function ThumbnailEditor({ thumbnail, onChange, format = 'long' }: ThumbnailEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [templates, setTemplates] = useState<ThumbnailTemplate[]>(loadThumbnailTemplates);
+  const [renderError, setRenderError] = useState<string | null>(null);
+  const composition = thumbnail.composition || createComposition();
+
+  useEffect(() => {
+    let cancelled = false;
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    renderThumbnail(canvas, thumbnail.pureImageUrl, composition, format)
+      .then(() => !cancelled && setRenderError(null))
+      .catch(err => !cancelled && setRenderError(err.message));
+    return () => {
+      cancelled = true;
+    };
+  }, [thumbnail.pureImageUrl, thumbnail.composition, format]);
+
+  // Any edit invalidates a previously exported mockup.
+  const updateComposition = (updates: Partial<ThumbnailComposition>) => {
+    onChange({ composition: { ...composition, ...updates }, mockupImageUrl: undefined });
+  };
+
+  const updateStyle = (updates: Partial<ThumbnailTextStyle>) => {
+    updateComposition({ style: { ...composition.style, ...updates } });
+  };
+
+  const toggleHighlight = (keyword: string) => {
+    const highlights = { ...composition.highlights };
+    if (highlights[keyword]) {
+      delete highlights[keyword];
+    } else {
+      highlights[keyword] = composition.style.highlightColor;
+    }
+    updateComposition({ highlights });
+  };
+
+  const saveTemplate = () => {
+    const name = prompt('채널 템플릿 이름');
+    if (!name) return;
+    const next = [...templates, { id: crypto.randomUUID(), name, style: composition.style }];
+    saveThumbnailTemplates(next);
+    setTemplates(next);
+  };
+
+  const deleteTemplate = (id: string) => {
+    const next = templates.filter(t => t.id !== id);
+    saveThumbnailTemplates(next);
+    setTemplates(next);
+  };
+
+  const exportMockup = () => {
+    if (!canvasRef.current) return;
+    onChange({ composition, mockupImageUrl: exportThumbnailJpeg(canvasRef.current) });
+  };
+
+  const keywords = extractKeywords(composition.text);
+
+  return (
+    <div className="space-y-6">
+      <div className="glass-panel rounded-3xl overflow-hidden shadow-2xl border border-slate-700">
+        <canvas
+          ref={canvasRef}
+          className={`bg-slate-900 block ${format === 'shorts' ? 'mx-auto h-[60vh] aspect-[9/16]' : 'w-full aspect-video'}`}
+        />
+        <div className="p-4 bg-slate-800 flex justify-between items-center gap-3">
+          <span className="text-sm font-semibold text-slate-400">
+            {renderError || (thumbnail.mockupImageUrl
+              ? `확정됨 · ${(thumbnail.mockupImageUrl.length * 0.75 / 1024 / 1024).toFixed(2)}MB JPEG`
+              : `${THUMBNAIL_SIZES[format].join('×')} · 오른쪽 추천 문구를 클릭해 배치하세요`)}
+          </span>
+          <div className="flex gap-2 shrink-0">
+            <button
+              onClick={exportMockup}
+              className="bg-sky-500 hover:bg-sky-600 px-3 py-2 rounded-lg text-white text-sm font-bold flex items-center gap-1"
+            >
+              <Check size={16} /> 썸네일 확정
+            </button>
+            {thumbnail.mockupImageUrl && (
+              <button
+                onClick={() => downloadUrl(thumbnail.mockupImageUrl!, 'thumbnail.jpg')}
+                title="완성 썸네일 다운로드"
+                className="bg-sky-500 hover:bg-sky-600 p-2 rounded-lg text-white"
+              >
+                <Download size={18} />
+              </button>
+            )}
+            {thumbnail.pureImageUrl && (
+              <button
+                onClick={() => downloadUrl(thumbnail.pureImageUrl!, 'thumbnail_bg.png')}
+                title="배경 이미지 다운로드"
+                className="bg-slate-700 hover:bg-slate-600 p-2 rounded-lg text-white"
+              >
+                <Download size={18} />
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="glass-panel p-6 rounded-3xl space-y-5">
+        <textarea
+          value={composition.text}
+          onChange={e => updateComposition({ text: e.target.value })}
+          placeholder="썸네일 문구 (줄바꿈으로 여러 줄)"
+          className={`${inputClass} h-24 resize-none`}
+        />
+
+        {keywords.length > 0 && (
+          <div className="space-y-2">
+            <span className="text-xs text-slate-500">강조할 키워드를 클릭하세요 (현재 강조색으로 지정)</span>
+            <div className="flex flex-wrap gap-2">
+              {keywords.map(keyword => (
+                <button
+                  key={keyword}
+                  onClick={() => toggleHighlight(keyword)}
+                  className="px-3 py-1 rounded-lg border border-slate-700 text-sm font-bold"
+                  style={composition.highlights[keyword] ? { color: composition.highlights[keyword], borderColor: composition.highlights[keyword] } : undefined}
+                >
+                  {keyword}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <label className="space-y-1">
+            <span className="text-xs text-slate-500">글꼴</span>
+            <select value={composition.style.fontFamily} onChange={e => updateStyle({ fontFamily: e.target.value })} className={inputClass}>
+              {THUMBNAIL_FONTS.map(font => <option key={font} value={font}>{font}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-xs text-slate-500">크기 {composition.style.fontSize}px</span>
+            <input type="range" min={40} max={220} value={composition.style.fontSize} onChange={e => updateStyle({ fontSize: Number(e.target.value) })} className="w-full" />
+          </label>
+          <label className="space-y-1">
+            <span className="text-xs text-slate-500">외곽선 {composition.style.strokeWidth}px</span>
+            <input type="range" min={0} max={30} value={composition.style.strokeWidth} onChange={e => updateStyle({ strokeWidth: Number(e.target.value) })} className="w-full" />
+          </label>
+          <div className="flex items-end gap-3">
+            <label className="space-y-1 text-center">
+              <span className="text-xs text-slate-500 block">글자</span>
+              <input type="color" value={composition.style.fillColor} onChange={e => updateStyle({ fillColor: e.target.value })} />
+            </label>
+            <label className="space-y-1 text-center">
+              <span className="text-xs text-slate-500 block">외곽선</span>
+              <input type="color" value={composition.style.strokeColor} onChange={e => updateStyle({ strokeColor: e.target.value })} />
+            </label>
+            <label className="space-y-1 text-center">
+              <span className="text-xs text-slate-500 block">강조</span>
+              <input type="color" value={composition.style.highlightColor} onChange={e => updateStyle({ highlightColor: e.target.value })} />
+            </label>
+            <label className="flex items-center gap-1 text-xs text-slate-400 pb-1">
+              <input type="checkbox" checked={composition.style.shadow} onChange={e => updateStyle({ shadow: e.target.checked })} /> 그림자
+            </label>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-xs text-slate-500">위치</span>
+          <div className="grid grid-cols-4 gap-2">
+            {TEXT_POSITIONS.map(position => (
+              <button
+                key={position.id}
+                onClick={() => updateStyle({ position: position.id })}
+                className={`py-2 rounded-lg border text-xs font-medium transition-all ${
+                  composition.style.position === position.id
+                    ? 'bg-sky-500/10 border-sky-500 text-sky-400'
+                    : 'border-slate-700 text-slate-400 hover:border-slate-500'
+                }`}
+              >
+                {position.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2 pt-2 border-t border-slate-700">
+          <div className="flex justify-between items-center">
+            <span className="text-xs text-slate-500">채널 템플릿</span>
+            <button onClick={saveTemplate} className="text-xs text-sky-400 hover:text-sky-300 flex items-center gap-1">
+              <Save size={14} /> 현재 스타일 저장
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {templates.length === 0 && <span className="text-xs text-slate-600">저장된 템플릿이 없습니다.</span>}
+            {templates.map(template => (
+              <div key={template.id} className="flex items-center bg-slate-900/80 border border-slate-700 rounded-lg">
+                <button onClick={() => updateStyle(template.style)} className="px-3 py-1 text-sm text-slate-200 hover:text-white">
+                  {template.name}
+                </button>
+                <button onClick={() => deleteTemplate(template.id)} className="px-2 py-1 text-slate-500 hover:text-red-400">
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
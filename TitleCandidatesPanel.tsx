@@ -0,0 +1,94 @@
+import React from 'react';
+import { TitleCandidate } from './types';
+import { YOUTUBE_TITLE_MAX_CHARS, titleLength } from './titleScoring';
+import { Check, Loader2, Sparkles, Copy } from 'lucide-react';
+
+interface TitleCandidatesPanelProps {
+  candidates: TitleCandidate[];
+  selected?: string;
+  // The thumbnail text new candidates would be written around; absent until a thumbnail exists.
+  thumbnailCopy?: string;
+  disabled: boolean;
+  isGenerating: boolean;
+  onSelect: (title: string) => void;
+  onGenerateWithThumbnail: () => void;
+}
+
+export default function TitleCandidatesPanel({
+  candidates,
+  selected,
+  thumbnailCopy,
+  disabled,
+  isGenerating,
+  onSelect,
+  onGenerateWithThumbnail
+}: TitleCandidatesPanelProps) {
+  return (
+    <div className="glass-panel p-6 rounded-2xl space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 border-b border-slate-700 pb-2">
+        <h3 className="text-lg font-bold text-sky-400">영상 제목</h3>
+        <button
+          onClick={onGenerateWithThumbnail}
+          disabled={disabled || isGenerating || !thumbnailCopy}
+          title={thumbnailCopy ? `썸네일 문구: ${thumbnailCopy}` : '썸네일 단계를 먼저 완료하세요.'}
+          className="bg-slate-800 hover:bg-slate-700 disabled:opacity-50 px-3 py-1.5 rounded-lg flex items-center gap-1 text-xs text-slate-200 transition-colors"
+        >
+          {isGenerating ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />} 썸네일 문구와 어울리는 후보 추가
+        </button>
+      </div>
+
+      {selected && (
+        <div className="flex items-start gap-3">
+          <p className="flex-grow text-slate-100 font-bold">{selected}</p>
+          <button
+            onClick={() => navigator.clipboard.writeText(selected)}
+            title="복사"
+            className="p-1 text-slate-400 hover:text-white transition-colors shrink-0"
+          >
+            <Copy size={14} />
+          </button>
+        </div>
+      )}
+
+      {candidates.length > 0 && (
+        <div className="space-y-2">
+          {candidates.map(candidate => {
+            const length = titleLength(candidate.text);
+            const isSelected = candidate.text === selected;
+            return (
+              <div
+                key={candidate.text}
+                className={`flex items-center gap-3 rounded-xl border px-4 py-3 ${
+                  isSelected ? 'border-sky-500/60 bg-sky-500/5' : 'border-slate-700/50 bg-slate-900/40'
+                }`}
+              >
+                <div className="w-12 text-center shrink-0">
+                  <p className={`text-lg font-black ${candidate.score > 0 ? 'text-sky-400' : 'text-red-400'}`}>{candidate.score}</p>
+                  <p className="text-[10px] text-slate-500">점</p>
+                </div>
+                <div className="flex-grow min-w-0 space-y-1">
+                  <p className="text-sm text-slate-200 break-words">{candidate.text}</p>
+                  <div className="flex flex-wrap gap-3 text-xs text-slate-500">
+                    <span className={length > YOUTUBE_TITLE_MAX_CHARS ? 'text-red-400 font-bold' : ''}>
+                      {length}/{YOUTUBE_TITLE_MAX_CHARS}자
+                    </span>
+                    <span>호기심 {candidate.curiosity}/10</span>
+                    <span>키워드 {Math.round(candidate.keywordCoverage * 100)}%</span>
+                    {candidate.thumbnailCopy && <span className="text-amber-400">썸네일 조합: {candidate.thumbnailCopy}</span>}
+                  </div>
+                </div>
+                <button
+                  onClick={() => onSelect(candidate.text)}
+                  disabled={disabled || isSelected || length > YOUTUBE_TITLE_MAX_CHARS}
+                  className="bg-slate-800 hover:bg-slate-700 disabled:opacity-50 px-3 py-1.5 rounded-lg flex items-center gap-1 text-xs text-slate-200 transition-colors shrink-0"
+                >
+                  <Check size={12} /> {isSelected ? '선택됨' : '선택'}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
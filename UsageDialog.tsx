@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { UsageRecord, UsageTotals } from './types';
+import { PIPELINE_ORDER, STEP_LABELS } from './pipeline';
+import { loadMonthlyUsage, monthlyUsageCsv, sumUsage, usageByStep } from './usage';
+import { formatCost } from './pricing';
+import { downloadText } from './downloads';
+import { Coins, Download, X } from 'lucide-react';
+
+interface UsageDialogProps {
+  usage: UsageRecord[];
+  budget: number;
+  onClose: () => void;
+}
+
+const cellClass = 'py-2 px-3 text-right tabular-nums';
+
+const TotalsCells = ({ totals }: { totals: UsageTotals }) => (
+  <>
+    <td className={cellClass}>{totals.calls}</td>
+    <td className={cellClass}>{totals.inputTokens.toLocaleString()}</td>
+    <td className={cellClass}>{totals.outputTokens.toLocaleString()}</td>
+    <td className={cellClass}>{totals.images}</td>
+    <td className={`${cellClass} font-bold text-slate-100`}>{formatCost(totals.cost)}</td>
+  </>
+);
+
+const TableHead = ({ label }: { label: string }) => (
+  <thead>
+    <tr className="text-xs text-slate-500 border-b border-slate-700">
+      <th className="py-2 px-3 text-left font-semibold">{label}</th>
+      <th className="py-2 px-3 text-right font-semibold">호출</th>
+      <th className="py-2 px-3 text-right font-semibold">입력 토큰</th>
+      <th className="py-2 px-3 text-right font-semibold">출력 토큰</th>
+      <th className="py-2 px-3 text-right font-semibold">이미지</th>
+      <th className="py-2 px-3 text-right font-semibold">비용</th>
+    </tr>
+  </thead>
+);
+
+export default function UsageDialog({ usage, budget, onClose }: UsageDialogProps) {
+  const [months] = useState(loadMonthlyUsage);
+  const byStep = usageByStep(usage);
+  const total = sumUsage(usage);
+  const other = byStep.get(undefined);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/60 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="glass-panel rounded-3xl p-8 w-full max-w-3xl space-y-6 max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold flex items-center gap-3">
+            <Coins className="text-sky-400" /> 사용량 및 비용
+          </h2>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-baseline justify-between">
+            <h3 className="text-sm font-semibold text-slate-300">이 프로젝트</h3>
+            <span className="text-xs text-slate-500">
+              {budget > 0 ? `예산 ${formatCost(budget)} 중 ${Math.round(total.cost / budget * 100)}% 사용` : '예산 한도 없음'}
+            </span>
+          </div>
+          <table className="w-full text-sm text-slate-300">
+            <TableHead label="단계" />
+            <tbody>
+              {PIPELINE_ORDER.map(step => {
+                const totals = byStep.get(step);
+                return totals && (
+                  <tr key={step} className="border-b border-slate-800">
+                    <td className="py-2 px-3">{STEP_LABELS[step]}</td>
+                    <TotalsCells totals={totals} />
+                  </tr>
+                );
+              })}
+              {other && (
+                <tr className="border-b border-slate-800">
+                  <td className="py-2 px-3">기타</td>
+                  <TotalsCells totals={other} />
+                </tr>
+              )}
+              <tr className="text-slate-100">
+                <td className="py-2 px-3 font-bold">합계</td>
+                <TotalsCells totals={total} />
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-slate-300">월별 합계 (모든 프로젝트)</h3>
+            <button
+              onClick={() => downloadText(monthlyUsageCsv(months), 'usage-monthly.csv', 'text/csv')}
+              disabled={!months.length}
+              className="text-xs px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-300 flex items-center gap-1 transition-colors"
+            >
+              <Download size={12} /> CSV
+            </button>
+          </div>
+          {months.length ? (
+            <table className="w-full text-sm text-slate-300">
+              <TableHead label="월" />
+              <tbody>
+                {months.map(month => (
+                  <tr key={month.month} className="border-b border-slate-800">
+                    <td className="py-2 px-3">{month.month}</td>
+                    <TotalsCells totals={month} />
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-slate-500">아직 기록된 사용량이 없습니다.</p>
+          )}
+        </div>
+
+        <p className="text-xs text-slate-500">
+          비용은 각 호출 시점의 단가표로 계산한 추정치이며, 삭제한 프로젝트의 사용량도 월별 합계에 남습니다. 단가와 예산은 설정에서 바꿀 수 있습니다.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import React from 'react';
+import { ImageVariant } from './types';
+import { X } from 'lucide-react';
+
+interface VariantStripProps {
+  variants: ImageVariant[];
+  selectedUrl?: string;
+  disabled?: boolean;
+  onSelect: (variant: ImageVariant) => void;
+  onDelete: (variant: ImageVariant) => void;
+}
+
+export default function VariantStrip({ variants, selectedUrl, disabled, onSelect, onDelete }: VariantStripProps) {
+  return (
+    <div className="flex gap-2 overflow-x-auto pb-1">
+      {variants.map((variant, i) => {
+        const selected = variant.imageUrl === selectedUrl;
+        return (
+          <div key={variant.id} className="relative shrink-0 group/variant">
+            <button
+              onClick={() => onSelect(variant)}
+              disabled={disabled}
+              title={`#${i + 1} · ${new Date(variant.createdAt).toLocaleString()}\n${variant.prompt}`}
+              className={`block w-20 aspect-video rounded-md overflow-hidden border-2 transition-colors ${
+                selected ? 'border-sky-500' : 'border-transparent opacity-70 hover:opacity-100 hover:border-slate-500'
+              }`}
+            >
+              <img src={variant.imageUrl} alt={`Variant ${i + 1}`} className="w-full h-full object-cover" />
+            </button>
+            {!selected && (
+              <button
+                onClick={() => onDelete(variant)}
+                disabled={disabled}
+                title="후보 삭제"
+                className="absolute -top-1 -right-1 p-0.5 rounded-full bg-black/80 text-slate-300 hover:bg-red-500 opacity-0 group-hover/variant:opacity-100 transition-opacity"
+              >
+                <X size={10} />
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { VisualReference } from './types';
+import { createVisualReference } from './visualReferences';
+import { parseList } from './channelProfiles';
+import { UserRound, Palette, Lock, LockOpen, Plus, Trash2, Upload, WandSparkles, Loader2 } from 'lucide-react';
+
+interface VisualReferencesPanelProps {
+  references: VisualReference[];
+  styleLock: boolean;
+  disabled: boolean;
+  onChange: (references: VisualReference[]) => void;
+  onStyleLockChange: (styleLock: boolean) => void;
+  onGenerateImage: (id: string) => Promise<void>;
+}
+
+const readAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+const inputClass = 'w-full bg-slate-900/50 border border-slate-700 rounded-lg px-2 py-1.5 text-xs outline-none focus:ring-2 focus:ring-sky-500';
+
+export default function VisualReferencesPanel({
+  references,
+  styleLock,
+  disabled,
+  onChange,
+  onStyleLockChange,
+  onGenerateImage
+}: VisualReferencesPanelProps) {
+  const [busyIds, setBusyIds] = useState<string[]>([]);
+
+  const update = (id: string, updates: Partial<VisualReference>) => {
+    onChange(references.map(reference => reference.id === id ? { ...reference, ...updates } : reference));
+  };
+
+  const add = (kind: VisualReference['kind']) => {
+    const name = prompt(kind === 'character' ? '인물 이름 (대본에 나오는 호칭)' : '스타일 이름', kind === 'character' ? '' : '채널 스타일');
+    if (!name) return;
+    onChange([...references, createVisualReference(kind, name)]);
+  };
+
+  const upload = async (id: string, file?: File) => {
+    if (!file) return;
+    update(id, { imageUrl: await readAsDataUrl(file) });
+  };
+
+  const generate = async (id: string) => {
+    setBusyIds(prev => [...prev, id]);
+    try {
+      await onGenerateImage(id);
+    } finally {
+      setBusyIds(prev => prev.filter(busyId => busyId !== id));
+    }
+  };
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <h3 className="text-lg font-bold text-sky-400">캐릭터·스타일 시트</h3>
+        <span className="text-xs text-slate-500">참조 이미지는 해당 인물이 나오는 장면마다 이미지 모델에 함께 전달됩니다.</span>
+        <div className="ml-auto flex gap-2">
+          <button
+            onClick={() => onStyleLockChange(!styleLock)}
+            disabled={disabled}
+            className={`px-3 py-1.5 rounded-xl text-sm flex items-center gap-2 border transition-colors ${
+              styleLock ? 'border-sky-500 bg-sky-500/10 text-sky-300' : 'border-slate-700 text-slate-400 hover:border-slate-500'
+            }`}
+          >
+            {styleLock ? <Lock size={14} /> : <LockOpen size={14} />} 스타일 고정
+          </button>
+          <button onClick={() => add('character')} disabled={disabled} className="bg-slate-800 hover:bg-slate-700 disabled:opacity-50 px-3 py-1.5 rounded-xl text-sm flex items-center gap-2 transition-colors">
+            <Plus size={14} /> 인물
+          </button>
+          <button onClick={() => add('style')} disabled={disabled} className="bg-slate-800 hover:bg-slate-700 disabled:opacity-50 px-3 py-1.5 rounded-xl text-sm flex items-center gap-2 transition-colors">
+            <Plus size={14} /> 스타일
+          </button>
+        </div>
+      </div>
+
+      {references.length === 0 ? (
+        <p className="text-sm text-slate-500">반복 등장하는 인물이나 화풍 기준 이미지를 추가하면 장면마다 같은 모습으로 그려집니다.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {references.map(reference => (
+            <div key={reference.id} className="flex gap-3 bg-slate-900/40 border border-slate-700/50 rounded-xl p-3">
+              <div className="w-24 h-24 shrink-0 rounded-lg bg-slate-800 overflow-hidden flex items-center justify-center relative">
+                {reference.imageUrl ? (
+                  <img src={reference.imageUrl} alt={reference.name} className="w-full h-full object-cover" />
+                ) : reference.kind === 'character' ? (
+                  <UserRound className="text-slate-600" />
+                ) : (
+                  <Palette className="text-slate-600" />
+                )}
+                {busyIds.includes(reference.id) && (
+                  <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
+                    <Loader2 className="animate-spin text-sky-400" size={18} />
+                  </div>
+                )}
+              </div>
+              <div className="flex-grow min-w-0 space-y-1.5">
+                <div className="flex items-center gap-2">
+                  <span className="text-[10px] px-1.5 py-0.5 rounded bg-slate-800 text-slate-400 shrink-0">
+                    {reference.kind === 'character' ? '인물' : '스타일'}
+                  </span>
+                  <input value={reference.name} onChange={e => update(reference.id, { name: e.target.value })} className={inputClass} />
+                </div>
+                <input
+                  value={reference.description}
+                  onChange={e => update(reference.id, { description: e.target.value })}
+                  placeholder={reference.kind === 'character' ? '외형 묘사 (예: 60대 여성, 짧은 회색 머리, 갈색 코트)' : '화풍 묘사'}
+                  className={inputClass}
+                />
+                {reference.kind === 'character' && (
+                  <>
+                    <input
+                      key={`aliases-${reference.id}`}
+                      defaultValue={reference.aliases.join(', ')}
+                      onBlur={e => update(reference.id, { aliases: parseList(e.target.value) })}
+                      placeholder="다른 호칭 (쉼표로 구분)"
+                      className={inputClass}
+                    />
+                    <label className="flex items-center gap-1.5 text-xs text-slate-400">
+                      <input
+                        type="checkbox"
+                        checked={reference.always}
+                        onChange={e => update(reference.id, { always: e.target.checked })}
+                        className="accent-sky-500"
+                      />
+                      모든 장면에 등장 (화자 등)
+                    </label>
+                  </>
+                )}
+                <div className="flex gap-1">
+                  <label className="p-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 cursor-pointer transition-colors" title="이미지 업로드">
+                    <Upload size={14} />
+                    <input type="file" accept="image/*" className="hidden" onChange={e => upload(reference.id, e.target.files?.[0])} />
+                  </label>
+                  <button
+                    onClick={() => generate(reference.id)}
+                    disabled={disabled || busyIds.includes(reference.id)}
+                    title="AI로 참조 이미지 생성"
+                    className="p-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-40 text-slate-300 transition-colors"
+                  >
+                    <WandSparkles size={14} />
+                  </button>
+                  <button
+                    onClick={() => onChange(references.filter(r => r.id !== reference.id))}
+                    disabled={disabled}
+                    title="삭제"
+                    className="p-1.5 rounded-lg bg-slate-800 hover:bg-red-500/80 disabled:opacity-40 text-slate-300 transition-colors"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { AIErrorKind } from "./types";
+
+export class AIError extends Error {
+  constructor(public kind: AIErrorKind, message: string) {
+    super(message);
+    this.name = 'AIError';
+  }
+}
+
+export const ERROR_KINDS: Record<AIErrorKind, { label: string; hint: string }> = {
+  quota: {
+    label: '사용량 한도 초과',
+    hint: 'API 요청 한도나 할당량을 넘었습니다. 잠시 후 다시 시도하거나 결제·할당량 설정을 확인하세요.'
+  },
+  safety: {
+    label: '안전 정책 차단',
+    hint: '모델이 안전 정책에 따라 응답을 거부했습니다. 주제나 프롬프트 표현을 바꿔 다시 시도하세요.'
+  },
+  invalidKey: {
+    label: 'API 키 오류',
+    hint: 'API 키가 없거나 유효하지 않습니다. API_KEY 환경 변수를 확인하세요.'
+  },
+  malformed: {
+    label: '응답 형식 오류',
+    hint: '자동 복구를 시도했지만 모델 응답이 올바르지 않았습니다. 다시 시도하면 대부분 해결됩니다.'
+  },
+  unavailable: {
+    label: '서버 일시 오류',
+    hint: '모델 서버가 혼잡하거나 연결이 끊겼습니다. 잠시 후 다시 시도하세요.'
+  },
+  unknown: {
+    label: '오류',
+    hint: '잠시 후 다시 시도해 주세요.'
+  }
+};
+
+// Provider SDKs surface failures as HTTP statuses or status names inside the message, so both are checked.
+export const classifyError = (error: unknown): AIErrorKind => {
+  if (error instanceof AIError) return error.kind;
+  if (error instanceof SyntaxError) return 'malformed';
+  const status = (error as { status?: number })?.status;
+  const message = error instanceof Error ? error.message : String(error);
+  if (status === 401 || status === 403 || /API.?key|API_KEY_INVALID|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) return 'invalidKey';
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate.?limit|\b429\b/i.test(message)) return 'quota';
+  if (/SAFETY|PROHIBITED_CONTENT|BLOCKLIST|blocked/i.test(message)) return 'safety';
+  if ((status !== undefined && status >= 500) || /UNAVAILABLE|overloaded|INTERNAL|Failed to fetch|NetworkError|\b50[03]\b/i.test(message)) return 'unavailable';
+  return 'unknown';
+};
+
+export interface AIFailure {
+  kind: AIErrorKind;
+  message: string;
+}
+
+export const describeFailure = (error: unknown): AIFailure => ({
+  kind: classifyError(error),
+  message: error instanceof Error ? error.message : String(error)
+});
+
+// One-line form for places that only keep a string, such as a scene's image error.
+export const failureSummary = (error: unknown): string => {
+  const { kind, message } = describeFailure(error);
+  return kind === 'unknown' ? message : `${ERROR_KINDS[kind].label}: ${message}`;
+};
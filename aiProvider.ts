@@ -0,0 +1,139 @@
+import { AIProviderId } from "./types";
+import { loadSettings } from "./settings";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { checkBudget } from "./usage";
+import { requestWithRepair, validateResponse } from "./responseValidation";
+
+// Providers pick concrete models per tier, so call sites never name a model.
+export type ModelTier = 'pro' | 'fast';
+
+export type AspectRatio = '16:9' | '9:16' | '1:1';
+
+// Provider-neutral subset of JSON Schema; each provider translates it to its own dialect.
+export interface ResponseSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  properties?: Record<string, ResponseSchema>;
+  items?: ResponseSchema;
+  minItems?: number;
+  required?: string[];
+  enum?: string[];
+}
+
+export interface TextRequest {
+  // Identifies the caller (e.g. 'script', 'metadata') for canned mock output and logging.
+  task: string;
+  prompt: string;
+  tier?: ModelTier;
+  signal?: AbortSignal;
+}
+
+export interface JSONRequest extends TextRequest {
+  schema: ResponseSchema;
+}
+
+export interface ImageRequest {
+  task: string;
+  prompt: string;
+  aspectRatio?: AspectRatio;
+  // Data URLs sent ahead of the prompt as visual references, in the order the prompt names them.
+  references?: string[];
+  signal?: AbortSignal;
+}
+
+export interface SpeechRequest {
+  task: string;
+  text: string;
+  // Provider-specific voice name.
+  voice: string;
+  // 1 is the voice's natural pace; providers without a rate control approximate it.
+  speed?: number;
+  signal?: AbortSignal;
+}
+
+// 16-bit little-endian mono PCM, base64-encoded.
+export interface SpeechResult {
+  pcm: string;
+  sampleRate: number;
+}
+
+export interface GroundedSource {
+  title: string;
+  uri: string;
+}
+
+// Indices point into `GroundedResult.sources`.
+export interface GroundedSupport {
+  text: string;
+  sourceIndices: number[];
+}
+
+export interface GroundedResult {
+  text: string;
+  sources: GroundedSource[];
+  supports: GroundedSupport[];
+}
+
+// What one call consumed, as reported by the provider's response.
+export interface TokenUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  generateText(request: TextRequest): Promise<string>;
+  generateJSON<T>(request: JSONRequest): Promise<T>;
+  generateGrounded(request: TextRequest): Promise<GroundedResult>;
+  // Resolves to a data URL.
+  generateImage(request: ImageRequest): Promise<string>;
+  generateSpeech(request: SpeechRequest): Promise<SpeechResult>;
+}
+
+const PROVIDER_FACTORIES: Record<AIProviderId, () => AIProvider> = {
+  [AIProviderId.GEMINI]: createGeminiProvider,
+  [AIProviderId.MOCK]: createMockProvider
+};
+
+export const PROVIDER_LABELS: Record<AIProviderId, string> = {
+  [AIProviderId.GEMINI]: 'Google Gemini',
+  [AIProviderId.MOCK]: '오프라인 모의 (Mock)'
+};
+
+const EMPTY_TEXT_PROBLEM = ['응답이 비어 있습니다.'];
+
+// Every call passes the project budget check first; providers report what each call used afterwards.
+// Text and JSON output is checked before it reaches a caller, and re-requested when it can't be used.
+const guarded = (provider: AIProvider): AIProvider => ({
+  id: provider.id,
+  generateText(request) {
+    return requestWithRepair(request.prompt, prompt => {
+      checkBudget(request.task, request.signal);
+      return provider.generateText({ ...request, prompt });
+    }, text => text.trim() ? [] : EMPTY_TEXT_PROBLEM);
+  },
+  generateJSON<T>(request: JSONRequest) {
+    return requestWithRepair(request.prompt, prompt => {
+      checkBudget(request.task, request.signal);
+      return provider.generateJSON<T>({ ...request, prompt });
+    }, data => validateResponse(data, request.schema));
+  },
+  generateGrounded(request) {
+    return requestWithRepair(request.prompt, prompt => {
+      checkBudget(request.task, request.signal);
+      return provider.generateGrounded({ ...request, prompt });
+    }, result => result.text.trim() ? [] : EMPTY_TEXT_PROBLEM);
+  },
+  async generateImage(request) {
+    checkBudget(request.task, request.signal);
+    return provider.generateImage(request);
+  },
+  async generateSpeech(request) {
+    checkBudget(request.task, request.signal);
+    return provider.generateSpeech(request);
+  }
+});
+
+export const getProvider = (): AIProvider => guarded(PROVIDER_FACTORIES[loadSettings().provider]());
@@ -0,0 +1,71 @@
+// WAV helpers for the 16-bit mono PCM that speech providers return.
+
+const WAV_HEADER_BYTES = 44;
+const BYTES_PER_SAMPLE = 2;
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+// Chunked so long narrations don't overflow the argument limit of String.fromCharCode.
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const pcmDuration = (byteLength: number, sampleRate: number): number =>
+  byteLength / BYTES_PER_SAMPLE / sampleRate;
+
+export const pcmToWav = (pcm: Uint8Array, sampleRate: number): Uint8Array => {
+  const wav = new Uint8Array(WAV_HEADER_BYTES + pcm.length);
+  const view = new DataView(wav.buffer);
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < tag.length; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.length, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * BYTES_PER_SAMPLE, true);
+  view.setUint16(32, BYTES_PER_SAMPLE, true);
+  view.setUint16(34, 16, true);
+  writeTag(36, 'data');
+  view.setUint32(40, pcm.length, true);
+  wav.set(pcm, WAV_HEADER_BYTES);
+  return wav;
+};
+
+export const wavDataUrl = (wav: Uint8Array): string => `data:audio/wav;base64,${bytesToBase64(wav)}`;
+
+// Only reads WAVs written by pcmToWav, which always have the canonical 44-byte header.
+const readWav = (dataUrl: string) => {
+  const bytes = base64ToBytes(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const view = new DataView(bytes.buffer);
+  return { sampleRate: view.getUint32(24, true), pcm: bytes.subarray(WAV_HEADER_BYTES) };
+};
+
+export const concatWavDataUrls = (dataUrls: string[]): Blob => {
+  const parts = dataUrls.map(readWav);
+  const sampleRate = parts[0]?.sampleRate || 24000;
+  if (parts.some(part => part.sampleRate !== sampleRate)) {
+    throw new Error('샘플레이트가 다른 음성 파일은 합칠 수 없습니다. 해당 문단을 다시 생성해주세요.');
+  }
+  const pcm = new Uint8Array(parts.reduce((sum, part) => sum + part.pcm.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    pcm.set(part.pcm, offset);
+    offset += part.pcm.length;
+  });
+  return new Blob([pcmToWav(pcm, sampleRate)], { type: 'audio/wav' });
+};
@@ -0,0 +1,234 @@
+import { AppSettings, AppState, AppStep, BatchItem, ChannelProfile, ParagraphItem, ScriptTarget, StepStatus } from "./types";
+import { createProjectId, loadProject, saveProject } from "./projectStore";
+import { ProjectPreferences, createInitialState, restoreProjectState } from "./projectState";
+import { canRunStep, completeStep, setStepStatus, stepsToResume } from "./pipeline";
+import { generateStepOutput, renderNarration, renderSceneImage } from "./stepRunner";
+import { NARRATION_CONCURRENCY, isAudioStale } from "./narration";
+import { BudgetExceededError, bindUsageMeter } from "./usage";
+import { createAbortError, runWithConcurrency } from "./taskQueue";
+import { describeFailure, failureSummary } from "./aiErrors";
+
+const BATCH_QUEUE_KEY = 'creator-toolkit:batch-queue';
+
+// Items still marked running were interrupted by a reload or a closed tab.
+export const loadBatchQueue = (): BatchItem[] => {
+  try {
+    const raw = localStorage.getItem(BATCH_QUEUE_KEY);
+    const items: BatchItem[] = raw ? JSON.parse(raw) : [];
+    return items.map(item => item.status === StepStatus.RUNNING
+      ? { ...item, status: StepStatus.FAILED, progress: undefined, error: '작업이 중단되었습니다.' }
+      : item);
+  } catch {
+    return [];
+  }
+};
+
+export const saveBatchQueue = (items: BatchItem[]) => {
+  localStorage.setItem(BATCH_QUEUE_KEY, JSON.stringify(items));
+};
+
+// "10분", "10 min", "8000자", "8,000" (characters when no unit is given).
+export const parseTarget = (value: string): ScriptTarget | undefined => {
+  const match = value.trim().replace(/,/g, '').match(/^(\d+(?:\.\d+)?)\s*(분|min(?:utes?)?|m|자|chars?)?$/i);
+  if (!match) return undefined;
+  const amount = Number(match[1]);
+  if (!(amount > 0)) return undefined;
+  return match[2] && /^(분|m)/i.test(match[2])
+    ? { unit: 'minutes', value: amount }
+    : { unit: 'chars', value: Math.round(amount) };
+};
+
+// Splits one CSV line, honouring double-quoted fields with escaped quotes.
+const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells.map(c => c.trim());
+};
+
+const HEADER_PATTERN = /^(topic|주제)$/i;
+
+export interface ParsedTopicList {
+  items: BatchItem[];
+  // One line per row whose length or channel couldn't be read; those rows use the defaults.
+  warnings: string[];
+}
+
+// One topic per line, or CSV/TSV rows of `topic,length,channel` (an optional header row is skipped).
+// Channels are matched by profile name.
+export const parseTopicList = (
+  text: string,
+  defaults: { target: ScriptTarget; channel: ChannelProfile },
+  channels: ChannelProfile[]
+): ParsedTopicList => {
+  const items: BatchItem[] = [];
+  const warnings: string[] = [];
+  // Spreadsheet exports often start with a byte order mark, which would hide the header row.
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    const [topic = '', length = '', channelName = ''] = line.includes('\t')
+      ? line.split('\t').map(cell => cell.trim())
+      : splitCsvLine(line);
+    if (!topic || (index === 0 && HEADER_PATTERN.test(topic))) return;
+
+    let target = defaults.target;
+    if (length) {
+      const parsed = parseTarget(length);
+      if (parsed) target = parsed;
+      else warnings.push(`${index + 1}행: 분량 "${length}"을(를) 읽을 수 없어 기본값을 사용합니다.`);
+    }
+    let channel = defaults.channel;
+    if (channelName) {
+      const found = channels.find(c => c.name.trim().toLowerCase() === channelName.toLowerCase());
+      if (found) channel = found;
+      else warnings.push(`${index + 1}행: 채널 "${channelName}"을(를) 찾을 수 없어 기본 채널을 사용합니다.`);
+    }
+    items.push({ id: createProjectId(), topic, target, channel, status: StepStatus.PENDING });
+  });
+  return { items, warnings };
+};
+
+// Renders every paragraph still missing its image or narration. Results are returned even when some
+// paragraphs failed so the finished ones are saved; `error` is what the step should fail with.
+const renderParagraphs = async (
+  step: AppStep.IMAGES | AppStep.AUDIO,
+  current: AppState,
+  settings: AppSettings,
+  signal: AbortSignal,
+  onProgress: (progress: string) => void
+): Promise<{ paragraphs: ParagraphItem[]; error?: unknown }> => {
+  const images = step === AppStep.IMAGES;
+  const paragraphs = current.script!.paragraphs;
+  const targets = paragraphs.filter(p => images ? !p.imageUrl || p.imageStale : !p.audioUrl || isAudioStale(p));
+  // Stops scheduling the remaining paragraphs once the budget runs out; calls still use `signal` for billing.
+  const stop = new AbortController();
+  let finished = 0;
+  onProgress(`0/${targets.length}`);
+
+  const results = await runWithConcurrency(
+    targets,
+    images ? settings.imageConcurrency : NARRATION_CONCURRENCY,
+    async (p): Promise<Partial<ParagraphItem>> => {
+      try {
+        const result = images
+          ? await renderSceneImage(p, current, settings, signal)
+          : await renderNarration(p, current, settings, signal);
+        onProgress(`${++finished}/${targets.length}`);
+        return result;
+      } catch (err) {
+        console.error(`Batch: failed to render scene ${p.id}`, err);
+        if (err instanceof BudgetExceededError || signal.aborted) stop.abort(err);
+        return images ? { imageError: failureSummary(err) } : { audioError: failureSummary(err) };
+      }
+    },
+    stop.signal
+  );
+  const resultById = new Map(targets.map((p, i) => [p.id, results[i]]));
+  const failed = targets.filter((_, i) => !(images ? results[i]?.imageUrl : results[i]?.audioUrl)).length;
+
+  let error: unknown;
+  if (signal.aborted) error = createAbortError();
+  else if (stop.signal.reason instanceof BudgetExceededError) error = stop.signal.reason;
+  else if (failed > 0) error = new Error(`${failed}개 ${images ? '장면의 이미지' : '문단의 음성'} 생성에 실패했습니다.`);
+
+  return { paragraphs: paragraphs.map(p => ({ ...p, ...resultById.get(p.id) })), error };
+};
+
+// Runs one queue item through every unfinished pipeline step, saving the project after each step.
+// A first run creates the project; later runs resume it, so a retry never repeats finished steps.
+// Resolves with the item fields to store once the run ends, whether it finished or stopped.
+export const runBatchItem = async (
+  item: BatchItem,
+  preferences: ProjectPreferences,
+  settings: AppSettings,
+  signal: AbortSignal,
+  onProgress: (updates: Partial<BatchItem>) => void
+): Promise<Partial<BatchItem>> => {
+  const record = item.projectId ? await loadProject(item.projectId) : undefined;
+  let working: AppState = record ? restoreProjectState(record) : {
+    ...createInitialState({ ...preferences, target: item.target, channel: item.channel }),
+    projectId: createProjectId(),
+    topic: item.topic,
+    usage: []
+  };
+  const projectId = working.projectId!;
+  await saveProject(projectId, working);
+  onProgress({ projectId });
+
+  // A signal of its own, so this project's calls are billed to it and not to the project open in the editor.
+  const scope = new AbortController();
+  const forwardAbort = () => scope.abort(signal.reason);
+  signal.addEventListener('abort', forwardAbort);
+  bindUsageMeter(scope.signal, {
+    records: () => working.usage || [],
+    onRecord: usageRecord => {
+      working = { ...working, usage: [...(working.usage || []), usageRecord] };
+    }
+  });
+
+  try {
+    for (const step of stepsToResume(working.steps)) {
+      if (!canRunStep(working.steps, step)) break;
+      working = { ...working, currentStep: step, steps: setStepStatus(working.steps, step, StepStatus.RUNNING) };
+      onProgress({ step, progress: undefined });
+
+      try {
+        if (step === AppStep.IMAGES || step === AppStep.AUDIO) {
+          const { paragraphs, error } = await renderParagraphs(
+            step,
+            working,
+            settings,
+            scope.signal,
+            progress => onProgress({ progress })
+          );
+          working = { ...working, script: { ...working.script!, paragraphs } };
+          if (error) throw error;
+        } else {
+          // Awaited before merging: the meter appends usage to `working` while the call runs.
+          const updates = await generateStepOutput(step, working, settings, scope.signal);
+          working = { ...working, ...updates };
+        }
+        working = { ...working, steps: completeStep(working.steps, step) };
+      } catch (error) {
+        console.error(`Batch: step ${step} failed for "${item.topic}"`, error);
+        const failure = describeFailure(error);
+        // Cancelling or running out of budget leaves the step waiting, as in the editor.
+        const status = scope.signal.aborted || error instanceof BudgetExceededError ? StepStatus.PENDING : StepStatus.FAILED;
+        working = { ...working, steps: setStepStatus(working.steps, step, status, failure.message, failure.kind) };
+        await saveProject(projectId, working);
+        if (scope.signal.aborted) {
+          return { status: StepStatus.PENDING, step, progress: undefined, error: '취소되었습니다.', errorKind: undefined };
+        }
+        return { status: StepStatus.FAILED, step, progress: undefined, error: failure.message, errorKind: failure.kind };
+      }
+      await saveProject(projectId, working);
+    }
+    if (stepsToResume(working.steps).length) {
+      return { status: StepStatus.FAILED, step: undefined, progress: undefined, error: '선행 단계가 끝나지 않아 남은 단계를 실행할 수 없습니다.' };
+    }
+    return { status: StepStatus.DONE, step: undefined, progress: undefined, error: undefined, errorKind: undefined };
+  } finally {
+    signal.removeEventListener('abort', forwardAbort);
+  }
+};
@@ -0,0 +1,30 @@
+import { ChannelProfile } from "./types";
+
+// Mirrors the prompts the toolkit shipped with, so existing projects keep their voice.
+export const DEFAULT_CHANNEL_PROFILE: ChannelProfile = {
+  id: 'default',
+  name: '기본 채널',
+  description: '최신 이슈를 사실 위주로 풀어주는 한국어 정보 채널',
+  narratorVoice: '1인칭 시점, 자연스러운 혼잣말 내레이션 형식',
+  structure: '도입부(30초 후킹)-전개-위기-전환-결말',
+  bannedWords: [],
+  cta: '자연스러운 구독/좋아요 요청',
+  imageStyle: 'Photorealistic, surreal high-quality image, set in Korea with Korean people, cinematic lighting',
+  defaultHashtags: []
+};
+
+export const createChannelProfile = (name: string, base: ChannelProfile = DEFAULT_CHANNEL_PROFILE): ChannelProfile => ({
+  ...base,
+  id: crypto.randomUUID(),
+  name
+});
+
+// Comma- or newline-separated lists as typed in the profile editor.
+export const parseList = (value: string): string[] =>
+  value.split(/[,\n]/).map(item => item.trim()).filter(Boolean);
+
+export const bannedWordsRule = (channel: ChannelProfile): string =>
+  channel.bannedWords.length ? `다음 단어/표현은 절대 사용하지 말 것: ${channel.bannedWords.join(', ')}` : '';
+
+export const restoreChannel = (state: { channel?: ChannelProfile }): ChannelProfile =>
+  state.channel || DEFAULT_CHANNEL_PROFILE;
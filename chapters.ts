@@ -0,0 +1,75 @@
+import { ChapterMarker, MetadataResults, ParagraphItem, VideoFormat } from "./types";
+import { paragraphDurations } from "./timing";
+
+// YouTube only turns timestamps into chapters when there are at least three, each at least ten seconds long.
+export const MIN_CHAPTERS = 3;
+export const MIN_CHAPTER_SECONDS = 10;
+const FALLBACK_TITLE_CHARS = 30;
+
+export interface Chapter {
+  // Whole seconds from the start of the video.
+  start: number;
+  title: string;
+}
+
+export const formatTimestamp = (seconds: number): string => {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = String(Math.floor((total % 3600) / 60)).padStart(2, '0');
+  const rest = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes}:${rest}` : `${minutes}:${rest}`;
+};
+
+const openingWords = (content: string): string => {
+  const sentence = content.trim().split(/(?<=[.!?。])\s/)[0];
+  return sentence.length > FALLBACK_TITLE_CHARS ? `${sentence.slice(0, FALLBACK_TITLE_CHARS)}…` : sentence;
+};
+
+// Start times follow the narration: real audio durations where present, estimates elsewhere.
+// Without markers (older metadata), every paragraph is a candidate chapter titled by its opening words.
+// Chapters that would start less than MIN_CHAPTER_SECONDS after the previous one are folded into it;
+// returns [] when too few remain for YouTube to show chapters at all.
+export const buildChapters = (
+  paragraphs: ParagraphItem[],
+  markers: ChapterMarker[] | undefined,
+  charsPerSecond: number
+): Chapter[] => {
+  const durations = paragraphDurations(paragraphs, charsPerSecond);
+  const starts = new Map<number, number>();
+  let cursor = 0;
+  paragraphs.forEach((p, i) => {
+    starts.set(p.id, cursor);
+    cursor += durations[i];
+  });
+
+  const candidates = (markers?.length ? markers : paragraphs.map(p => ({ paragraphId: p.id, title: openingWords(p.content) })))
+    .filter(marker => starts.has(marker.paragraphId) && marker.title.trim())
+    .map(marker => ({ start: Math.floor(starts.get(marker.paragraphId)!), title: marker.title.trim() }))
+    .sort((a, b) => a.start - b.start);
+
+  const chapters: Chapter[] = [];
+  candidates.forEach(candidate => {
+    const previous = chapters[chapters.length - 1];
+    // The first chapter must start at 00:00, whichever paragraph it was placed on.
+    if (!previous) chapters.push({ ...candidate, start: 0 });
+    else if (candidate.start - previous.start >= MIN_CHAPTER_SECONDS) chapters.push(candidate);
+  });
+  while (chapters.length > 1 && cursor - chapters[chapters.length - 1].start < MIN_CHAPTER_SECONDS) chapters.pop();
+  return chapters.length >= MIN_CHAPTERS ? chapters : [];
+};
+
+export const formatChapters = (chapters: Chapter[]): string =>
+  chapters.map(chapter => `${formatTimestamp(chapter.start)} ${chapter.title}`).join('\n');
+
+// The description as it should be published: the generated text plus, for long-form videos, the chapters block.
+export const fullDescription = (
+  metadata: MetadataResults,
+  paragraphs: ParagraphItem[],
+  format: VideoFormat,
+  charsPerSecond: number
+): string => {
+  const chapters = format === 'shorts' ? [] : buildChapters(paragraphs, metadata.chapters, charsPerSecond);
+  return chapters.length
+    ? `${metadata.youtubeDescription.trim()}\n\n${formatChapters(chapters)}`
+    : metadata.youtubeDescription;
+};
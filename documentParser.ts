@@ -0,0 +1,82 @@
+import { SourceDocument, SourceDocumentKind } from "./types";
+
+// Keeps a single upload from crowding the report request out of the model's context window.
+export const MAX_DOCUMENT_CHARS = 60000;
+
+export const ACCEPTED_DOCUMENT_TYPES = '.pdf,.txt,.md,.markdown,.docx,.srt,.vtt';
+
+const KIND_BY_EXTENSION: Record<string, SourceDocumentKind> = {
+  pdf: 'pdf',
+  txt: 'txt',
+  md: 'md',
+  markdown: 'md',
+  docx: 'docx',
+  srt: 'transcript',
+  vtt: 'transcript'
+};
+
+export const documentKindOf = (fileName: string): SourceDocumentKind | undefined =>
+  KIND_BY_EXTENSION[fileName.split('.').pop()?.toLowerCase() || ''];
+
+// Drops cue numbers, timestamps and the WEBVTT header so only the spoken text remains.
+export const stripTranscriptTiming = (text: string): string =>
+  text
+    .split(/\r?\n/)
+    .filter(line => {
+      const trimmed = line.trim();
+      return trimmed
+        && trimmed !== 'WEBVTT'
+        && !/^\d+$/.test(trimmed)
+        && !/-->/.test(trimmed)
+        && !/^(NOTE|STYLE|REGION)\b/.test(trimmed);
+    })
+    .map(line => line.replace(/<[^>]+>/g, '').trim())
+    .join('\n');
+
+const extractPdfText = async (file: File): Promise<string> => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pages: string[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const content = await (await pdf.getPage(i)).getTextContent();
+    pages.push(content.items.map(item => 'str' in item ? item.str : '').join(' '));
+  }
+  await pdf.destroy();
+  return pages.join('\n\n');
+};
+
+const extractDocxText = async (file: File): Promise<string> => {
+  const mammoth = await import('mammoth');
+  const result = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+  return result.value;
+};
+
+const extractText = async (file: File, kind: SourceDocumentKind): Promise<string> => {
+  switch (kind) {
+    case 'pdf':
+      return extractPdfText(file);
+    case 'docx':
+      return extractDocxText(file);
+    case 'transcript':
+      return stripTranscriptTiming(await file.text());
+    default:
+      return file.text();
+  }
+};
+
+export const parseDocument = async (file: File): Promise<SourceDocument> => {
+  const kind = documentKindOf(file.name);
+  if (!kind) throw new Error(`지원하지 않는 파일 형식입니다: ${file.name}`);
+
+  const text = (await extractText(file, kind)).replace(/\n{3,}/g, '\n\n').trim();
+  if (!text) throw new Error(`텍스트를 추출하지 못했습니다: ${file.name} (스캔 이미지 PDF일 수 있습니다)`);
+
+  return {
+    id: crypto.randomUUID(),
+    name: file.name,
+    kind,
+    text: text.slice(0, MAX_DOCUMENT_CHARS),
+    truncated: text.length > MAX_DOCUMENT_CHARS
+  };
+};
@@ -0,0 +1,19 @@
+export const downloadUrl = (url: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, filename);
+  // Revoke on the next tick so the browser has started the download.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadText = (text: string, filename: string, type = 'text/plain') => {
+  downloadBlob(new Blob([text], { type: `${type};charset=utf-8` }), filename);
+};
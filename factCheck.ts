@@ -0,0 +1,29 @@
+import { ClaimStatus, FactCheckReport, FactClaim, ResearchData, ScriptData } from "./types";
+
+export const CLAIM_STATUS_LABELS: Record<ClaimStatus, string> = {
+  supported: '근거 있음',
+  unsupported: '근거 없음',
+  contradicted: '출처와 불일치'
+};
+
+export const groupClaimsByParagraph = (claims: FactClaim[]): Record<number, FactClaim[]> =>
+  claims.reduce<Record<number, FactClaim[]>>((groups, claim) => {
+    (groups[claim.paragraphId] ||= []).push(claim);
+    return groups;
+  }, {});
+
+export const isFactCheckStale = (report: FactCheckReport, script?: ScriptData): boolean =>
+  !script || report.ttsScript !== script.ttsScript;
+
+export const countIssues = (claims: FactClaim[]): number =>
+  claims.filter(claim => claim.status !== 'supported').length;
+
+// Sources actually backing a claim, numbered for pasting into the video description.
+export const buildCitationList = (research: ResearchData, claims: FactClaim[]): string => {
+  const cited = [...new Set(claims.flatMap(claim => claim.sourceIndices))].sort((a, b) => a - b);
+  const lines = cited
+    .map(index => research.sources[index])
+    .filter(Boolean)
+    .map((source, i) => source.kind === 'document' ? `[${i + 1}] ${source.title}` : `[${i + 1}] ${source.title} - ${source.uri}`);
+  return lines.length ? `📚 출처\n${lines.join('\n')}\n` : '';
+};
@@ -0,0 +1,170 @@
+import { GenerateContentResponse, GoogleGenAI, Modality, Schema, Type } from "@google/genai";
+import { AIProviderId } from "./types";
+import { AIProvider, JSONRequest, ModelTier, ResponseSchema } from "./aiProvider";
+import { reportUsage } from "./usage";
+import { AIError } from "./aiErrors";
+
+const TEXT_MODELS: Record<ModelTier, string> = {
+  pro: 'gemini-3-pro-preview',
+  fast: 'gemini-3-flash-preview'
+};
+
+const IMAGE_MODEL = 'gemini-2.5-flash-image';
+const SPEECH_MODEL = 'gemini-2.5-flash-preview-tts';
+const DEFAULT_SPEECH_SAMPLE_RATE = 24000;
+
+// The TTS model has no rate parameter but follows a spoken-style direction ahead of the text.
+const paceDirection = (speed: number) =>
+  speed >= 1.15 ? 'Say briskly, at a fast pace' : speed <= 0.9 ? 'Say slowly and calmly' : 'Say at a natural pace';
+
+const SCHEMA_TYPES: Record<ResponseSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  integer: Type.INTEGER,
+  number: Type.NUMBER,
+  boolean: Type.BOOLEAN
+};
+
+const toGeminiSchema = (schema: ResponseSchema): Schema => ({
+  type: SCHEMA_TYPES[schema.type],
+  ...(schema.properties && {
+    properties: Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    )
+  }),
+  ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  ...(schema.minItems !== undefined && { minItems: String(schema.minItems) }),
+  ...(schema.required && { required: schema.required }),
+  ...(schema.enum && { enum: schema.enum })
+});
+
+const toInlineData = (dataUrl: string) => {
+  const match = dataUrl.match(/^data:([^;]+);base64,(.*)$/);
+  return match ? { inlineData: { mimeType: match[1], data: match[2] } } : null;
+};
+
+// Thinking and search-tool tokens are billed too, as output and input respectively.
+const recordUsage = (
+  task: string,
+  model: string,
+  response: GenerateContentResponse,
+  signal?: AbortSignal,
+  images = 0
+) => {
+  const usage = response.usageMetadata;
+  reportUsage(task, {
+    model,
+    inputTokens: (usage?.promptTokenCount || 0) + (usage?.toolUsePromptTokenCount || 0),
+    outputTokens: (usage?.candidatesTokenCount || 0) + (usage?.thoughtsTokenCount || 0),
+    images
+  }, signal);
+};
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'RECITATION'];
+
+// A blocked prompt or answer comes back as a normal response with no content, not as an error.
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const finishReason = String(response.candidates?.[0]?.finishReason || '');
+  const reason = response.promptFeedback?.blockReason || (BLOCKED_FINISH_REASONS.includes(finishReason) ? finishReason : '');
+  if (reason) throw new AIError('safety', `모델이 응답을 차단했습니다 (${reason}).`);
+};
+
+const getAI = () => new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+
+export const createGeminiProvider = (): AIProvider => ({
+  id: AIProviderId.GEMINI,
+
+  async generateText({ task, prompt, tier = 'pro', signal }) {
+    const response = await getAI().models.generateContent({
+      model: TEXT_MODELS[tier],
+      contents: prompt,
+      config: { abortSignal: signal }
+    });
+    recordUsage(task, TEXT_MODELS[tier], response, signal);
+    assertNotBlocked(response);
+    return response.text || '';
+  },
+
+  async generateJSON<T>({ task, prompt, schema, tier = 'pro', signal }: JSONRequest) {
+    const response = await getAI().models.generateContent({
+      model: TEXT_MODELS[tier],
+      contents: prompt,
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: toGeminiSchema(schema)
+      }
+    });
+    recordUsage(task, TEXT_MODELS[tier], response, signal);
+    assertNotBlocked(response);
+    return JSON.parse(response.text || '{}') as T;
+  },
+
+  async generateGrounded({ task, prompt, tier = 'pro', signal }) {
+    const response = await getAI().models.generateContent({
+      model: TEXT_MODELS[tier],
+      contents: prompt,
+      config: {
+        abortSignal: signal,
+        tools: [{ googleSearch: {} }]
+      }
+    });
+    recordUsage(task, TEXT_MODELS[tier], response, signal);
+    assertNotBlocked(response);
+
+    const metadata = response.candidates?.[0]?.groundingMetadata;
+    const sources = metadata?.groundingChunks?.map((chunk: any) => ({
+      title: chunk.web?.title || '출처',
+      uri: chunk.web?.uri || '#'
+    })) || [];
+    const supports = metadata?.groundingSupports?.map(support => ({
+      text: support.segment?.text || '',
+      sourceIndices: support.groundingChunkIndices || []
+    })).filter(support => support.text) || [];
+
+    return { text: response.text || '', sources, supports };
+  },
+
+  async generateImage({ task, prompt, aspectRatio = '16:9', references = [], signal }) {
+    const referenceParts = references.map(toInlineData).filter(part => part !== null);
+    const response = await getAI().models.generateContent({
+      model: IMAGE_MODEL,
+      contents: { parts: [...referenceParts, { text: prompt }] },
+      config: {
+        abortSignal: signal,
+        imageConfig: { aspectRatio }
+      }
+    });
+    const parts = response.candidates?.[0]?.content?.parts || [];
+    recordUsage(task, IMAGE_MODEL, response, signal, parts.filter(part => part.inlineData).length);
+    assertNotBlocked(response);
+
+    for (const part of parts) {
+      if (part.inlineData) {
+        return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+      }
+    }
+    return '';
+  },
+
+  async generateSpeech({ task, text, voice, speed = 1, signal }) {
+    const response = await getAI().models.generateContent({
+      model: SPEECH_MODEL,
+      contents: [{ parts: [{ text: `${paceDirection(speed)}: ${text}` }] }],
+      config: {
+        abortSignal: signal,
+        responseModalities: [Modality.AUDIO],
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } } }
+      }
+    });
+    recordUsage(task, SPEECH_MODEL, response, signal);
+    assertNotBlocked(response);
+
+    const audio = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data)?.inlineData;
+    if (!audio?.data) throw new Error('모델이 음성을 반환하지 않았습니다.');
+    // Arrives as e.g. "audio/L16;codec=pcm;rate=24000".
+    const rate = Number(audio.mimeType?.match(/rate=(\d+)/)?.[1]);
+    return { pcm: audio.data, sampleRate: rate || DEFAULT_SPEECH_SAMPLE_RATE };
+  }
+});
@@ -1,173 +1,812 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { ScriptLength, ResearchData, ScriptData, MetadataResults, ThumbnailData, ParagraphItem } from "./types";
-
-const getAI = () => new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-
-export const performResearch = async (topic: string): Promise<ResearchData> => {
-  const ai = getAI();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview',
-    contents: `주제: ${topic}. 이 주제에 대해 최신 정보를 바탕으로 팩트 체크를 포함한 상세한 보고서를 작성해줘. 한국어로 작성하며, 허위 내용 없이 사실 위주로 구성해.`,
-    config: {
-      tools: [{ googleSearch: {} }]
+import {
+  ResearchData,
+  ResearchSource,
+  ResearchSupport,
+  StructuredReport,
+  FactClaim,
+  ClaimStatus,
+  ScriptData,
+  MetadataResults,
+  TitleCandidate,
+  ThumbnailData,
+  ParagraphItem,
+  ChannelProfile,
+  LanguageCode,
+  SourceDocument,
+  VisualReference,
+  VideoFormat,
+  NarrationOptions
+} from "./types";
+import { AspectRatio, getProvider, ResponseSchema } from "./aiProvider";
+import { isAbortError } from "./taskQueue";
+import { rebuildTtsScript } from "./scriptEditing";
+import { isWithinTolerance, measureScript } from "./scriptLength";
+import { fitParagraphCount } from "./scenePacing";
+import { bannedWordsRule } from "./channelProfiles";
+import { LANGUAGES, outputLanguageRule } from "./languages";
+import { describeReferences } from "./visualReferences";
+import { createImageVariant } from "./imageVariants";
+import { base64ToBytes, pcmDuration, pcmToWav, wavDataUrl } from "./audio";
+import { MAX_CAPTION_CHARS, SHORTS_HASHTAG, SHORTS_MAX_SECONDS, SHORTS_TITLE_MAX_CHARS, withCaptions } from "./shorts";
+import { YOUTUBE_TITLE_MAX_CHARS, pickTitle, rankTitles, scoreTitle } from "./titleScoring";
+
+const buildDocumentBlock = (documents: SourceDocument[]): string =>
+  documents.map((doc, i) => `[자료 ${i + 1}: ${doc.name}${doc.truncated ? ' (앞부분만 발췌)' : ''}]\n${doc.text}`).join('\n\n');
+
+export const performResearch = async (
+  topic: string,
+  channel: ChannelProfile,
+  language: LanguageCode,
+  documents: SourceDocument[] = [],
+  webSearch = true,
+  signal?: AbortSignal
+): Promise<ResearchData> => {
+  if (!webSearch && !documents.length) {
+    throw new Error('웹 검색을 끄려면 자료 파일을 하나 이상 첨부해야 합니다.');
+  }
+
+  const prompt = `주제: ${topic}. 이 주제에 대해 ${webSearch ? '최신 정보를 바탕으로 ' : ''}팩트 체크를 포함한 상세한 보고서를 작성해줘. 허위 내용 없이 사실 위주로 구성해.
+    이 보고서는 '${channel.name}' 채널(${channel.description})의 영상 제작에 쓰이니, 채널 성격에 맞는 관점과 자료를 우선해.
+    ${outputLanguageRule(language)}
+    ${documents.length ? `
+    [첨부 자료]
+    아래 자료를 1차 출처로 삼아. 자료에서 가져온 사실은 문장 끝에 [자료 N]으로 표시하고, ${webSearch ? '웹 검색 결과는 자료를 보완하거나 검증하는 데 사용해.' : '자료에 없는 내용은 추측하지 말고 확인 필요로 표시해.'}
+    
+    ${buildDocumentBlock(documents)}` : ''}`;
+
+  const provider = getProvider();
+  const result = webSearch
+    ? await provider.generateGrounded({ task: 'research', prompt, signal })
+    : { text: await provider.generateText({ task: 'research', prompt, signal }), sources: [], supports: [] };
+
+  const sources: ResearchSource[] = [
+    ...documents.map(doc => ({ title: doc.name, uri: '', kind: 'document' as const })),
+    ...result.sources.map(source => ({ ...source, kind: 'web' as const }))
+  ];
+  // Grounding indices refer to web results only; attached documents are listed first.
+  const supports: ResearchSupport[] = result.supports.map(support => ({
+    text: support.text,
+    sourceIndices: support.sourceIndices.map(index => index + documents.length)
+  }));
+
+  let structured: StructuredReport | undefined;
+  try {
+    structured = await structureResearch(result.text, sources, supports, language, signal);
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    // The markdown report is still usable on its own; the view falls back to rendering it.
+    console.error('Failed to structure research report', err);
+  }
+
+  return {
+    report: result.text,
+    sources,
+    supports,
+    structured
+  };
+};
+
+const CITED: ResponseSchema = { type: 'array', items: { type: 'integer' } };
+
+const structureResearch = async (
+  report: string,
+  sources: ResearchSource[],
+  supports: ResearchSupport[],
+  language: LanguageCode,
+  signal?: AbortSignal
+): Promise<StructuredReport> => {
+  type Cited = { sourceNumbers?: number[] };
+  const data = await getProvider().generateJSON<{
+    summary: string;
+    keyFacts: ({ text: string } & Cited)[];
+    timeline: ({ date: string; event: string } & Cited)[];
+    stakeholders: ({ name: string; role: string } & Cited)[];
+    openQuestions: ({ question: string } & Cited)[];
+  }>({
+    task: 'researchStructure',
+    tier: 'fast',
+    signal,
+    prompt: `다음 조사 보고서를 구조화된 데이터로 정리해줘. 새로운 사실을 추가하지 말고 보고서 내용만 사용해.
+    
+    - summary: 3~4문장 요약
+    - keyFacts: 영상에 쓸 수 있는 핵심 사실 (숫자·날짜·이름이 있으면 포함, 한 문장씩)
+    - timeline: 날짜순 주요 사건
+    - stakeholders: 주요 인물·기관과 역할
+    - openQuestions: 아직 확인되지 않았거나 논쟁 중인 쟁점
+    - 각 항목의 sourceNumbers에는 그 내용을 뒷받침하는 출처 번호를 적을 것 (근거 문장과 [자료 N] 표시 참고)
+    - ${outputLanguageRule(language)}
+    
+    [출처 목록]
+    ${sources.map((source, i) => `${i + 1}. ${source.title}`).join('\n') || '(없음)'}
+    
+    [근거 문장]
+    ${supports.map(support => `${support.text} → 출처 ${support.sourceIndices.map(index => index + 1).join(', ')}`).join('\n') || '(없음)'}
+    
+    [조사 보고서]
+    ${report}`,
+    schema: {
+      type: 'object',
+      properties: {
+        summary: { type: 'string' },
+        keyFacts: {
+          type: 'array',
+          items: { type: 'object', properties: { text: { type: 'string' }, sourceNumbers: CITED }, required: ["text"] }
+        },
+        timeline: {
+          type: 'array',
+          items: { type: 'object', properties: { date: { type: 'string' }, event: { type: 'string' }, sourceNumbers: CITED }, required: ["date", "event"] }
+        },
+        stakeholders: {
+          type: 'array',
+          items: { type: 'object', properties: { name: { type: 'string' }, role: { type: 'string' }, sourceNumbers: CITED }, required: ["name", "role"] }
+        },
+        openQuestions: {
+          type: 'array',
+          items: { type: 'object', properties: { question: { type: 'string' }, sourceNumbers: CITED }, required: ["question"] }
+        }
+      },
+      required: ["summary", "keyFacts", "timeline", "stakeholders", "openQuestions"]
     }
   });
 
-  const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks?.map((chunk: any) => ({
-    title: chunk.web?.title || '출처',
-    uri: chunk.web?.uri || '#'
-  })) || [];
+  const toIndices = ({ sourceNumbers }: Cited) =>
+    [...new Set(sourceNumbers || [])].map(n => n - 1).filter(index => index >= 0 && index < sources.length);
 
   return {
-    report: response.text || '',
-    sources
+    summary: data.summary || '',
+    keyFacts: (data.keyFacts || []).map((fact, i) => ({ id: `fact-${i + 1}`, text: fact.text, sourceIndices: toIndices(fact) })),
+    timeline: (data.timeline || []).map(entry => ({ date: entry.date, event: entry.event, sourceIndices: toIndices(entry) })),
+    stakeholders: (data.stakeholders || []).map(s => ({ name: s.name, role: s.role, sourceIndices: toIndices(s) })),
+    openQuestions: (data.openQuestions || []).map(q => ({ question: q.question, sourceIndices: toIndices(q) }))
   };
 };
 
-export const generateScript = async (research: string, length: ScriptLength): Promise<ScriptData> => {
-  const ai = getAI();
-  const targetChars = length === ScriptLength.SHORT ? 4000 : length === ScriptLength.MEDIUM ? 8000 : 12000;
-  
+const SCRIPT_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    rawScript: { type: 'string' },
+    ttsScript: { type: 'string' },
+    paragraphs: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          content: { type: 'string' },
+          imagePrompt: { type: 'string' }
+        },
+        required: ["id", "content", "imagePrompt"]
+      }
+    }
+  },
+  required: ["rawScript", "ttsScript", "paragraphs"]
+};
+
+const SHORTS_PARAGRAPHS_SCHEMA: ResponseSchema = {
+  type: 'array',
+  minItems: 1,
+  items: {
+    type: 'object',
+    properties: {
+      id: { type: 'integer' },
+      content: { type: 'string' },
+      imagePrompt: { type: 'string' },
+      caption: { type: 'string' }
+    },
+    required: ["id", "content", "imagePrompt", "caption"]
+  }
+};
+
+// Shorts paragraphs also carry the on-screen caption for their beat.
+const SHORTS_SCRIPT_SCHEMA: ResponseSchema = {
+  ...SCRIPT_SCHEMA,
+  properties: { ...SCRIPT_SCHEMA.properties, paragraphs: SHORTS_PARAGRAPHS_SCHEMA }
+};
+
+const scriptSchemaFor = (format: VideoFormat) => format === 'shorts' ? SHORTS_SCRIPT_SCHEMA : SCRIPT_SCHEMA;
+
+const shortsScriptRules = (channel: ChannelProfile) => `
+    [쇼츠 규칙] (위 구조보다 우선)
+    - 세로형 유튜브 쇼츠용, 내레이션 ${SHORTS_MAX_SECONDS}초 이내
+    - 첫 문장은 3초 안에 시선을 붙잡는 훅: 가장 놀라운 사실이나 질문으로 바로 시작 (인사·자기소개 금지)
+    - 결론을 뒤로 미루지 말고 핵심부터, 문장은 짧고 리듬감 있게
+    - 마지막 문장은 댓글이나 구독을 부르는 한 줄 (${channel.cta})
+    - 각 문단(비트)마다 화면에 띄울 자막(caption)을 ${MAX_CAPTION_CHARS}자 이내 핵심 문구로 작성 (내레이션과 같은 언어)
+    - 이미지 프롬프트는 세로(9:16) 구도, 피사체를 화면 중앙에 크게`;
+
+// Follow-up calls allowed to pull a script back within LENGTH_TOLERANCE of the target.
+const MAX_LENGTH_ADJUSTMENTS = 2;
+
+// Scene ids key image jobs, so they must be unique regardless of what the model numbered,
+// and the TTS script is always the paragraphs joined so the editor and the counts agree.
+const normalizeScript = (data: ScriptData): ScriptData => {
+  const paragraphs = data.paragraphs.map((p, i) => ({ ...p, id: i + 1 }));
+  return { ...data, paragraphs, ttsScript: rebuildTtsScript(paragraphs) };
+};
+
+const adjustScriptLength = async (
+  script: ScriptData,
+  targetChars: number,
+  channel: ChannelProfile,
+  language: LanguageCode,
+  format: VideoFormat,
+  signal?: AbortSignal
+): Promise<ScriptData> => {
+  const actualChars = measureScript(script.ttsScript).withSpaces;
+  const direction = actualChars < targetChars ? '늘려' : '줄여';
+  const paragraphs = script.paragraphs.map(({ id, content, imagePrompt, caption }) =>
+    format === 'shorts' ? { id, content, imagePrompt, caption } : { id, content, imagePrompt });
+
+  const data = await getProvider().generateJSON<ScriptData>({
+    task: 'scriptLength',
+    signal,
+    prompt: `
+    다음 유튜브 내레이션 대본의 분량이 목표와 맞지 않아. 현재 공백 포함 ${actualChars}자인데, 공백 포함 약 ${targetChars}자가 되도록 ${direction}줘.
+    
+    [규칙]
+    - 문단 수(${paragraphs.length}개)와 순서, 이야기 흐름은 그대로 유지
+    - 각 문단을 비슷한 비율로 ${direction}서 전체 분량을 맞출 것
+    - 늘릴 때는 구체적인 사례와 묘사를 추가하고, 줄일 때는 반복과 군더더기를 덜어낼 것
+    - ${outputLanguageRule(language)}
+    - 말투 형식: ${LANGUAGES[language].ttsRules}
+    - 화자/말투 유지: ${channel.narratorVoice}
+    - ${bannedWordsRule(channel) || '금지어 없음'}
+    - 내용이 크게 바뀐 문단만 이미지 프롬프트(영문)를 새로 작성
+    ${format === 'shorts' ? `- 화면 자막(caption)은 바뀐 내용에 맞게 ${MAX_CAPTION_CHARS}자 이내로 유지` : ''}
+    
+    현재 문단(JSON): ${JSON.stringify(paragraphs)}
+    `,
+    schema: scriptSchemaFor(format)
+  });
+
+  return normalizeScript(data);
+};
+
+const fitScriptLength = async (
+  script: ScriptData,
+  targetChars: number,
+  channel: ChannelProfile,
+  language: LanguageCode,
+  format: VideoFormat,
+  signal?: AbortSignal
+): Promise<ScriptData> => {
+  for (let attempt = 0; attempt < MAX_LENGTH_ADJUSTMENTS; attempt++) {
+    if (isWithinTolerance(measureScript(script.ttsScript).withSpaces, targetChars)) break;
+    script = await adjustScriptLength(script, targetChars, channel, language, format, signal);
+  }
+  return script;
+};
+
+export const generateScript = async (
+  research: string,
+  targetChars: number,
+  sceneCount: number,
+  channel: ChannelProfile,
+  language: LanguageCode,
+  requiredFacts: string[] = [],
+  format: VideoFormat = 'long',
+  signal?: AbortSignal
+): Promise<ScriptData> => {
   const prompt = `
-    다음 조사 보고서를 바탕으로 유튜브 내레이션 대본을 작성해줘.
+    다음 조사 보고서를 바탕으로 유튜브 ${format === 'shorts' ? '쇼츠 ' : ''}내레이션 대본을 작성해줘.
     조사 보고서: ${research}
     
     [작성 가이드라인]
     1. 분량: 공백 포함 약 ${targetChars}자 내외 (매우 중요, 풍부하게 작성할 것)
-    2. 시점: 1인칭 시점, 자연스러운 혼잣말 내레이션 형식
-    3. 구조: 도입부(30초 후킹)-전개-위기-전환-결말
-    4. 특징: 구체적인 사례 포함, 시청자의 상상력을 자극하는 묘사, 자연스러운 CTA 포함
-    5. 스타일: 팩트 기반이지만 공감을 이끌어내는 스토리텔링
-    
+    2. 채널: ${channel.name} (${channel.description})
+    3. 화자/말투: ${channel.narratorVoice}
+    4. 구조: ${channel.structure}
+    5. 특징: 구체적인 사례 포함, 시청자의 상상력을 자극하는 묘사, 마무리 CTA: ${channel.cta}
+    6. 스타일: 팩트 기반이지만 공감을 이끌어내는 스토리텔링
+    ${bannedWordsRule(channel) ? `7. 금지어: ${bannedWordsRule(channel)}` : ''}
+    ${format === 'shorts' ? shortsScriptRules(channel) : ''}
+    ${requiredFacts.length ? `
+    [반드시 포함할 사실]
+    아래 사실은 빠짐없이, 숫자·날짜·이름을 바꾸지 말고 대본에 담을 것.
+    ${requiredFacts.map(fact => `- ${fact}`).join('\n')}
+    ` : ''}
     [출력 형식]
-    - 전체 대본을 작성한 뒤, 이를 정확히 12개의 의미 있는 문단으로 나누어줘.
-    - 각 문단별로 Vrew TTS 프로그램에 최적화된 구어체(##, ** 같은 특수문자 절대 제외)로 변환한 내레이션 텍스트도 함께 생성해줘.
-    - 각 문단에 어울리는 '실사/초현실적 한국 배경/한국인' 이미지 생성 프롬프트(영문)도 작성해줘.
+    - ${outputLanguageRule(language)}
+    - 전체 대본을 작성한 뒤, 이를 정확히 ${sceneCount}개의 의미 있는 문단으로 나누어줘. (문단 하나가 영상의 한 장면이 됨)
+    - 각 문단별로 다음 형식에 맞춰 변환한 내레이션 텍스트도 함께 생성해줘: ${LANGUAGES[language].ttsRules}
+    - 각 문단에 어울리는 이미지 생성 프롬프트(영문)도 작성해줘. 그림체: ${channel.imageStyle}
   `;
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview',
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          rawScript: { type: Type.STRING },
-          ttsScript: { type: Type.STRING },
-          paragraphs: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                id: { type: Type.INTEGER },
-                content: { type: Type.STRING },
-                imagePrompt: { type: Type.STRING }
-              },
-              required: ["id", "content", "imagePrompt"]
-            }
+  let script = normalizeScript(await getProvider().generateJSON<ScriptData>({
+    task: 'script',
+    prompt,
+    schema: scriptSchemaFor(format),
+    signal
+  }));
+
+  script = await fitScriptLength(script, targetChars, channel, language, format, signal);
+
+  if (script.paragraphs.length !== sceneCount) {
+    // The model often misses the requested paragraph count; repair locally instead of regenerating.
+    const fitted = fitParagraphCount(script, sceneCount);
+    const paragraphs = await Promise.all(fitted.script.paragraphs.map(async p =>
+      fitted.changedIds.includes(p.id) ? { ...p, imagePrompt: await generateImagePrompt(p.content, channel, signal) } : p
+    ));
+    script = normalizeScript({ ...fitted.script, paragraphs });
+  }
+
+  return format === 'shorts' ? { ...script, paragraphs: withCaptions(script.paragraphs) } : script;
+};
+
+export interface DerivedShort {
+  title: string;
+  script: ScriptData;
+}
+
+// Picks self-contained stretches of a long-form script and rewrites each as a hook-first Short.
+export const deriveShorts = async (
+  script: ScriptData,
+  count: number,
+  targetChars: number,
+  channel: ChannelProfile,
+  language: LanguageCode
+): Promise<DerivedShort[]> => {
+  const data = await getProvider().generateJSON<{
+    shorts: { title: string; sourceParagraphIds: number[]; paragraphs: ParagraphItem[] }[];
+  }>({
+    task: 'deriveShorts',
+    prompt: `다음 롱폼 유튜브 대본에서 쇼츠로 만들기 좋은 구간 ${count}개를 골라, 각각 독립적으로 이해되는 쇼츠 대본으로 다시 써줘.
+    
+    [선택 기준]
+    - 구간끼리 겹치지 않게, 그 자체로 놀랍거나 궁금증을 남기는 장면 위주
+    - 각 쇼츠는 공백 포함 약 ${targetChars}자, 4~8개 문단(비트)
+    - 원문의 사실·숫자·이름은 바꾸지 말 것
+    - title: 쇼츠 제목 (${SHORTS_TITLE_MAX_CHARS}자 이내)
+    - sourceParagraphIds: 참고한 원문 문단 id
+    ${shortsScriptRules(channel)}
+    - 화자/말투: ${channel.narratorVoice}
+    - ${outputLanguageRule(language)}
+    - 말투 형식: ${LANGUAGES[language].ttsRules}
+    - 이미지 그림체: ${channel.imageStyle}
+    - ${bannedWordsRule(channel) || '금지어 없음'}
+    
+    [원문 문단(JSON)]
+    ${JSON.stringify(script.paragraphs.map(({ id, content }) => ({ id, content })))}`,
+    schema: {
+      type: 'object',
+      properties: {
+        shorts: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              title: { type: 'string' },
+              sourceParagraphIds: { type: 'array', items: { type: 'integer' } },
+              paragraphs: SHORTS_PARAGRAPHS_SCHEMA
+            },
+            required: ["title", "paragraphs"]
           }
-        },
-        required: ["rawScript", "ttsScript", "paragraphs"]
-      }
+        }
+      },
+      required: ["shorts"]
     }
   });
 
-  const data = JSON.parse(response.text || '{}');
-  return data;
+  const shorts = (data.shorts || []).filter(short => short.paragraphs?.length).slice(0, count);
+  return Promise.all(shorts.map(async short => {
+    const paragraphs = short.paragraphs.map(({ id, content, imagePrompt, caption }) => ({ id, content, imagePrompt, caption }));
+    const draft = normalizeScript({ rawScript: paragraphs.map(p => p.content).join('\n\n'), ttsScript: '', paragraphs });
+    const fitted = await fitScriptLength(draft, targetChars, channel, language, 'shorts');
+    return { title: short.title, script: { ...fitted, paragraphs: withCaptions(fitted.paragraphs) } };
+  }));
 };
 
-export const generateImage = async (prompt: string): Promise<string> => {
-  const ai = getAI();
-  const enhancedPrompt = `Photorealistic, surreal high-quality image, set in Korea with Korean people, high resolution, cinematic lighting, no text: ${prompt}`;
-  
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
-    contents: { parts: [{ text: enhancedPrompt }] },
-    config: {
-      imageConfig: { aspectRatio: "16:9" }
+const CLAIM_STATUSES: ClaimStatus[] = ['supported', 'unsupported', 'contradicted'];
+
+// Extracts checkable claims per paragraph and maps them to the report's grounding supports.
+export const verifyScript = async (script: ScriptData, research: ResearchData): Promise<FactClaim[]> => {
+  const supports = research.supports || [];
+  const data = await getProvider().generateJSON<{
+    claims: { paragraphId: number; claim: string; status: string; supportIds: number[]; sourceNumbers: number[]; note: string }[];
+  }>({
+    task: 'factCheck',
+    prompt: `다음 유튜브 대본을 조사 보고서와 대조해 팩트체크해줘.
+    
+    [방법]
+    1. 각 문단에서 검증 가능한 사실 주장(숫자, 날짜, 인물·기관 이름, 인용)을 빠짐없이 뽑을 것. 의견이나 감상은 제외.
+    2. 각 주장을 뒷받침하는 근거 번호(supportIds)와 출처 번호(sourceNumbers)를 적을 것.
+    3. status: 근거가 있으면 "supported", 보고서에서 찾을 수 없으면 "unsupported", 보고서와 어긋나면 "contradicted".
+    4. note: unsupported/contradicted인 경우 무엇이 다른지 또는 무엇을 확인해야 하는지 한 문장으로 (주장과 같은 언어로).
+    
+    [출처 목록]
+    ${research.sources.map((source, i) => `${i + 1}. ${source.title}`).join('\n')}
+    
+    [근거 문장]
+    ${supports.length
+      ? supports.map((support, i) => `(${i + 1}) ${support.text} → 출처 ${support.sourceIndices.map(index => index + 1).join(', ')}`).join('\n')
+      : '(없음 — 보고서 본문과 [자료 N] 표시를 근거로 판단할 것)'}
+    
+    [조사 보고서]
+    ${research.report}
+    
+    [대본 문단(JSON)]
+    ${JSON.stringify(script.paragraphs.map(({ id, content }) => ({ id, content })))}`,
+    schema: {
+      type: 'object',
+      properties: {
+        claims: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              paragraphId: { type: 'integer' },
+              claim: { type: 'string' },
+              status: { type: 'string', enum: CLAIM_STATUSES },
+              supportIds: { type: 'array', items: { type: 'integer' } },
+              sourceNumbers: { type: 'array', items: { type: 'integer' } },
+              note: { type: 'string' }
+            },
+            required: ["paragraphId", "claim", "status"]
+          }
+        }
+      },
+      required: ["claims"]
     }
   });
 
-  let imageUrl = '';
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) {
-      imageUrl = `data:image/png;base64,${part.inlineData.data}`;
-      break;
+  const paragraphIds = new Set(script.paragraphs.map(p => p.id));
+  return (data.claims || [])
+    .filter(claim => paragraphIds.has(claim.paragraphId))
+    .map(claim => {
+      const fromSupports = (claim.supportIds || []).flatMap(id => supports[id - 1]?.sourceIndices || []);
+      const fromNumbers = (claim.sourceNumbers || []).map(n => n - 1);
+      const sourceIndices = [...new Set([...fromSupports, ...fromNumbers])]
+        .filter(index => index >= 0 && index < research.sources.length)
+        .sort((a, b) => a - b);
+      const status = CLAIM_STATUSES.includes(claim.status as ClaimStatus) ? claim.status as ClaimStatus : 'unsupported';
+      return {
+        paragraphId: claim.paragraphId,
+        claim: claim.claim,
+        // A "supported" verdict without any resolvable source is not verifiable.
+        status: status === 'supported' && !sourceIndices.length ? 'unsupported' : status,
+        sourceIndices,
+        note: claim.note || undefined
+      };
+    });
+};
+
+export const rewriteParagraph = async (
+  content: string,
+  instruction: string,
+  context: { previous?: string; next?: string },
+  channel: ChannelProfile,
+  language: LanguageCode
+): Promise<Pick<ParagraphItem, 'content' | 'imagePrompt'>> => {
+  return getProvider().generateJSON<Pick<ParagraphItem, 'content' | 'imagePrompt'>>({
+    task: 'rewriteParagraph',
+    prompt: `유튜브 내레이션 대본의 한 문단을 수정해줘.
+    수정 지시: ${instruction || '더 자연스럽고 몰입감 있게'}
+    앞 문단: ${context.previous || '(없음)'}
+    수정할 문단: ${content}
+    뒤 문단: ${context.next || '(없음)'}
+    
+    [규칙]
+    - 앞뒤 문단과 자연스럽게 이어지도록 작성
+    - ${outputLanguageRule(language)}
+    - 말투 형식: ${LANGUAGES[language].ttsRules}
+    - 화자/말투 유지: ${channel.narratorVoice}
+    - ${bannedWordsRule(channel) || '금지어 없음'}
+    - 수정된 문단에 어울리는 이미지 생성 프롬프트(영문)도 함께 작성. 그림체: ${channel.imageStyle}`,
+    schema: {
+      type: 'object',
+      properties: {
+        content: { type: 'string' },
+        imagePrompt: { type: 'string' }
+      },
+      required: ["content", "imagePrompt"]
+    }
+  });
+};
+
+export const generateImagePrompt = async (
+  content: string,
+  channel: ChannelProfile,
+  signal?: AbortSignal
+): Promise<string> => {
+  const data = await getProvider().generateJSON<{ imagePrompt: string }>({
+    task: 'imagePrompt',
+    tier: 'fast',
+    signal,
+    prompt: `다음 내레이션 문단에 어울리는 이미지 생성 프롬프트(영문)를 한 문장으로 작성해줘.
+    그림체: ${channel.imageStyle}
+    문단: ${content}`,
+    schema: {
+      type: 'object',
+      properties: {
+        imagePrompt: { type: 'string' }
+      },
+      required: ["imagePrompt"]
     }
+  });
+  return data.imagePrompt;
+};
+
+export interface ImageOptions {
+  // Usage is billed to this task; defaults to scene images.
+  task?: string;
+  references?: VisualReference[];
+  aspectRatio?: AspectRatio;
+  signal?: AbortSignal;
+}
+
+export const generateImage = async (
+  prompt: string,
+  channel: ChannelProfile,
+  { task = 'image', references = [], aspectRatio = '16:9', signal }: ImageOptions = {}
+): Promise<string> => {
+  const attached = references.filter(reference => reference.imageUrl);
+  const enhancedPrompt = `${channel.imageStyle}, high resolution, no text: ${prompt}${attached.length ? `\n\n${describeReferences(attached)}` : ''}`;
+  return getProvider().generateImage({
+    task,
+    prompt: enhancedPrompt,
+    aspectRatio,
+    references: attached.map(reference => reference.imageUrl!),
+    signal
+  });
+};
+
+export const generateReferenceImage = async (reference: VisualReference, channel: ChannelProfile): Promise<string> => {
+  const prompt = reference.kind === 'character'
+    ? `Character reference sheet of "${reference.name}": ${reference.description}. A single person, front-facing, full body, neutral expression, plain light background`
+    : `Style reference image: ${reference.description || 'a representative scene for this channel'}`;
+  return generateImage(prompt, channel, { task: 'referenceImage', aspectRatio: '1:1' });
+};
+
+// Narrates one paragraph and wraps the provider's raw PCM as a playable WAV.
+export const synthesizeNarration = async (
+  text: string,
+  options: NarrationOptions,
+  signal?: AbortSignal
+): Promise<{ audioUrl: string; duration: number }> => {
+  const { pcm, sampleRate } = await getProvider().generateSpeech({
+    task: 'narration',
+    text,
+    voice: options.voice,
+    speed: options.speed,
+    signal
+  });
+  const bytes = base64ToBytes(pcm);
+  return { audioUrl: wavDataUrl(pcmToWav(bytes, sampleRate)), duration: pcmDuration(bytes.length, sampleRate) };
+};
+
+const METADATA_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    youtubeDescription: { type: 'string' },
+    summary4Lines: { type: 'string' },
+    hashtags: { type: 'array', items: { type: 'string' } },
+    seoKeywords: { type: 'array', items: { type: 'string' } },
+    pinnedComment: { type: 'string' }
+  },
+  required: ["title", "youtubeDescription", "summary4Lines", "hashtags", "seoKeywords", "pinnedComment"]
+};
+
+const TITLE_CANDIDATES_PROPERTY: ResponseSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+      curiosity: { type: 'integer' }
+    },
+    required: ["title", "curiosity"]
   }
-  return imageUrl;
 };
 
-export const generateMetadata = async (script: string): Promise<MetadataResults> => {
-  const ai = getAI();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `다음 대본을 분석하여 유튜브 메타데이터를 작성해줘. 
-    대본: ${script.substring(0, 5000)}
-    
-    요구사항:
-    1. 유튜브 설명란용 전체 요약
-    2. 핵심 요약 4줄
-    3. 대표 해시태그 7개 (한 줄에 표시)
-    4. SEO 키워드 20개 (쉼표로 구분)
-    5. 영상 고정 댓글용 인사말 및 설명`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
+const GENERATED_METADATA_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    titleCandidates: TITLE_CANDIDATES_PROPERTY,
+    youtubeDescription: { type: 'string' },
+    chapters: {
+      type: 'array',
+      items: {
+        type: 'object',
         properties: {
-          youtubeDescription: { type: Type.STRING },
-          summary4Lines: { type: Type.STRING },
-          hashtags: { type: Type.ARRAY, items: { type: Type.STRING } },
-          seoKeywords: { type: Type.ARRAY, items: { type: Type.STRING } },
-          pinnedComment: { type: Type.STRING }
-        }
+          paragraphId: { type: 'integer' },
+          title: { type: 'string' }
+        },
+        required: ["paragraphId", "title"]
       }
+    },
+    summary4Lines: { type: 'string' },
+    hashtags: { type: 'array', items: { type: 'string' } },
+    seoKeywords: { type: 'array', items: { type: 'string' } },
+    pinnedComment: { type: 'string' }
+  },
+  required: ["titleCandidates", "youtubeDescription", "summary4Lines", "hashtags", "seoKeywords", "pinnedComment"]
+};
+
+const TITLE_CANDIDATE_COUNT = 5;
+
+type RawTitles = { title: string; curiosity: number }[];
+
+const titleCandidateRules = (format: VideoFormat) => `제목 후보 ${TITLE_CANDIDATE_COUNT}개를 서로 다른 접근(질문형, 숫자형, 반전형 등)으로 작성하고, 각 후보의 호기심 유발 정도를 1~10 정수로 냉정하게 평가해 curiosity에 넣어.
+    - 각 제목은 ${format === 'shorts' ? `${SHORTS_TITLE_MAX_CHARS}자 이내, 스크롤을 멈추게 하는 짧은 한 문장` : `${YOUTUBE_TITLE_MAX_CHARS}자 이내 (핵심은 앞 60자 안에)`}
+    - 가장 중요한 검색 키워드를 제목 앞쪽에 자연스럽게 넣을 것
+    - 낚시성 과장이나 대본에 없는 내용은 금지`;
+
+const toTitleCandidates = (
+  raw: RawTitles | undefined,
+  keywords: string[],
+  format: VideoFormat,
+  thumbnailCopy?: string
+): TitleCandidate[] => rankTitles((raw || []).map(candidate =>
+  scoreTitle({ text: candidate.title, curiosity: candidate.curiosity, thumbnailCopy }, keywords, format)
+));
+
+export const generateMetadata = async (
+  script: ScriptData,
+  channel: ChannelProfile,
+  language: LanguageCode,
+  format: VideoFormat = 'long',
+  signal?: AbortSignal
+): Promise<MetadataResults> => {
+  const { titleCandidates: rawTitles, chapters, ...metadata } = await getProvider().generateJSON<
+    Omit<MetadataResults, 'title' | 'titleCandidates'> & { titleCandidates: RawTitles }
+  >({
+    task: 'metadata',
+    tier: 'fast',
+    signal,
+    prompt: `다음 대본을 분석하여 유튜브 ${format === 'shorts' ? '쇼츠 ' : ''}메타데이터를 작성해줘. 
+    대본 (대괄호 안은 문단 번호):
+    ${script.paragraphs.map(p => `[${p.id}] ${p.content}`).join('\n')}
+    
+    요구사항:
+    1. ${titleCandidateRules(format)}
+    ${format === 'shorts'
+      ? `2. 유튜브 설명란용 2~3문장의 짧은 설명`
+      : `2. 유튜브 설명란용 전체 요약 (타임스탬프는 넣지 말 것. 챕터는 7번 결과로 자동 추가된다)`}
+    3. 핵심 요약 4줄
+    4. 대표 해시태그 7개 (한 줄에 표시)
+    5. SEO 키워드 20개 (쉼표로 구분, 중요한 순서대로)
+    6. 영상 고정 댓글용 인사말 및 설명 (CTA 포함: ${channel.cta})
+    ${format === 'shorts'
+      ? ''
+      : `7. 챕터: 이야기의 흐름이 바뀌는 지점마다 나눠 5~10개. 각 챕터가 시작하는 문단 번호(paragraphId)와 짧은 챕터 제목. 첫 챕터는 첫 문단에서 시작`}
+    
+    채널: ${channel.name} (${channel.description})
+    ${outputLanguageRule(language)}
+    ${bannedWordsRule(channel)}`,
+    schema: GENERATED_METADATA_SCHEMA
+  });
+
+  // Channel hashtags always lead, followed by the generated ones that aren't duplicates.
+  // Shorts put #shorts first so YouTube classifies the upload even when it can't tell from the file.
+  const hashtags = [...(format === 'shorts' ? [SHORTS_HASHTAG] : []), ...channel.defaultHashtags, ...(metadata.hashtags || [])]
+    .map(tag => tag.startsWith('#') ? tag : `#${tag}`);
+  const titleCandidates = toTitleCandidates(rawTitles, metadata.seoKeywords || [], format);
+  return {
+    ...metadata,
+    title: pickTitle(titleCandidates),
+    titleCandidates,
+    chapters: format === 'shorts' ? undefined : chapters,
+    hashtags: [...new Set(hashtags)]
+  };
+};
+
+// Titles written to sit next to the thumbnail text: they add to it instead of repeating it.
+export const generateTitleCandidates = async (
+  metadata: MetadataResults,
+  thumbnailCopy: string,
+  channel: ChannelProfile,
+  language: LanguageCode,
+  format: VideoFormat = 'long'
+): Promise<TitleCandidate[]> => {
+  const data = await getProvider().generateJSON<{ titleCandidates: RawTitles }>({
+    task: 'titleCandidates',
+    tier: 'fast',
+    prompt: `다음 유튜브 ${format === 'shorts' ? '쇼츠' : '영상'}의 제목 후보를 작성해줘. 제목은 썸네일 문구 "${thumbnailCopy}"와 나란히 노출된다.
+    썸네일 문구를 그대로 반복하지 말고, 썸네일과 함께 읽었을 때 궁금증이 완성되도록 보완하는 제목을 써.
+    
+    ${titleCandidateRules(format)}
+    
+    영상 요약: ${metadata.summary4Lines}
+    SEO 키워드 (중요한 순서): ${metadata.seoKeywords.join(', ')}
+    현재 제목: ${metadata.title || '(없음)'}
+    채널: ${channel.name} (${channel.description})
+    ${outputLanguageRule(language)}
+    ${bannedWordsRule(channel)}`,
+    schema: {
+      type: 'object',
+      properties: { titleCandidates: TITLE_CANDIDATES_PROPERTY },
+      required: ["titleCandidates"]
     }
   });
+  return toTitleCandidates(data.titleCandidates, metadata.seoKeywords, format, thumbnailCopy);
+};
 
-  return JSON.parse(response.text || '{}');
+// Candidates and chapter markers stay in the source language; only what gets published per language is sent.
+const localizableFields = ({ titleCandidates, chapters, ...fields }: MetadataResults) => fields;
+
+// Localizes rather than literally translates, so hashtags and tags match what viewers search for.
+export const localizeMetadata = async (metadata: MetadataResults, language: LanguageCode): Promise<MetadataResults> => {
+  return getProvider().generateJSON<MetadataResults>({
+    task: 'localizeMetadata',
+    tier: 'fast',
+    prompt: `다음 유튜브 메타데이터를 ${LANGUAGES[language].promptName} 시청자용으로 현지화해줘.
+    
+    [규칙]
+    - 제목과 설명은 의미를 유지하되 현지 시청자에게 자연스러운 표현으로 옮길 것 (제목 100자 이내)
+    - 해시태그와 SEO 키워드는 직역하지 말고 해당 언어권에서 실제로 검색하는 표현으로 바꿀 것
+    - 고유명사와 URL은 그대로 유지
+    - ${outputLanguageRule(language)}
+    
+    원본(JSON): ${JSON.stringify(localizableFields(metadata))}`,
+    schema: METADATA_SCHEMA
+  });
 };
 
-export const generateThumbnailContent = async (script: string): Promise<ThumbnailData> => {
-  const ai = getAI();
-  
+const thumbnailBackgroundPrompt = (prompt: string) =>
+  `Cinematic YouTube thumbnail background, emotionally grabbing: ${prompt}`;
+
+export const generateThumbnailBackground = (
+  prompt: string,
+  channel: ChannelProfile,
+  options: ImageOptions = {}
+): Promise<string> => generateImage(thumbnailBackgroundPrompt(prompt), channel, { ...options, task: 'thumbnailImage' });
+
+export const generateThumbnailContent = async (
+  script: string,
+  channel: ChannelProfile,
+  language: LanguageCode,
+  references: VisualReference[] = [],
+  variantCount = 1,
+  aspectRatio: AspectRatio = '16:9',
+  signal?: AbortSignal
+): Promise<ThumbnailData> => {
   // 1. Text content generation
-  const textResponse = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `다음 대본에 어울리는 유튜브 썸네일 문구를 생성해줘.
+  const textData = await getProvider().generateJSON<{
+    copySuggestions: ThumbnailData['copySuggestions'];
+    imagePrompt: string;
+  }>({
+    task: 'thumbnailCopy',
+    tier: 'fast',
+    signal,
+    prompt: `다음 대본에 어울리는 유튜브 썸네일 문구를 생성해줘.
     대본: ${script.substring(0, 2000)}
+    채널: ${channel.name} (${channel.description})
+    ${outputLanguageRule(language)}
+    ${bannedWordsRule(channel)}
     
     [형태1: 주제, 궁금증/후킹, 가치] 3가지
     [형태2: 주제, 후킹, 가치] 3가지
     각각의 썸네일 이미지를 위한 묘사 프롬프트(영문)도 하나 추천해줘.`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          copySuggestions: {
-            type: Type.OBJECT,
-            properties: {
-              type1: { type: Type.ARRAY, items: { type: Type.STRING } },
-              type2: { type: Type.ARRAY, items: { type: Type.STRING } }
-            }
+    schema: {
+      type: 'object',
+      properties: {
+        copySuggestions: {
+          type: 'object',
+          properties: {
+            type1: { type: 'array', items: { type: 'string' } },
+            type2: { type: 'array', items: { type: 'string' } }
           },
-          imagePrompt: { type: Type.STRING }
-        }
-      }
+          required: ["type1", "type2"]
+        },
+        imagePrompt: { type: 'string' }
+      },
+      required: ["copySuggestions", "imagePrompt"]
     }
   });
-
-  const textData = JSON.parse(textResponse.text || '{}');
   
-  // 2. Generate pure image for thumbnail
-  const pureImage = await generateImage(`Hyper-realistic cinematic YouTube thumbnail background, Korean context, emotionally grabbing, no text: ${textData.imagePrompt}`);
+  // 2. Generate background candidates for the thumbnail
+  const backgrounds: string[] = [];
+  for (let i = 0; i < variantCount; i++) {
+    backgrounds.push(await generateThumbnailBackground(textData.imagePrompt, channel, { references, aspectRatio, signal }));
+  }
 
   return {
-    pureImageUrl: pureImage,
+    pureImageUrl: backgrounds[0],
+    backgroundPrompt: textData.imagePrompt,
+    backgroundVariants: backgrounds.map(url => createImageVariant(url, textData.imagePrompt)),
     copySuggestions: textData.copySuggestions
   };
 };
@@ -0,0 +1,21 @@
+import { ImageVariant } from "./types";
+
+export const MAX_IMAGE_VARIANTS = 4;
+
+export const createImageVariant = (imageUrl: string, prompt: string): ImageVariant => ({
+  id: crypto.randomUUID(),
+  imageUrl,
+  prompt,
+  createdAt: Date.now()
+});
+
+// Items saved before variants existed only have the picked image; seed the history with it.
+export const variantHistory = (imageUrl: string | undefined, prompt: string, variants?: ImageVariant[]): ImageVariant[] =>
+  variants?.length ? variants : imageUrl ? [createImageVariant(imageUrl, prompt)] : [];
+
+export const selectedVariant = (variants: ImageVariant[] | undefined, imageUrl?: string) =>
+  variants?.find(variant => variant.imageUrl === imageUrl);
+
+// The picked image can't be removed from history; pick another one first.
+export const removeVariant = (variants: ImageVariant[], id: string, imageUrl?: string) =>
+  variants.filter(variant => variant.id !== id || variant.imageUrl === imageUrl);
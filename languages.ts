@@ -0,0 +1,61 @@
+import { LanguageCode } from "./types";
+
+interface LanguageInfo {
+  label: string;
+  // Name used inside prompts; the model follows English language names most reliably.
+  promptName: string;
+  ttsRules: string;
+}
+
+export const LANGUAGES: Record<LanguageCode, LanguageInfo> = {
+  ko: {
+    label: '한국어',
+    promptName: 'Korean',
+    ttsRules: 'Vrew TTS 프로그램에 최적화된 구어체 (##, ** 같은 특수문자 절대 제외, 숫자·단위·영문 약어는 읽는 그대로 한글로)'
+  },
+  en: {
+    label: 'English',
+    promptName: 'English',
+    ttsRules: 'spoken English for TTS (no markdown or symbols such as ## or **, numbers, units and abbreviations written out as spoken words)'
+  },
+  ja: {
+    label: '日本語',
+    promptName: 'Japanese',
+    ttsRules: 'TTS向けの自然な話し言葉（##や**などの記号は禁止、数字・単位・略語は読み方どおりに表記、難読漢字はひらがな）'
+  },
+  es: {
+    label: 'Español',
+    promptName: 'Spanish',
+    ttsRules: 'español hablado para TTS (sin símbolos como ## o **, números, unidades y siglas escritos como se pronuncian)'
+  },
+  zh: {
+    label: '中文',
+    promptName: 'Simplified Chinese',
+    ttsRules: '适合TTS朗读的口语化中文（禁止使用##、**等符号，数字、单位和缩写按读音写出）'
+  },
+  pt: {
+    label: 'Português',
+    promptName: 'Brazilian Portuguese',
+    ttsRules: 'português falado para TTS (sem símbolos como ## ou **, números, unidades e siglas escritos por extenso)'
+  },
+  fr: {
+    label: 'Français',
+    promptName: 'French',
+    ttsRules: 'français parlé pour TTS (pas de symboles comme ## ou **, nombres, unités et sigles écrits en toutes lettres)'
+  },
+  de: {
+    label: 'Deutsch',
+    promptName: 'German',
+    ttsRules: 'gesprochenes Deutsch für TTS (keine Symbole wie ## oder **, Zahlen, Einheiten und Abkürzungen ausgeschrieben)'
+  }
+};
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'ko';
+
+export const LANGUAGE_CODES = Object.keys(LANGUAGES) as LanguageCode[];
+
+export const outputLanguageRule = (language: LanguageCode): string =>
+  `출력 언어: ${LANGUAGES[language].promptName} (지시문은 한국어지만 결과물은 반드시 이 언어로 작성)`;
+
+export const restoreLanguage = (state: { language?: LanguageCode }): LanguageCode =>
+  state.language && state.language in LANGUAGES ? state.language : DEFAULT_LANGUAGE;
@@ -0,0 +1,261 @@
+import { AIProviderId } from "./types";
+import { AIProvider, AspectRatio, JSONRequest, ResponseSchema } from "./aiProvider";
+import { sleep } from "./taskQueue";
+import { estimateSeconds } from "./timing";
+import { bytesToBase64 } from "./audio";
+import { reportUsage } from "./usage";
+
+const MOCK_LATENCY_MS = 400;
+const MOCK_SAMPLE_RATE = 24000;
+
+const IMAGE_SIZES: Record<AspectRatio, [number, number]> = {
+  '16:9': [1280, 720],
+  '9:16': [720, 1280],
+  '1:1': [1024, 1024]
+};
+
+const MOCK_MODEL = 'mock';
+
+// Roughly four characters per token, so the usage panel has plausible numbers offline.
+const recordUsage = (task: string, input: string, output: string, signal?: AbortSignal, images = 0) => {
+  reportUsage(task, {
+    model: MOCK_MODEL,
+    inputTokens: Math.ceil(input.length / 4),
+    outputTokens: Math.ceil(output.length / 4),
+    images
+  }, signal);
+};
+
+const hashString = (value: string) => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const MOCK_SCENES = [
+  '아침 출근길, 서울 지하철 안에서 사람들은 저마다 휴대폰 화면을 들여다보고 있었습니다.',
+  '그런데 그날 아침, 모두의 화면에 같은 뉴스 속보가 떠올랐습니다.',
+  '처음에는 아무도 그 의미를 제대로 이해하지 못했습니다.',
+  '전문가들은 이 변화가 우리 일상에 어떤 영향을 줄지 분석하기 시작했습니다.',
+  '숫자로 보면 상황은 생각보다 훨씬 복잡했습니다.',
+  '특히 평범한 직장인과 자영업자들에게는 직접적인 문제였습니다.',
+  '시장 골목의 한 상인은 지난 한 달 사이 매출이 눈에 띄게 달라졌다고 말합니다.',
+  '하지만 모든 것이 나쁜 소식만은 아니었습니다.',
+  '위기 속에서 새로운 기회를 발견한 사람들도 있었습니다.',
+  '결국 중요한 것은 이 흐름을 어떻게 받아들이느냐였습니다.',
+  '우리가 지금 준비할 수 있는 것은 무엇일까요?',
+  '오늘 이야기가 도움이 되셨다면 구독과 좋아요로 함께해 주세요.'
+];
+
+// Repeats each canned sentence so the script lands near the "약 N자" target named in the prompt.
+const buildMockScript = ({ prompt }: JSONRequest) => {
+  const targets = [...prompt.matchAll(/약 (\d+)자/g)];
+  const targetChars = targets.length ? Number(targets[targets.length - 1][1]) : 0;
+  const baseChars = MOCK_SCENES.join('\n\n').length;
+  const repeat = Math.max(1, Math.round(targetChars / baseChars));
+  const withCaption = prompt.includes('caption');
+  const paragraphs = MOCK_SCENES.map((sentence, i) => ({
+    id: i + 1,
+    content: Array(repeat).fill(sentence).join(' '),
+    imagePrompt: `Mock scene ${i + 1}: a cinematic street scene in Seoul, soft morning light`,
+    ...(withCaption ? { caption: `모의 자막 ${i + 1}` } : {})
+  }));
+  const text = paragraphs.map(p => p.content).join('\n\n');
+  return { rawScript: text, ttsScript: text, paragraphs };
+};
+
+const MOCK_TITLES = [
+  { title: '키워드1 완전 정리: 지금 알아야 할 변화', curiosity: 6 },
+  { title: '왜 아무도 이 변화를 말하지 않았을까? 키워드1과 키워드2의 진실', curiosity: 8 },
+  { title: '3분 만에 보는 키워드2', curiosity: 5 },
+  { title: '모두가 놓친 그 변화, 당신의 지갑은 안전할까', curiosity: 7 },
+  { title: '키워드3까지 한 번에 정리하는 아주 긴 모의 제목입니다. 유튜브는 100자를 넘는 제목을 받지 않으므로 이런 후보는 점수 0점으로 맨 아래에 놓이고 자동 선택되지도 않습니다. 길이 제한 확인용입니다', curiosity: 9 }
+];
+
+const CANNED_JSON: Record<string, (request: JSONRequest) => unknown> = {
+  script: buildMockScript,
+  scriptLength: buildMockScript,
+  metadata: ({ prompt }: JSONRequest) => ({
+    titleCandidates: MOCK_TITLES,
+    youtubeDescription: '모의 설명입니다. 실제 API를 호출하지 않고 생성된 오프라인 데이터입니다.',
+    summary4Lines: '1. 모의 요약 첫 줄\n2. 모의 요약 둘째 줄\n3. 모의 요약 셋째 줄\n4. 모의 요약 넷째 줄',
+    hashtags: ['#모의데이터', '#테스트', '#유튜브', '#자동화', '#크리에이터', '#데모', '#오프라인'],
+    seoKeywords: Array.from({ length: 20 }, (_, i) => `키워드${i + 1}`),
+    pinnedComment: '시청해 주셔서 감사합니다! (모의 고정 댓글)',
+    // A chapter every third numbered paragraph, as the real model would place them at topic changes.
+    chapters: [...prompt.matchAll(/^\s*\[(\d+)\]/gm)]
+      .filter((_, i) => i % 3 === 0)
+      .map((match, i) => ({ paragraphId: Number(match[1]), title: `모의 챕터 ${i + 1}` }))
+  }),
+  titleCandidates: () => ({ titleCandidates: MOCK_TITLES.map(candidate => ({ ...candidate, title: `${candidate.title} (썸네일 조합)` })) }),
+  deriveShorts: ({ prompt }: JSONRequest) => {
+    const count = Number(prompt.match(/구간 (\d+)개/)?.[1]) || 3;
+    return {
+      shorts: Array.from({ length: count }, (_, n) => ({
+        title: `모의 쇼츠 ${n + 1}: 3초 만에 보는 반전`,
+        sourceParagraphIds: [n * 2 + 1, n * 2 + 2],
+        paragraphs: MOCK_SCENES.slice(n * 2, n * 2 + 5).map((content, i) => ({
+          id: i + 1,
+          content,
+          caption: `쇼츠 ${n + 1} 자막 ${i + 1}`,
+          imagePrompt: `Mock short ${n + 1} beat ${i + 1}: vertical close-up, Seoul street at night`
+        }))
+      }))
+    };
+  },
+  researchStructure: () => ({
+    summary: '오프라인 모의 공급자가 만든 구조화 보고서입니다. 실제 사실 확인 없이 UI 시연 용도로만 사용하세요.',
+    keyFacts: [
+      { text: '모의 핵심 사실 1: 2024년 관련 지표가 12% 상승했습니다.', sourceNumbers: [1] },
+      { text: '모의 핵심 사실 2: 주요 기관이 새로운 대응책을 발표했습니다.', sourceNumbers: [1, 2] },
+      { text: '모의 핵심 사실 3: 전문가 의견은 엇갈립니다.', sourceNumbers: [] }
+    ],
+    timeline: [
+      { date: '2024-01', event: '모의 사건 발생', sourceNumbers: [1] },
+      { date: '2024-06', event: '모의 후속 조치', sourceNumbers: [2] }
+    ],
+    stakeholders: [{ name: '모의 기관', role: '정책 발표 주체', sourceNumbers: [2] }],
+    openQuestions: [{ question: '장기적인 영향은 아직 확인되지 않았습니다.', sourceNumbers: [] }]
+  }),
+  factCheck: ({ prompt }: JSONRequest) => {
+    const ids = [...prompt.matchAll(/"id":(\d+)/g)].map(match => Number(match[1])).slice(0, 3);
+    const statuses = ['supported', 'unsupported', 'contradicted'];
+    return {
+      claims: ids.map((paragraphId, i) => ({
+        paragraphId,
+        claim: `모의 주장 ${i + 1}`,
+        status: statuses[i % statuses.length],
+        supportIds: i === 0 ? [1] : [],
+        sourceNumbers: i === 2 ? [2] : [],
+        note: i === 0 ? '' : '모의 팩트체크 메모입니다.'
+      }))
+    };
+  },
+  localizeMetadata: ({ prompt }: JSONRequest) => {
+    const language = prompt.match(/^다음 유튜브 메타데이터를 (.+?) 시청자용으로/)?.[1] || 'English';
+    return {
+      title: `[${language}] Mock video title`,
+      youtubeDescription: `[${language}] Mock description generated offline without calling an API.`,
+      summary4Lines: `[${language}] 1. Mock\n2. Mock\n3. Mock\n4. Mock`,
+      hashtags: ['#mock', '#test', '#youtube'],
+      seoKeywords: Array.from({ length: 10 }, (_, i) => `${language} keyword ${i + 1}`),
+      pinnedComment: `[${language}] Thanks for watching! (mock pinned comment)`
+    };
+  },
+  thumbnailCopy: () => ({
+    copySuggestions: {
+      type1: ['모두가 놓친 그 변화', '지금 알아야 할 진실', '당신의 지갑이 달라진다'],
+      type2: ['충격 반전', '이것만 알면 된다', '3분 요약']
+    },
+    imagePrompt: 'Mock thumbnail: dramatic close-up of a surprised person in Seoul at night'
+  })
+};
+
+// Fallback for tasks without canned output: a structurally valid value derived from the schema.
+const sampleFromSchema = (schema: ResponseSchema, key = 'value'): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([name, child]) => [name, sampleFromSchema(child, name)])
+      );
+    case 'array':
+      return schema.items ? [1, 2, 3].map(() => sampleFromSchema(schema.items!, key)) : [];
+    case 'integer':
+    case 'number':
+      return 1;
+    case 'boolean':
+      return true;
+    default:
+      return schema.enum?.[0] ?? `모의 ${key}`;
+  }
+};
+
+const renderPlaceholder = (prompt: string, aspectRatio: AspectRatio, referenceCount = 0): string => {
+  const [width, height] = IMAGE_SIZES[aspectRatio];
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+
+  // Derived from the prompt alone, so the same request always draws the same image.
+  const hue = hashString(prompt) % 360;
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 55%, 35%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 55%, 18%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.font = `bold ${Math.round(width / 16)}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.fillText('MOCK IMAGE', width / 2, height / 2);
+  ctx.font = `${Math.round(width / 48)}px sans-serif`;
+  ctx.fillText(prompt.length > 80 ? `${prompt.slice(0, 80)}…` : prompt, width / 2, height / 2 + width / 20);
+  if (referenceCount > 0) {
+    ctx.fillText(`참조 이미지 ${referenceCount}장 사용`, width / 2, height / 2 + width / 12);
+  }
+
+  return canvas.toDataURL('image/png');
+};
+
+// A quiet tone lasting as long as the text would take to read, so durations and timing behave realistically.
+const renderTone = (text: string, speed: number): string => {
+  const samples = Math.round(Math.max(1, estimateSeconds(text) / speed) * MOCK_SAMPLE_RATE);
+  const pcm = new DataView(new ArrayBuffer(samples * 2));
+  const frequency = 180 + hashString(text) % 240;
+  for (let i = 0; i < samples; i++) {
+    pcm.setInt16(i * 2, Math.round(Math.sin(2 * Math.PI * frequency * i / MOCK_SAMPLE_RATE) * 1500), true);
+  }
+  return bytesToBase64(new Uint8Array(pcm.buffer));
+};
+
+export const createMockProvider = (): AIProvider => ({
+  id: AIProviderId.MOCK,
+
+  async generateText({ task, prompt, signal }) {
+    await sleep(MOCK_LATENCY_MS, signal);
+    const text = `[모의 ${task} 응답] ${prompt.slice(0, 200)}`;
+    recordUsage(task, prompt, text, signal);
+    return text;
+  },
+
+  async generateJSON<T>(request: JSONRequest) {
+    await sleep(MOCK_LATENCY_MS, request.signal);
+    const canned = CANNED_JSON[request.task];
+    const data = canned ? canned(request) : sampleFromSchema(request.schema);
+    recordUsage(request.task, request.prompt, JSON.stringify(data), request.signal);
+    return data as T;
+  },
+
+  async generateGrounded({ task, prompt, signal }) {
+    await sleep(MOCK_LATENCY_MS, signal);
+    const result = {
+      text: `## 모의 조사 보고서 (${task})\n\n오프라인 모의 공급자가 생성한 보고서입니다. 실제 사실 확인 없이 UI 개발과 시연 용도로만 사용하세요.\n\n- 핵심 사실 1\n- 핵심 사실 2\n- 핵심 사실 3`,
+      sources: [
+        { title: '모의 출처 A', uri: 'https://example.com/a' },
+        { title: '모의 출처 B', uri: 'https://example.com/b' }
+      ],
+      supports: [
+        { text: '- 핵심 사실 1', sourceIndices: [0] },
+        { text: '- 핵심 사실 2', sourceIndices: [0, 1] }
+      ]
+    };
+    recordUsage(task, prompt, result.text, signal);
+    return result;
+  },
+
+  async generateImage({ task, prompt, aspectRatio = '16:9', references = [], signal }) {
+    await sleep(MOCK_LATENCY_MS, signal);
+    recordUsage(task, prompt, '', signal, 1);
+    return renderPlaceholder(prompt, aspectRatio, references.length);
+  },
+
+  async generateSpeech({ task, text, speed = 1, signal }) {
+    await sleep(MOCK_LATENCY_MS, signal);
+    recordUsage(task, text, '', signal);
+    return { pcm: renderTone(text, speed), sampleRate: MOCK_SAMPLE_RATE };
+  }
+});
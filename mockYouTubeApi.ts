@@ -0,0 +1,164 @@
+import { Transport } from "./youtubeApi";
+import { sleep } from "./taskQueue";
+
+// An in-memory stand-in for the YouTube Data API endpoints the publish step calls. It checks the
+// same limits YouTube enforces, and fails the first chunk of every upload once so the resume path runs.
+
+export const MOCK_YOUTUBE_BASE = 'https://youtube.mock.local';
+export const MOCK_ACCESS_TOKEN = 'mock-access-token';
+
+const MOCK_LATENCY_MS = 300;
+const MAX_THUMBNAIL_BYTES = 2 * 1024 * 1024;
+
+interface MockVideo {
+  id: string;
+  snippet: Record<string, unknown>;
+  status: Record<string, unknown>;
+  size: number;
+  thumbnail?: number;
+  captions: string[];
+  comments: string[];
+}
+
+interface MockSession {
+  resource: { snippet: Record<string, unknown>; status: Record<string, unknown> };
+  total: number;
+  received: number;
+  failedOnce: boolean;
+}
+
+const sessions = new Map<string, MockSession>();
+const videos = new Map<string, MockVideo>();
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+const apiError = (status: number, reason: string, message: string) =>
+  json(status, { error: { code: status, message, errors: [{ reason, message }] } });
+
+const randomId = (length: number) => {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+  return Array.from(crypto.getRandomValues(new Uint8Array(length)), byte => alphabet[byte % alphabet.length]).join('');
+};
+
+const header = (init: RequestInit, name: string) => new Headers(init.headers).get(name) || '';
+
+const bodyText = async (init: RequestInit) => typeof init.body === 'string' ? init.body : await new Response(init.body).text();
+
+const bodySize = (init: RequestInit) => init.body instanceof Blob ? init.body.size : 0;
+
+// Returns the error response for a resource YouTube would reject, or undefined when it's acceptable.
+const validateVideo = (resource: MockSession['resource']): Response | undefined => {
+  const title = String(resource.snippet?.title ?? '');
+  const description = String(resource.snippet?.description ?? '');
+  const tags = (resource.snippet?.tags as string[] | undefined) || [];
+  if (!title.trim() || [...title].length > 100 || /[<>]/.test(title)) {
+    return apiError(400, 'invalidTitle', 'The request metadata specifies an invalid video title.');
+  }
+  if (new TextEncoder().encode(description).length > 5000 || /[<>]/.test(description)) {
+    return apiError(400, 'invalidDescription', 'The request metadata specifies an invalid video description.');
+  }
+  if (tags.reduce((sum, tag) => sum + tag.length + (tag.includes(' ') ? 2 : 0), 0) + Math.max(0, tags.length - 1) > 500) {
+    return apiError(400, 'invalidTags', 'The request metadata specifies invalid video keywords.');
+  }
+  const publishAt = resource.status?.publishAt as string | undefined;
+  if (publishAt && (resource.status.privacyStatus !== 'private' || !(Date.parse(publishAt) > Date.now()))) {
+    return apiError(400, 'invalidPublishAt', 'The request metadata specifies an invalid scheduled publishing time.');
+  }
+  return undefined;
+};
+
+const startUpload = async (init: RequestInit) => {
+  const resource = JSON.parse(await bodyText(init));
+  const invalid = validateVideo(resource);
+  if (invalid) return invalid;
+  const total = Number(header(init, 'X-Upload-Content-Length'));
+  if (!(total > 0)) return apiError(400, 'badContent', 'The upload has no content.');
+  const uploadId = randomId(24);
+  sessions.set(uploadId, { resource, total, received: 0, failedOnce: false });
+  return json(200, {}, { Location: `${MOCK_YOUTUBE_BASE}/upload/youtube/v3/videos?uploadType=resumable&upload_id=${uploadId}` });
+};
+
+const incomplete = (session: MockSession) =>
+  new Response(null, { status: 308, headers: session.received ? { Range: `bytes=0-${session.received - 1}` } : {} });
+
+const receiveChunk = (uploadId: string, init: RequestInit) => {
+  const session = sessions.get(uploadId);
+  if (!session) return apiError(404, 'notFound', 'The upload session does not exist.');
+  const range = header(init, 'Content-Range');
+  if (range === `bytes */${session.total}`) return incomplete(session);
+
+  const match = range.match(/^bytes (\d+)-(\d+)\/(\d+)$/);
+  if (!match || Number(match[3]) !== session.total) return apiError(400, 'badContent', `Invalid Content-Range: ${range}`);
+  const [start, end] = [Number(match[1]), Number(match[2])];
+  if (start !== session.received || bodySize(init) !== end - start + 1) {
+    return apiError(400, 'badContent', 'The chunk does not continue the upload.');
+  }
+  if (!session.failedOnce) {
+    session.failedOnce = true;
+    return apiError(503, 'backendError', 'Simulated transient failure.');
+  }
+  session.received = end + 1;
+  if (session.received < session.total) return incomplete(session);
+
+  sessions.delete(uploadId);
+  const video: MockVideo = { id: randomId(11), ...session.resource, size: session.total, captions: [], comments: [] };
+  videos.set(video.id, video);
+  return json(200, { kind: 'youtube#video', id: video.id, snippet: video.snippet, status: video.status });
+};
+
+const setThumbnail = (videoId: string, init: RequestInit) => {
+  const video = videos.get(videoId);
+  if (!video) return apiError(404, 'videoNotFound', 'The video that you are trying to update cannot be found.');
+  if (!/^image\/(jpeg|png)$/.test(header(init, 'Content-Type'))) {
+    return apiError(400, 'invalidImage', 'The provided image content is invalid.');
+  }
+  if (bodySize(init) > MAX_THUMBNAIL_BYTES) {
+    return apiError(400, 'mediaBodyTooLarge', 'The thumbnail is larger than 2 MB.');
+  }
+  video.thumbnail = bodySize(init);
+  return json(200, { kind: 'youtube#thumbnailSetResponse', items: [] });
+};
+
+const insertCaption = async (init: RequestInit) => {
+  const boundary = header(init, 'Content-Type').match(/^multipart\/related; boundary=(.+)$/)?.[1];
+  if (!boundary) return apiError(400, 'badContent', 'Expected a multipart/related body.');
+  const [metadata, srt] = (await bodyText(init)).split(`--${boundary}`).slice(1, 3).map(part => part.split('\r\n\r\n').slice(1).join('\r\n\r\n').trim());
+  const snippet = JSON.parse(metadata || '{}').snippet;
+  const video = videos.get(snippet?.videoId);
+  if (!video) return apiError(404, 'videoNotFound', 'The video identified by the videoId parameter could not be found.');
+  if (!srt || !/-->/.test(srt)) return apiError(400, 'invalidMetadata', 'The caption track is empty or not in a supported format.');
+  video.captions.push(srt);
+  return json(200, { kind: 'youtube#caption', id: randomId(16), snippet });
+};
+
+const insertComment = async (init: RequestInit) => {
+  const snippet = JSON.parse(await bodyText(init)).snippet;
+  const video = videos.get(snippet?.videoId);
+  if (!video) return apiError(404, 'videoNotFound', 'The specified video could not be found.');
+  const text = String(snippet.topLevelComment?.snippet?.textOriginal ?? '');
+  if (!text.trim() || text.length > 10000) return apiError(400, 'commentTextInvalid', 'The comment text is empty or too long.');
+  video.comments.push(text);
+  return json(200, { kind: 'youtube#commentThread', id: randomId(26), snippet });
+};
+
+export const mockYouTubeTransport: Transport = async (url, init) => {
+  await sleep(MOCK_LATENCY_MS, init.signal || undefined);
+  if (header(init, 'Authorization') !== `Bearer ${MOCK_ACCESS_TOKEN}`) {
+    return apiError(401, 'authError', 'Invalid Credentials');
+  }
+  const { pathname, searchParams } = new URL(url);
+  const method = init.method || 'GET';
+
+  if (pathname === '/upload/youtube/v3/videos') {
+    const uploadId = searchParams.get('upload_id');
+    if (method === 'POST' && !uploadId) return startUpload(init);
+    if (method === 'PUT' && uploadId) return receiveChunk(uploadId, init);
+  }
+  if (method === 'POST' && pathname === '/upload/youtube/v3/thumbnails/set') {
+    return setThumbnail(searchParams.get('videoId') || '', init);
+  }
+  if (method === 'POST' && pathname === '/upload/youtube/v3/captions') return insertCaption(init);
+  if (method === 'POST' && pathname === '/youtube/v3/commentThreads') return insertComment(init);
+  return apiError(404, 'notFound', `${method} ${pathname} is not mocked.`);
+};
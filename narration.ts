@@ -0,0 +1,26 @@
+import { NarrationOptions, ParagraphItem } from "./types";
+
+// Gemini prebuilt voices; every voice speaks all supported output languages.
+export const NARRATION_VOICES: { id: string; label: string }[] = [
+  { id: 'Kore', label: 'Kore · 단단한 여성' },
+  { id: 'Aoede', label: 'Aoede · 산뜻한 여성' },
+  { id: 'Leda', label: 'Leda · 젊은 여성' },
+  { id: 'Zephyr', label: 'Zephyr · 밝은 여성' },
+  { id: 'Charon', label: 'Charon · 정보 전달형 남성' },
+  { id: 'Orus', label: 'Orus · 단단한 남성' },
+  { id: 'Puck', label: 'Puck · 경쾌한 남성' },
+  { id: 'Fenrir', label: 'Fenrir · 열정적인 남성' }
+];
+
+export const MIN_NARRATION_SPEED = 0.8;
+export const MAX_NARRATION_SPEED = 1.3;
+export const NARRATION_CONCURRENCY = 2;
+
+export const DEFAULT_NARRATION: NarrationOptions = { voice: 'Kore', speed: 1 };
+
+export const isAudioStale = (paragraph: ParagraphItem): boolean =>
+  !!paragraph.audioUrl && paragraph.audioText !== undefined && paragraph.audioText !== paragraph.content;
+
+export const narrationFileName = (index: number) => `scene_${String(index + 1).padStart(2, '0')}.wav`;
+
+export const restoreNarration = (state: { narration?: NarrationOptions }): NarrationOptions => state.narration || DEFAULT_NARRATION;
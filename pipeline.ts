@@ -0,0 +1,111 @@
+import { AIErrorKind, AppStep, PersistedState, PipelineStep, PipelineSteps, StepState, StepStatus } from "./types";
+
+// Execution order; a resume walks this list and runs every step that isn't done.
+export const PIPELINE_ORDER: PipelineStep[] = [
+  AppStep.RESEARCH,
+  AppStep.SCRIPT,
+  AppStep.METADATA,
+  AppStep.THUMBNAIL,
+  AppStep.IMAGES,
+  AppStep.AUDIO
+];
+
+export const STEP_DEPENDENCIES: Record<PipelineStep, PipelineStep[]> = {
+  [AppStep.RESEARCH]: [],
+  [AppStep.SCRIPT]: [AppStep.RESEARCH],
+  [AppStep.METADATA]: [AppStep.SCRIPT],
+  [AppStep.THUMBNAIL]: [AppStep.SCRIPT],
+  [AppStep.IMAGES]: [AppStep.SCRIPT],
+  [AppStep.AUDIO]: [AppStep.SCRIPT]
+};
+
+export const STEP_LABELS: Record<PipelineStep, string> = {
+  [AppStep.RESEARCH]: '조사',
+  [AppStep.SCRIPT]: '대본',
+  [AppStep.METADATA]: '메타데이터',
+  [AppStep.THUMBNAIL]: '썸네일',
+  [AppStep.IMAGES]: '장면 이미지',
+  [AppStep.AUDIO]: '내레이션'
+};
+
+export const isPipelineStep = (step: AppStep): step is PipelineStep =>
+  (PIPELINE_ORDER as AppStep[]).includes(step);
+
+export const createInitialSteps = (): PipelineSteps =>
+  PIPELINE_ORDER.reduce((acc, step) => {
+    acc[step] = { status: StepStatus.PENDING };
+    return acc;
+  }, {} as PipelineSteps);
+
+export const downstreamOf = (step: PipelineStep): PipelineStep[] => {
+  const result = new Set<PipelineStep>();
+  const visit = (current: PipelineStep) => {
+    PIPELINE_ORDER.forEach(candidate => {
+      if (STEP_DEPENDENCIES[candidate].includes(current) && !result.has(candidate)) {
+        result.add(candidate);
+        visit(candidate);
+      }
+    });
+  };
+  visit(step);
+  return PIPELINE_ORDER.filter(candidate => result.has(candidate));
+};
+
+export const setStepStatus = (
+  steps: PipelineSteps,
+  step: PipelineStep,
+  status: StepStatus,
+  error?: string,
+  errorKind?: AIErrorKind
+): PipelineSteps => ({
+  ...steps,
+  [step]: { status, error, errorKind, updatedAt: Date.now() } as StepState
+});
+
+// Steps that already produced output become stale when something upstream of them changes.
+export const markDownstreamStale = (steps: PipelineSteps, changed: PipelineStep): PipelineSteps => {
+  const next = { ...steps };
+  downstreamOf(changed).forEach(step => {
+    if (next[step].status === StepStatus.DONE) {
+      next[step] = { ...next[step], status: StepStatus.STALE };
+    }
+  });
+  return next;
+};
+
+export const completeStep = (steps: PipelineSteps, step: PipelineStep): PipelineSteps =>
+  markDownstreamStale(setStepStatus(steps, step, StepStatus.DONE), step);
+
+export const hasOutput = (status: StepStatus) =>
+  status === StepStatus.DONE || status === StepStatus.STALE;
+
+export const canRunStep = (steps: PipelineSteps, step: PipelineStep): boolean =>
+  STEP_DEPENDENCIES[step].every(dep => hasOutput(steps[dep].status));
+
+export const stepsToResume = (steps: PipelineSteps): PipelineStep[] =>
+  PIPELINE_ORDER.filter(step => steps[step].status !== StepStatus.DONE);
+
+// Projects saved before step tracking existed carry no `steps`; infer them from the outputs present.
+export const restoreSteps = (state: Omit<PersistedState, 'steps'> & { steps?: PipelineSteps }): PipelineSteps => {
+  const steps = state.steps ? { ...createInitialSteps(), ...state.steps } : createInitialSteps();
+  if (!state.steps) {
+    const outputs: Record<PipelineStep, boolean> = {
+      [AppStep.RESEARCH]: !!state.research,
+      [AppStep.SCRIPT]: !!state.script,
+      [AppStep.METADATA]: !!state.metadata,
+      [AppStep.THUMBNAIL]: !!state.thumbnail,
+      [AppStep.IMAGES]: !!state.script?.paragraphs.every(p => p.imageUrl),
+      [AppStep.AUDIO]: !!state.script?.paragraphs.every(p => p.audioUrl)
+    };
+    PIPELINE_ORDER.forEach(step => {
+      if (outputs[step]) steps[step] = { status: StepStatus.DONE };
+    });
+  }
+  // A step still marked running was interrupted by a reload or a closed tab.
+  PIPELINE_ORDER.forEach(step => {
+    if (steps[step].status === StepStatus.RUNNING) {
+      steps[step] = { status: StepStatus.FAILED, error: '작업이 중단되었습니다.' };
+    }
+  });
+  return steps;
+};
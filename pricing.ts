@@ -0,0 +1,23 @@
+import { ModelPrice } from "./types";
+import { TokenUsage } from "./aiProvider";
+
+// Public list prices in USD at the time of writing; editable in settings when they change.
+// Gemini bills generated images and speech as output tokens, so those models need no per-image price.
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-3-pro-preview': { inputPerMillion: 2, outputPerMillion: 12, perImage: 0 },
+  'gemini-3-flash-preview': { inputPerMillion: 0.5, outputPerMillion: 3, perImage: 0 },
+  'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 30, perImage: 0 },
+  'gemini-2.5-flash-preview-tts': { inputPerMillion: 0.5, outputPerMillion: 10, perImage: 0 },
+  // Free by default; give it a price to try out the budget limit offline.
+  mock: { inputPerMillion: 0, outputPerMillion: 0, perImage: 0 }
+};
+
+export const priceUsage = (usage: TokenUsage, prices: Record<string, ModelPrice>): number => {
+  const price = prices[usage.model];
+  if (!price) return 0;
+  return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000
+    + usage.images * price.perImage;
+};
+
+export const formatCost = (usd: number): string =>
+  `$${usd < 0.01 && usd > 0 ? usd.toFixed(4) : usd.toFixed(2)}`;
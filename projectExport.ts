@@ -0,0 +1,148 @@
+import JSZip from "jszip";
+import { AppState, SubtitleOptions } from "./types";
+import { buildSubtitleCues, formatSrt, formatVtt } from "./subtitles";
+import { buildCitationList } from "./factCheck";
+import { paragraphDurations } from "./timing";
+import { isAudioStale, narrationFileName } from "./narration";
+import { concatWavDataUrls } from "./audio";
+import { fullDescription } from "./chapters";
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp'
+};
+
+const parseDataUrl = (dataUrl: string) => {
+  const match = dataUrl.match(/^data:([^;,]+)(;base64)?,(.*)$/s);
+  if (!match) return null;
+  return { mimeType: match[1], isBase64: !!match[2], data: match[3] };
+};
+
+export const sceneFileName = (index: number, dataUrl?: string) => {
+  const ext = (dataUrl && MIME_EXTENSIONS[parseDataUrl(dataUrl)?.mimeType || '']) || 'png';
+  return `scene_${String(index + 1).padStart(2, '0')}.${ext}`;
+};
+
+const addDataUrl = (zip: JSZip, path: string, dataUrl: string) => {
+  const parsed = parseDataUrl(dataUrl);
+  if (!parsed) return;
+  zip.file(path, parsed.isBase64 ? parsed.data : decodeURIComponent(parsed.data), { base64: parsed.isBase64 });
+};
+
+const slugify = (text: string) =>
+  text.trim().split('\n')[0].replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '_').slice(0, 40) || 'project';
+
+export const exportFileName = (state: AppState, suffix = '', extension = 'zip') =>
+  `${slugify(state.topic)}${suffix}_${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+// One continuous track, only when every paragraph has up-to-date audio.
+export const buildNarrationWav = (state: AppState): Blob | null => {
+  const paragraphs = state.script?.paragraphs || [];
+  if (!paragraphs.length || paragraphs.some(p => !p.audioUrl || isAudioStale(p))) return null;
+  return concatWavDataUrls(paragraphs.map(p => p.audioUrl!));
+};
+
+export const buildDescription = (state: AppState, charsPerSecond: number) => {
+  const metadata = state.metadata;
+  if (!metadata) return '';
+  const description = fullDescription(metadata, state.script?.paragraphs || [], state.format || 'long', charsPerSecond);
+  return [description, '', metadata.hashtags?.join(' ') || ''].join('\n').trim() + '\n';
+};
+
+const buildResearchReport = (state: AppState) => {
+  const research = state.research;
+  if (!research) return '';
+  const sources = research.sources.map((source, i) =>
+    source.kind === 'document' ? `${i + 1}. ${source.title} (첨부 자료)` : `${i + 1}. ${source.title} - ${source.uri}`
+  ).join('\n');
+  const cite = (indices: number[]) => indices.map(index => `[${index + 1}]`).join('');
+  const structured = research.structured;
+  const body = structured ? [
+    '## 요약', structured.summary,
+    '', '## 핵심 사실', ...structured.keyFacts.map(f => `- ${f.required ? '(필수) ' : ''}${f.text} ${cite(f.sourceIndices)}`),
+    '', '## 타임라인', ...structured.timeline.map(t => `- ${t.date}: ${t.event} ${cite(t.sourceIndices)}`),
+    '', '## 주요 인물·기관', ...structured.stakeholders.map(s => `- ${s.name}: ${s.role} ${cite(s.sourceIndices)}`),
+    '', '## 확인이 필요한 쟁점', ...structured.openQuestions.map(q => `- ${q.question} ${cite(q.sourceIndices)}`),
+    '', '## 보고서 원문', research.report
+  ].join('\n') : research.report;
+  return `${body}\n\n## 출처\n${sources}\n`;
+};
+
+export const buildImagesZip = async (state: AppState): Promise<Blob> => {
+  const zip = new JSZip();
+  state.script?.paragraphs.forEach((p, idx) => {
+    if (p.imageUrl) addDataUrl(zip, sceneFileName(idx, p.imageUrl), p.imageUrl);
+  });
+  return zip.generateAsync({ type: 'blob' });
+};
+
+// Everything an editor needs for one video, in a single archive.
+export const buildProjectZip = async (state: AppState, subtitleOptions: SubtitleOptions): Promise<Blob> => {
+  const zip = new JSZip();
+  const script = state.script;
+
+  if (script) {
+    script.paragraphs.forEach((p, idx) => {
+      if (p.imageUrl) addDataUrl(zip, sceneFileName(idx, p.imageUrl), p.imageUrl);
+      if (p.audioUrl && !isAudioStale(p)) addDataUrl(zip, `audio/${narrationFileName(idx)}`, p.audioUrl);
+    });
+    const narration = buildNarrationWav(state);
+    if (narration) zip.file('narration.wav', narration);
+    zip.file('script_raw.txt', script.rawScript);
+    zip.file('script_tts.txt', script.ttsScript);
+
+    const cues = buildSubtitleCues(script.paragraphs, subtitleOptions);
+    zip.file('subtitles.srt', formatSrt(cues));
+    zip.file('subtitles.vtt', formatVtt(cues));
+  }
+
+  if (state.thumbnail?.pureImageUrl) {
+    addDataUrl(zip, 'thumbnail_bg.png', state.thumbnail.pureImageUrl);
+  }
+  if (state.thumbnail?.mockupImageUrl) {
+    addDataUrl(zip, 'thumbnail.jpg', state.thumbnail.mockupImageUrl);
+  }
+  if (state.thumbnail) {
+    zip.file('thumbnail_copy.txt', [
+      '[형태 1]', ...(state.thumbnail.copySuggestions?.type1 || []),
+      '', '[형태 2]', ...(state.thumbnail.copySuggestions?.type2 || [])
+    ].join('\n'));
+  }
+
+  if (state.metadata) {
+    zip.file('metadata.json', JSON.stringify(state.metadata, null, 2));
+    zip.file('description.txt', buildDescription(state, subtitleOptions.charsPerSecond));
+  }
+  if (state.localizedMetadata && Object.keys(state.localizedMetadata).length) {
+    zip.file('metadata_localized.json', JSON.stringify(state.localizedMetadata, null, 2));
+  }
+
+  if (state.research) {
+    zip.file('research.md', buildResearchReport(state));
+    const citations = state.factCheck ? buildCitationList(state.research, state.factCheck.claims) : '';
+    if (citations) zip.file('citations.txt', citations);
+  }
+
+  const durations = paragraphDurations(script?.paragraphs || [], subtitleOptions.charsPerSecond);
+  zip.file('manifest.json', JSON.stringify({
+    topic: state.topic,
+    target: state.target,
+    format: state.format || 'long',
+    channel: state.channel?.name,
+    exportedAt: new Date().toISOString(),
+    scenes: script?.paragraphs.map((p, idx) => ({
+      scene: idx + 1,
+      image: p.imageUrl ? sceneFileName(idx, p.imageUrl) : null,
+      audio: p.audioUrl && !isAudioStale(p) ? `audio/${narrationFileName(idx)}` : null,
+      duration: Math.round(durations[idx] * 100) / 100,
+      text: p.content,
+      caption: p.caption,
+      imagePrompt: p.imagePrompt
+    })) || [],
+    thumbnail: state.thumbnail?.mockupImageUrl ? 'thumbnail.jpg' : null,
+    thumbnailBackground: state.thumbnail?.pureImageUrl ? 'thumbnail_bg.png' : null
+  }, null, 2));
+
+  return zip.generateAsync({ type: 'blob' });
+};
@@ -0,0 +1,45 @@
+import { AppState, AppStep, ProjectRecord } from "./types";
+import { createInitialSteps, restoreSteps } from "./pipeline";
+import { DEFAULT_SCRIPT_TARGET, restoreTarget } from "./scriptLength";
+import { DEFAULT_SCENE_PACING, restorePacing } from "./scenePacing";
+import { DEFAULT_CHANNEL_PROFILE, restoreChannel } from "./channelProfiles";
+import { DEFAULT_LANGUAGE, restoreLanguage } from "./languages";
+import { DEFAULT_NARRATION, restoreNarration } from "./narration";
+import { restoreFormat } from "./shorts";
+
+// Per-project choices that carry over when a new project is started.
+export type ProjectPreferences = Pick<AppState, 'target' | 'pacing' | 'channel' | 'language' | 'format' | 'narration'>;
+
+export const DEFAULT_PREFERENCES: ProjectPreferences = {
+  target: DEFAULT_SCRIPT_TARGET,
+  pacing: DEFAULT_SCENE_PACING,
+  channel: DEFAULT_CHANNEL_PROFILE,
+  language: DEFAULT_LANGUAGE,
+  format: 'long',
+  narration: DEFAULT_NARRATION
+};
+
+export const createInitialState = (preferences: ProjectPreferences = DEFAULT_PREFERENCES): AppState => ({
+  currentStep: AppStep.INPUT,
+  topic: '',
+  ...preferences,
+  steps: createInitialSteps(),
+  isProcessing: false
+});
+
+// Views that aren't about one project are never restored; the project opens on its input view instead.
+const PROJECT_INDEPENDENT_STEPS = [AppStep.LIBRARY, AppStep.BATCH];
+
+export const restoreProjectState = (record: ProjectRecord): AppState => ({
+  ...record.state,
+  projectId: record.id,
+  currentStep: PROJECT_INDEPENDENT_STEPS.includes(record.state.currentStep) ? AppStep.INPUT : record.state.currentStep,
+  target: restoreTarget(record.state),
+  pacing: restorePacing(record.state),
+  channel: restoreChannel(record.state),
+  language: restoreLanguage(record.state),
+  format: restoreFormat(record.state),
+  narration: restoreNarration(record.state),
+  steps: restoreSteps(record.state),
+  isProcessing: false
+});
@@ -0,0 +1,154 @@
+import { AppState, PersistedState, ProjectRecord, ProjectSummary } from "./types";
+import { sumUsage } from "./usage";
+
+const DB_NAME = 'creator-toolkit';
+const DB_VERSION = 1;
+const SUMMARY_STORE = 'projects';
+const STATE_STORE = 'projectStates';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        // Summaries are kept apart from the full state so listing never loads base64 images.
+        if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+          db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STATE_STORE)) {
+          db.createObjectStore(STATE_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const createProjectId = (): string => crypto.randomUUID();
+
+export const defaultProjectName = (topic: string): string => {
+  const firstLine = topic.trim().split('\n')[0] || '제목 없는 프로젝트';
+  return firstLine.length > 40 ? `${firstLine.slice(0, 40)}…` : firstLine;
+};
+
+export const toPersistedState = (state: AppState): PersistedState => {
+  const { projectId, isProcessing, ...rest } = state;
+  if (!rest.script) return rest;
+  return {
+    ...rest,
+    script: {
+      ...rest.script,
+      paragraphs: rest.script.paragraphs.map(({ isGenerating, isRewriting, isSynthesizing, ...p }) => p)
+    }
+  };
+};
+
+const buildSummary = (
+  id: string,
+  state: PersistedState,
+  existing?: ProjectSummary
+): ProjectSummary => {
+  const now = Date.now();
+  return {
+    id,
+    name: existing?.name || defaultProjectName(state.topic),
+    topic: state.topic,
+    target: state.target,
+    format: state.format,
+    charCount: state.script?.ttsScript.length || 0,
+    sceneCount: state.script?.paragraphs.length || 0,
+    cost: sumUsage(state.usage || []).cost,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now
+  };
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDB();
+  const tx = db.transaction(SUMMARY_STORE, 'readonly');
+  const summaries = await requestToPromise<ProjectSummary[]>(tx.objectStore(SUMMARY_STORE).getAll());
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<ProjectRecord | undefined> => {
+  const db = await openDB();
+  const tx = db.transaction([SUMMARY_STORE, STATE_STORE], 'readonly');
+  const [summary, state] = await Promise.all([
+    requestToPromise<ProjectSummary | undefined>(tx.objectStore(SUMMARY_STORE).get(id)),
+    requestToPromise<PersistedState | undefined>(tx.objectStore(STATE_STORE).get(id))
+  ]);
+  if (!summary || !state) return undefined;
+  return { ...summary, state };
+};
+
+export const saveProject = async (id: string, state: AppState): Promise<ProjectSummary> => {
+  const db = await openDB();
+  const tx = db.transaction([SUMMARY_STORE, STATE_STORE], 'readwrite');
+  const summaryStore = tx.objectStore(SUMMARY_STORE);
+  const existing = await requestToPromise<ProjectSummary | undefined>(summaryStore.get(id));
+  const persisted = toPersistedState(state);
+  const summary = buildSummary(id, persisted, existing);
+  summaryStore.put(summary);
+  tx.objectStore(STATE_STORE).put(persisted, id);
+  await transactionDone(tx);
+  return summary;
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(SUMMARY_STORE, 'readwrite');
+  const store = tx.objectStore(SUMMARY_STORE);
+  const existing = await requestToPromise<ProjectSummary | undefined>(store.get(id));
+  if (!existing) throw new Error(`Project ${id} not found`);
+  store.put({ ...existing, name: name.trim() || existing.name, updatedAt: Date.now() });
+  await transactionDone(tx);
+};
+
+export const duplicateProject = async (id: string): Promise<ProjectSummary> => {
+  const record = await loadProject(id);
+  if (!record) throw new Error(`Project ${id} not found`);
+  const { state, ...source } = record;
+  const now = Date.now();
+  const summary: ProjectSummary = {
+    ...source,
+    id: createProjectId(),
+    name: `${source.name} (사본)`,
+    createdAt: now,
+    updatedAt: now
+  };
+  const db = await openDB();
+  const tx = db.transaction([SUMMARY_STORE, STATE_STORE], 'readwrite');
+  tx.objectStore(SUMMARY_STORE).put(summary);
+  tx.objectStore(STATE_STORE).put(state, summary.id);
+  await transactionDone(tx);
+  return summary;
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction([SUMMARY_STORE, STATE_STORE], 'readwrite');
+  tx.objectStore(SUMMARY_STORE).delete(id);
+  tx.objectStore(STATE_STORE).delete(id);
+  await transactionDone(tx);
+};
@@ -0,0 +1,90 @@
+import { ResponseSchema } from "./aiProvider";
+import { AIError } from "./aiErrors";
+
+// Attempts after the first; each one tells the model what was wrong with the previous answer.
+export const MAX_REPAIR_ATTEMPTS = 2;
+const MAX_REPORTED_PROBLEMS = 8;
+
+const describeType = (value: unknown) => Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+
+const collectProblems = (value: unknown, schema: ResponseSchema, path: string, problems: string[]) => {
+  if (problems.length >= MAX_REPORTED_PROBLEMS) return;
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        problems.push(`${path}: object가 필요하지만 ${describeType(value)}입니다.`);
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      schema.required?.forEach(key => {
+        if (record[key] === undefined || record[key] === null) problems.push(`${path}.${key}: 필수 필드가 없습니다.`);
+      });
+      Object.entries(schema.properties || {}).forEach(([key, property]) => {
+        if (record[key] !== undefined && record[key] !== null) collectProblems(record[key], property, `${path}.${key}`, problems);
+      });
+      return;
+    }
+    case 'array':
+      if (!Array.isArray(value)) {
+        problems.push(`${path}: array가 필요하지만 ${describeType(value)}입니다.`);
+        return;
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        problems.push(`${path}: 항목이 ${schema.minItems}개 이상 필요하지만 ${value.length}개입니다.`);
+      }
+      if (schema.items) value.forEach((item, i) => collectProblems(item, schema.items!, `${path}[${i}]`, problems));
+      return;
+    case 'string':
+      if (typeof value !== 'string') problems.push(`${path}: string이 필요하지만 ${describeType(value)}입니다.`);
+      else if (schema.enum && !schema.enum.includes(value)) problems.push(`${path}: ${schema.enum.join(', ')} 중 하나여야 합니다.`);
+      return;
+    case 'integer':
+      if (!Number.isInteger(value)) problems.push(`${path}: 정수가 필요합니다.`);
+      return;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) problems.push(`${path}: 숫자가 필요합니다.`);
+      return;
+    case 'boolean':
+      if (typeof value !== 'boolean') problems.push(`${path}: boolean이 필요합니다.`);
+      return;
+  }
+};
+
+// Empty when `value` matches the schema; otherwise one line per problem, phrased for the repair prompt.
+export const validateResponse = (value: unknown, schema: ResponseSchema): string[] => {
+  const problems: string[] = [];
+  collectProblems(value, schema, '$', problems);
+  return problems;
+};
+
+const repairPrompt = (prompt: string, problems: string[]) => `${prompt}
+
+[이전 응답 오류]
+직전 응답을 사용할 수 없었습니다. 아래 문제를 고쳐 처음부터 완전한 응답을 다시 작성해. 응답 스키마가 있다면 스키마에 맞는 JSON만 출력해.
+${problems.map(problem => `- ${problem}`).join('\n')}`;
+
+// Calls `request` until its result passes `problemsOf`. Unparseable output (a SyntaxError, usually a
+// truncated response) counts as a problem too; any other error is passed through untouched.
+export const requestWithRepair = async <T>(
+  prompt: string,
+  request: (prompt: string) => Promise<T>,
+  problemsOf: (result: T) => string[]
+): Promise<T> => {
+  let current = prompt;
+  for (let attempt = 0; ; attempt++) {
+    let problems: string[];
+    try {
+      const result = await request(current);
+      problems = problemsOf(result);
+      if (!problems.length) return result;
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) throw error;
+      problems = ['JSON 형식이 올바르지 않거나 응답이 중간에 잘렸습니다.'];
+    }
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      throw new AIError('malformed', `모델 응답이 형식에 맞지 않습니다. ${problems.slice(0, 3).join(' ')}`);
+    }
+    console.warn(`Model response rejected (attempt ${attempt + 1})`, problems);
+    current = repairPrompt(prompt, problems);
+  }
+};
@@ -0,0 +1,50 @@
+import { ScenePacing, ScriptData, ScriptTarget } from "./types";
+import { mergeWithNext, splitParagraph } from "./scriptEditing";
+import { estimateTargetSeconds } from "./scriptLength";
+
+export const MIN_SCENES = 3;
+export const MAX_SCENES = 80;
+
+export const DEFAULT_SCENE_PACING: ScenePacing = { mode: 'auto', sceneCount: 12, secondsPerScene: 20 };
+
+const clampScenes = (count: number) => Math.min(MAX_SCENES, Math.max(MIN_SCENES, Math.round(count)));
+
+export const resolveSceneCount = (pacing: ScenePacing, target: ScriptTarget, charsPerSecond: number): number =>
+  pacing.mode === 'fixed'
+    ? clampScenes(pacing.sceneCount)
+    : clampScenes(estimateTargetSeconds(target, charsPerSecond) / Math.max(1, pacing.secondsPerScene));
+
+// Splits the longest paragraphs or merges the shortest neighbouring pair until the count matches.
+// Returns the ids whose text changed so their image prompts can be regenerated.
+export const fitParagraphCount = (script: ScriptData, sceneCount: number): { script: ScriptData; changedIds: number[] } => {
+  // Nothing to split or merge; the caller's validation rejects empty scripts.
+  if (!script.paragraphs.length) return { script, changedIds: [] };
+  let current = script;
+  const changed = new Set<number>();
+
+  while (current.paragraphs.length < sceneCount) {
+    const longest = current.paragraphs.reduce((a, b) => b.content.length > a.content.length ? b : a);
+    const result = splitParagraph(current, longest.id);
+    if (!result.changedIds.length) break;
+    result.changedIds.forEach(id => changed.add(id));
+    current = result.script;
+  }
+
+  while (current.paragraphs.length > sceneCount && current.paragraphs.length > 1) {
+    let index = 0;
+    for (let i = 1; i < current.paragraphs.length - 1; i++) {
+      const pairLength = current.paragraphs[i].content.length + current.paragraphs[i + 1].content.length;
+      const bestLength = current.paragraphs[index].content.length + current.paragraphs[index + 1].content.length;
+      if (pairLength < bestLength) index = i;
+    }
+    const removedId = current.paragraphs[index + 1].id;
+    const result = mergeWithNext(current, current.paragraphs[index].id);
+    changed.delete(removedId);
+    result.changedIds.forEach(id => changed.add(id));
+    current = result.script;
+  }
+
+  return { script: current, changedIds: [...changed] };
+};
+
+export const restorePacing = (state: { pacing?: ScenePacing }): ScenePacing => state.pacing || DEFAULT_SCENE_PACING;
@@ -0,0 +1,77 @@
+import { ParagraphItem, ScriptData } from "./types";
+
+// The TTS script is always the narration of the paragraphs in order, so edits never drift apart.
+export const rebuildTtsScript = (paragraphs: ParagraphItem[]): string =>
+  paragraphs.map(p => p.content.trim()).filter(Boolean).join('\n\n');
+
+// Once paragraphs are edited, the model's raw draft no longer matches them, so it follows the paragraphs too.
+const withParagraphs = (script: ScriptData, paragraphs: ParagraphItem[]): ScriptData => {
+  const text = rebuildTtsScript(paragraphs);
+  return { ...script, paragraphs, rawScript: text, ttsScript: text };
+};
+
+export const nextParagraphId = (paragraphs: ParagraphItem[]): number =>
+  paragraphs.reduce((max, p) => Math.max(max, p.id), 0) + 1;
+
+export const updateParagraphContent = (script: ScriptData, id: number, content: string): ScriptData =>
+  withParagraphs(script, script.paragraphs.map(p =>
+    p.id === id ? { ...p, content, imageStale: !!p.imageUrl } : p
+  ));
+
+export const replaceParagraph = (script: ScriptData, id: number, updates: Partial<ParagraphItem>): ScriptData =>
+  withParagraphs(script, script.paragraphs.map(p => p.id === id ? { ...p, ...updates } : p));
+
+// Picks the sentence boundary closest to the middle when no usable cursor position is given.
+const findSplitPoint = (content: string, at?: number): number => {
+  if (at !== undefined && at > 0 && at < content.length) return at;
+  const middle = content.length / 2;
+  let best = -1;
+  const boundary = /[.!?…]["'”’)]*\s+/g;
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(content))) {
+    const end = match.index + match[0].length;
+    if (best < 0 || Math.abs(end - middle) < Math.abs(best - middle)) best = end;
+  }
+  return best > 0 && best < content.length ? best : Math.floor(middle);
+};
+
+// Returns the edited script plus the ids whose text changed (their image prompts need refreshing).
+export const splitParagraph = (script: ScriptData, id: number, at?: number): { script: ScriptData; changedIds: number[] } => {
+  const index = script.paragraphs.findIndex(p => p.id === id);
+  if (index < 0) return { script, changedIds: [] };
+  const original = script.paragraphs[index];
+  const point = findSplitPoint(original.content, at);
+  const first = original.content.slice(0, point).trim();
+  const second = original.content.slice(point).trim();
+  if (!first || !second) return { script, changedIds: [] };
+
+  const newId = nextParagraphId(script.paragraphs);
+  const paragraphs = [...script.paragraphs];
+  paragraphs.splice(index, 1,
+    { ...original, content: first, imageStale: !!original.imageUrl },
+    { id: newId, content: second, imagePrompt: original.imagePrompt }
+  );
+  return { script: withParagraphs(script, paragraphs), changedIds: [original.id, newId] };
+};
+
+export const mergeWithNext = (script: ScriptData, id: number): { script: ScriptData; changedIds: number[] } => {
+  const index = script.paragraphs.findIndex(p => p.id === id);
+  if (index < 0 || index >= script.paragraphs.length - 1) return { script, changedIds: [] };
+  const [current, next] = script.paragraphs.slice(index, index + 2);
+  const paragraphs = [...script.paragraphs];
+  paragraphs.splice(index, 2, {
+    ...current,
+    content: `${current.content.trim()} ${next.content.trim()}`,
+    imageStale: !!current.imageUrl
+  });
+  return { script: withParagraphs(script, paragraphs), changedIds: [current.id] };
+};
+
+export const moveParagraph = (script: ScriptData, id: number, delta: -1 | 1): ScriptData => {
+  const index = script.paragraphs.findIndex(p => p.id === id);
+  const target = index + delta;
+  if (index < 0 || target < 0 || target >= script.paragraphs.length) return script;
+  const paragraphs = [...script.paragraphs];
+  [paragraphs[index], paragraphs[target]] = [paragraphs[target], paragraphs[index]];
+  return withParagraphs(script, paragraphs);
+};
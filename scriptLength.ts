@@ -0,0 +1,56 @@
+import { AppState, ScriptLength, ScriptTarget } from "./types";
+import { estimateSeconds } from "./timing";
+
+export const SCRIPT_LENGTH_PRESETS: { id: ScriptLength; label: string; chars: number }[] = [
+  { id: ScriptLength.SHORT, label: '단문 (4천자)', chars: 4000 },
+  { id: ScriptLength.MEDIUM, label: '중문 (8천자)', chars: 8000 },
+  { id: ScriptLength.LONG, label: '장문 (1.2만자)', chars: 12000 }
+];
+
+// Accepted deviation from the target before the service asks the model to extend or trim.
+export const LENGTH_TOLERANCE = 0.1;
+
+// Korean narration has roughly one space or punctuation mark per four voiced characters.
+const CHARS_WITH_SPACES_PER_SPOKEN_CHAR = 1.25;
+
+export const DEFAULT_SCRIPT_TARGET: ScriptTarget = { unit: 'chars', value: 8000 };
+
+export const resolveTargetChars = (target: ScriptTarget, charsPerSecond: number): number =>
+  target.unit === 'chars'
+    ? Math.round(target.value)
+    : Math.round(target.value * 60 * charsPerSecond * CHARS_WITH_SPACES_PER_SPOKEN_CHAR);
+
+export const estimateTargetSeconds = (target: ScriptTarget, charsPerSecond: number): number =>
+  target.unit === 'minutes'
+    ? target.value * 60
+    : target.value / (charsPerSecond * CHARS_WITH_SPACES_PER_SPOKEN_CHAR);
+
+export const describeTarget = (target: ScriptTarget): string =>
+  target.unit === 'chars' ? `${target.value.toLocaleString()}자` : `${target.value}분`;
+
+export const measureScript = (text: string) => ({
+  withSpaces: text.length,
+  withoutSpaces: text.replace(/\s/g, '').length
+});
+
+export const lengthDeviation = (actualChars: number, targetChars: number): number =>
+  targetChars > 0 ? (actualChars - targetChars) / targetChars : 0;
+
+export const isWithinTolerance = (actualChars: number, targetChars: number): boolean =>
+  Math.abs(lengthDeviation(actualChars, targetChars)) <= LENGTH_TOLERANCE;
+
+export const formatDuration = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.round(seconds % 60);
+  return minutes > 0 ? `${minutes}분 ${rest}초` : `${rest}초`;
+};
+
+export const estimateNarration = (text: string, charsPerSecond: number): string =>
+  formatDuration(estimateSeconds(text, charsPerSecond));
+
+// Projects saved before custom targets existed only carry a preset `length`.
+export const restoreTarget = (state: Partial<AppState> & { length?: ScriptLength }): ScriptTarget => {
+  if (state.target) return state.target;
+  const preset = SCRIPT_LENGTH_PRESETS.find(p => p.id === state.length);
+  return preset ? { unit: 'chars', value: preset.chars } : DEFAULT_SCRIPT_TARGET;
+};
@@ -0,0 +1,78 @@
+import { AIProviderId, AppSettings, ChannelProfile, ThumbnailTemplate } from "./types";
+import { DEFAULT_CHANNEL_PROFILE } from "./channelProfiles";
+import { DEFAULT_PRICES } from "./pricing";
+
+const SETTINGS_KEY = 'creator-toolkit:settings';
+const THUMBNAIL_TEMPLATES_KEY = 'creator-toolkit:thumbnail-templates';
+const CHANNEL_PROFILES_KEY = 'creator-toolkit:channel-profiles';
+
+const isProviderId = (value: unknown): value is AIProviderId =>
+  Object.values(AIProviderId).includes(value as AIProviderId);
+
+const defaultSettings = (): AppSettings => ({
+  provider: isProviderId(process.env.AI_PROVIDER) ? process.env.AI_PROVIDER : AIProviderId.GEMINI,
+  imageConcurrency: 3,
+  imageMaxRetries: 3,
+  imageVariants: 1,
+  subtitles: {
+    maxCharsPerLine: 20,
+    maxLinesPerCue: 2,
+    charsPerSecond: 6
+  },
+  prices: DEFAULT_PRICES,
+  projectBudget: 0,
+  youtube: {
+    clientId: process.env.YOUTUBE_CLIENT_ID || '',
+    mock: process.env.AI_PROVIDER === AIProviderId.MOCK
+  }
+});
+
+export const loadSettings = (): AppSettings => {
+  const defaults = defaultSettings();
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return defaults;
+    const saved = JSON.parse(raw) as Partial<AppSettings>;
+    return {
+      ...defaults,
+      ...saved,
+      subtitles: { ...defaults.subtitles, ...saved.subtitles },
+      prices: { ...defaults.prices, ...saved.prices },
+      youtube: { ...defaults.youtube, ...saved.youtube },
+      provider: isProviderId(saved.provider) ? saved.provider : defaults.provider
+    };
+  } catch {
+    return defaults;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const loadThumbnailTemplates = (): ThumbnailTemplate[] => {
+  try {
+    const raw = localStorage.getItem(THUMBNAIL_TEMPLATES_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveThumbnailTemplates = (templates: ThumbnailTemplate[]) => {
+  localStorage.setItem(THUMBNAIL_TEMPLATES_KEY, JSON.stringify(templates));
+};
+
+export const loadChannelProfiles = (): ChannelProfile[] => {
+  try {
+    const raw = localStorage.getItem(CHANNEL_PROFILES_KEY);
+    const profiles: ChannelProfile[] = raw ? JSON.parse(raw) : [];
+    return profiles.length ? profiles : [DEFAULT_CHANNEL_PROFILE];
+  } catch {
+    return [DEFAULT_CHANNEL_PROFILE];
+  }
+};
+
+export const saveChannelProfiles = (profiles: ChannelProfile[]) => {
+  localStorage.setItem(CHANNEL_PROFILES_KEY, JSON.stringify(profiles));
+};
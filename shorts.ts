@@ -0,0 +1,36 @@
+import { ParagraphItem, ScenePacing, ScriptTarget, VideoFormat } from "./types";
+import { AspectRatio } from "./aiProvider";
+
+export const SHORTS_MAX_SECONDS = 60;
+// Aims below the hard limit so the length tolerance can't push a script past 60 seconds.
+export const SHORTS_TARGET: ScriptTarget = { unit: 'minutes', value: 50 / 60 };
+export const SHORTS_PACING: ScenePacing = { mode: 'auto', sceneCount: 8, secondsPerScene: 6 };
+export const SHORTS_HASHTAG = '#shorts';
+export const SHORTS_TITLE_MAX_CHARS = 40;
+export const MAX_CAPTION_CHARS = 20;
+export const MAX_DERIVED_SHORTS = 5;
+
+export const VIDEO_FORMATS: { id: VideoFormat; label: string; description: string }[] = [
+  { id: 'long', label: '롱폼', description: '16:9 가로 · 분량 자유' },
+  { id: 'shorts', label: '쇼츠', description: '9:16 세로 · 60초 이내' }
+];
+
+export const aspectRatioFor = (format: VideoFormat): AspectRatio => format === 'shorts' ? '9:16' : '16:9';
+
+// Shorts ignore the long-form length and pacing settings but keep them for switching back.
+export const effectiveTarget = (state: { format: VideoFormat; target: ScriptTarget }): ScriptTarget =>
+  state.format === 'shorts' ? SHORTS_TARGET : state.target;
+
+export const effectivePacing = (state: { format: VideoFormat; pacing: ScenePacing }): ScenePacing =>
+  state.format === 'shorts' ? SHORTS_PACING : state.pacing;
+
+// Used when a paragraph was split or merged locally and has no model-written caption.
+export const fallbackCaption = (content: string): string => {
+  const sentence = content.trim().split(/(?<=[.!?。！？])\s+/)[0] || '';
+  return sentence.length > MAX_CAPTION_CHARS ? `${sentence.slice(0, MAX_CAPTION_CHARS - 1)}…` : sentence;
+};
+
+export const withCaptions = (paragraphs: ParagraphItem[]): ParagraphItem[] =>
+  paragraphs.map(p => p.caption?.trim() ? p : { ...p, caption: fallbackCaption(p.content) });
+
+export const restoreFormat = (state: { format?: VideoFormat }): VideoFormat => state.format || 'long';
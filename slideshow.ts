@@ -0,0 +1,223 @@
+import { ParagraphItem, SubtitleCue, SubtitleOptions, VideoFormat } from "./types";
+import { paragraphDurations } from "./timing";
+import { buildSubtitleCues } from "./subtitles";
+import { isAudioStale } from "./narration";
+import { concatWavDataUrls } from "./audio";
+
+export const VIDEO_SIZES: Record<VideoFormat, [number, number]> = {
+  long: [1280, 720],
+  shorts: [720, 1280]
+};
+
+export const CROSSFADE_SECONDS = 0.6;
+const KEN_BURNS_ZOOM = 0.12;
+const RENDER_FPS = 30;
+
+// Preferred first; the browser's MediaRecorder decides which one we actually get.
+const RECORDER_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+  'video/mp4;codecs=avc1,mp4a',
+  'video/mp4'
+];
+
+export interface SlideshowScene {
+  start: number;
+  duration: number;
+  imageUrl?: string;
+}
+
+export interface SlideshowTimeline {
+  scenes: SlideshowScene[];
+  cues: SubtitleCue[];
+  duration: number;
+  // Present only when every paragraph has up-to-date narration, so the track matches the timing.
+  narration?: Blob;
+}
+
+export const buildTimeline = (paragraphs: ParagraphItem[], subtitleOptions: SubtitleOptions): SlideshowTimeline => {
+  const durations = paragraphDurations(paragraphs, subtitleOptions.charsPerSecond);
+  let cursor = 0;
+  const scenes = paragraphs.map((p, i) => {
+    const scene = { start: cursor, duration: durations[i], imageUrl: p.imageUrl };
+    cursor += durations[i];
+    return scene;
+  });
+  let narration: Blob | undefined;
+  if (paragraphs.length > 0 && paragraphs.every(p => p.audioUrl && !isAudioStale(p))) {
+    try {
+      narration = concatWavDataUrls(paragraphs.map(p => p.audioUrl!));
+    } catch (err) {
+      console.error('Failed to join narration for the slideshow', err);
+    }
+  }
+  return { scenes, cues: buildSubtitleCues(paragraphs, subtitleOptions), duration: cursor, narration };
+};
+
+export const loadSceneImages = async (scenes: SlideshowScene[]): Promise<Map<string, HTMLImageElement>> => {
+  const urls = [...new Set(scenes.map(scene => scene.imageUrl).filter((url): url is string => !!url))];
+  const entries = await Promise.all(urls.map(url => new Promise<[string, HTMLImageElement] | null>(resolve => {
+    const image = new Image();
+    image.onload = () => resolve([url, image]);
+    image.onerror = () => resolve(null);
+    image.src = url;
+  })));
+  return new Map(entries.filter((entry): entry is [string, HTMLImageElement] => entry !== null));
+};
+
+export const sceneIndexAt = (timeline: SlideshowTimeline, time: number): number => {
+  const index = timeline.scenes.findIndex(scene => time < scene.start + scene.duration);
+  return index < 0 ? timeline.scenes.length - 1 : index;
+};
+
+// Alternates zoom direction and pan corner per scene so consecutive shots don't move alike.
+const drawScene = (
+  ctx: CanvasRenderingContext2D,
+  scene: SlideshowScene,
+  index: number,
+  time: number,
+  images: Map<string, HTMLImageElement>
+) => {
+  const { width, height } = ctx.canvas;
+  const image = scene.imageUrl ? images.get(scene.imageUrl) : undefined;
+  if (!image) {
+    ctx.fillStyle = '#0f172a';
+    ctx.fillRect(0, 0, width, height);
+    return;
+  }
+
+  const progress = Math.min(1.2, Math.max(0, (time - scene.start) / Math.max(scene.duration, 0.1)));
+  const zoom = 1 + KEN_BURNS_ZOOM * (index % 2 === 0 ? progress : 1 - progress);
+  const cover = Math.max(width / image.width, height / image.height) * zoom;
+  const drawWidth = image.width * cover;
+  const drawHeight = image.height * cover;
+  const panX = (index % 4 < 2 ? 1 : -1) * (drawWidth - width) / 2 * (progress - 0.5);
+  const panY = (index % 3 === 0 ? 1 : -1) * (drawHeight - height) / 2 * (progress - 0.5);
+  ctx.drawImage(image, (width - drawWidth) / 2 + panX, (height - drawHeight) / 2 + panY, drawWidth, drawHeight);
+};
+
+const drawCaption = (ctx: CanvasRenderingContext2D, cue: SubtitleCue) => {
+  const { width, height } = ctx.canvas;
+  const fontSize = Math.round(Math.min(width, height) * 0.055);
+  const lineHeight = fontSize * 1.3;
+  const bottom = height * (height > width ? 0.72 : 0.9);
+
+  ctx.save();
+  ctx.font = `800 ${fontSize}px "Noto Sans KR", sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  ctx.lineJoin = 'round';
+  ctx.lineWidth = fontSize * 0.18;
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.85)';
+  ctx.fillStyle = '#ffffff';
+  cue.lines.forEach((line, i) => {
+    const y = bottom - (cue.lines.length - 1 - i) * lineHeight;
+    ctx.strokeText(line, width / 2, y);
+    ctx.fillText(line, width / 2, y);
+  });
+  ctx.restore();
+};
+
+export const drawFrame = (
+  ctx: CanvasRenderingContext2D,
+  timeline: SlideshowTimeline,
+  images: Map<string, HTMLImageElement>,
+  time: number,
+  showCaptions = true
+) => {
+  const { width, height } = ctx.canvas;
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+  if (!timeline.scenes.length) return;
+
+  const index = sceneIndexAt(timeline, time);
+  const scene = timeline.scenes[index];
+  const fade = index > 0 ? Math.min(1, (time - scene.start) / CROSSFADE_SECONDS) : 1;
+  if (fade < 1) drawScene(ctx, timeline.scenes[index - 1], index - 1, time, images);
+  ctx.save();
+  ctx.globalAlpha = fade;
+  drawScene(ctx, scene, index, time, images);
+  ctx.restore();
+
+  const cue = showCaptions ? timeline.cues.find(c => time >= c.start && time < c.end) : undefined;
+  if (cue) drawCaption(ctx, cue);
+};
+
+export const supportedRecorderType = (): string | undefined =>
+  typeof MediaRecorder === 'undefined' ? undefined : RECORDER_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+export interface RenderOptions {
+  showCaptions?: boolean;
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+// Records in real time: the canvas is redrawn from the audio clock while MediaRecorder captures it.
+export const renderVideo = async (
+  canvas: HTMLCanvasElement,
+  timeline: SlideshowTimeline,
+  { showCaptions = true, onProgress, signal }: RenderOptions = {}
+): Promise<Blob> => {
+  const mimeType = supportedRecorderType();
+  if (!mimeType) throw new Error('이 브라우저는 영상 녹화(MediaRecorder)를 지원하지 않습니다.');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('캔버스를 초기화할 수 없습니다.');
+
+  const images = await loadSceneImages(timeline.scenes);
+  const audioContext = new AudioContext();
+  const stream = canvas.captureStream(RENDER_FPS);
+  let source: AudioBufferSourceNode | undefined;
+  if (timeline.narration) {
+    const buffer = await audioContext.decodeAudioData(await timeline.narration.arrayBuffer());
+    const destination = audioContext.createMediaStreamDestination();
+    source = audioContext.createBufferSource();
+    source.buffer = buffer;
+    source.connect(destination);
+    destination.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+  }
+
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = event => event.data.size && chunks.push(event.data);
+  const stopped = new Promise<void>(resolve => {
+    recorder.onstop = () => resolve();
+  });
+
+  let frame = 0;
+  let stopLoop = () => {};
+  signal?.addEventListener('abort', () => stopLoop());
+
+  try {
+    drawFrame(ctx, timeline, images, 0, showCaptions);
+    await audioContext.resume();
+    recorder.start(1000);
+    const startedAt = audioContext.currentTime;
+    source?.start();
+
+    await new Promise<void>(resolve => {
+      stopLoop = resolve;
+      if (signal?.aborted) return resolve();
+      const tick = () => {
+        const time = audioContext.currentTime - startedAt;
+        drawFrame(ctx, timeline, images, Math.min(time, timeline.duration), showCaptions);
+        onProgress?.(Math.min(1, time / timeline.duration));
+        if (time >= timeline.duration) return resolve();
+        frame = requestAnimationFrame(tick);
+      };
+      frame = requestAnimationFrame(tick);
+    });
+
+    cancelAnimationFrame(frame);
+    recorder.stop();
+    await stopped;
+  } finally {
+    stream.getTracks().forEach(track => track.stop());
+    await audioContext.close();
+  }
+
+  if (signal?.aborted) throw new DOMException('Render cancelled', 'AbortError');
+  return new Blob(chunks, { type: mimeType.split(';')[0] });
+};
+
+export const videoExtension = (blob: Blob) => blob.type.includes('mp4') ? 'mp4' : 'webm';
@@ -0,0 +1,123 @@
+import { AppSettings, AppState, AppStep, ImageVariant, ParagraphItem, PipelineStep } from "./types";
+import {
+  performResearch,
+  generateScript,
+  generateImage,
+  generateMetadata,
+  generateThumbnailContent,
+  synthesizeNarration
+} from "./geminiService";
+import { resolveTargetChars } from "./scriptLength";
+import { resolveSceneCount } from "./scenePacing";
+import { aspectRatioFor, effectivePacing, effectiveTarget } from "./shorts";
+import { referencesForScene, styleReferences } from "./visualReferences";
+import { createImageVariant, variantHistory } from "./imageVariants";
+import { withRetry } from "./taskQueue";
+
+// Shared by the open project and the batch queue so both produce the same output for the same inputs.
+
+export type TextStep = Exclude<PipelineStep, AppStep.IMAGES | AppStep.AUDIO>;
+
+// Steps whose output comes from a single model call rather than one call per paragraph.
+export const generateStepOutput = async (
+  step: TextStep,
+  current: AppState,
+  settings: AppSettings,
+  signal?: AbortSignal
+): Promise<Partial<AppState>> => {
+  switch (step) {
+    case AppStep.RESEARCH:
+      return {
+        research: await performResearch(
+          current.topic,
+          current.channel,
+          current.language,
+          current.documents,
+          current.webSearch ?? true,
+          signal
+        )
+      };
+    case AppStep.SCRIPT:
+      return {
+        script: await generateScript(
+          current.research!.report,
+          resolveTargetChars(effectiveTarget(current), settings.subtitles.charsPerSecond),
+          resolveSceneCount(effectivePacing(current), effectiveTarget(current), settings.subtitles.charsPerSecond),
+          current.channel,
+          current.language,
+          current.research!.structured?.keyFacts.filter(fact => fact.required).map(fact => fact.text),
+          current.format,
+          signal
+        ),
+        factCheck: undefined
+      };
+    case AppStep.METADATA:
+      return {
+        metadata: await generateMetadata(current.script!, current.channel, current.language, current.format, signal),
+        localizedMetadata: undefined
+      };
+    case AppStep.THUMBNAIL:
+      return { thumbnail: await generateThumbnailContent(
+        current.script!.ttsScript,
+        current.channel,
+        current.language,
+        styleReferences(current.visualReferences || [], !!current.styleLock),
+        settings.imageVariants,
+        aspectRatioFor(current.format),
+        signal
+      ) };
+  }
+};
+
+// Generates `settings.imageVariants` candidates for one scene and returns the paragraph fields to update.
+export const renderSceneImage = async (
+  paragraph: ParagraphItem,
+  current: AppState,
+  settings: AppSettings,
+  signal?: AbortSignal
+): Promise<Partial<ParagraphItem>> => {
+  const references = referencesForScene(
+    current.visualReferences || [],
+    `${paragraph.content}\n${paragraph.imagePrompt}`,
+    !!current.styleLock
+  );
+  const added: ImageVariant[] = [];
+  for (let i = 0; i < settings.imageVariants; i++) {
+    try {
+      const url = await withRetry(() => generateImage(paragraph.imagePrompt, current.channel, {
+        references,
+        aspectRatio: aspectRatioFor(current.format),
+        signal
+      }), {
+        retries: settings.imageMaxRetries,
+        signal
+      });
+      if (!url) throw new Error('모델이 이미지를 반환하지 않았습니다.');
+      added.push(createImageVariant(url, paragraph.imagePrompt));
+    } catch (err) {
+      // Keep the candidates that already finished; only fail the scene when none did.
+      if (!added.length) throw err;
+      console.error(`Failed to generate variant ${i + 1} for scene ${paragraph.id}`, err);
+      break;
+    }
+  }
+  return {
+    imageUrl: added[0].imageUrl,
+    variants: [...variantHistory(paragraph.imageUrl, paragraph.imagePrompt, paragraph.variants), ...added],
+    imageError: undefined,
+    imageStale: false
+  };
+};
+
+export const renderNarration = async (
+  paragraph: ParagraphItem,
+  current: AppState,
+  settings: AppSettings,
+  signal?: AbortSignal
+): Promise<Partial<ParagraphItem>> => {
+  const { audioUrl, duration } = await withRetry(() => synthesizeNarration(paragraph.content, current.narration, signal), {
+    retries: settings.imageMaxRetries,
+    signal
+  });
+  return { audioUrl, audioDuration: duration, audioText: paragraph.content, audioError: undefined };
+};
@@ -0,0 +1,98 @@
+import { ParagraphItem, SubtitleCue, SubtitleOptions } from "./types";
+import { countSpokenChars, paragraphDurations } from "./timing";
+
+// Breaks after sentence-final punctuation (incl. closing quotes) and on explicit line breaks,
+// so decimals like "3.5%" stay intact.
+const splitSentences = (text: string): string[] =>
+  text
+    .split(/\n+|(?<=[.!?…。？！]["'”’)]*)\s+/)
+    .map(s => s.trim())
+    .filter(Boolean);
+
+const wrapLine = (sentence: string, maxChars: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  sentence.split(/\s+/).forEach(word => {
+    // Words longer than a whole line (rare in Korean, common in URLs) are hard-cut.
+    while (word.length > maxChars) {
+      if (current) {
+        lines.push(current);
+        current = '';
+      }
+      lines.push(word.slice(0, maxChars));
+      word = word.slice(maxChars);
+    }
+    if (!word) return;
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= maxChars) {
+      current = `${current} ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+};
+
+// One caption never spans two sentences, so cue changes follow the narration's pauses.
+export const splitIntoCaptions = (text: string, options: SubtitleOptions): string[][] => {
+  const captions: string[][] = [];
+  splitSentences(text).forEach(sentence => {
+    const lines = wrapLine(sentence, Math.max(options.maxCharsPerLine, 4));
+    for (let i = 0; i < lines.length; i += options.maxLinesPerCue) {
+      captions.push(lines.slice(i, i + options.maxLinesPerCue));
+    }
+  });
+  return captions;
+};
+
+export const buildSubtitleCues = (paragraphs: ParagraphItem[], options: SubtitleOptions): SubtitleCue[] => {
+  const durations = paragraphDurations(paragraphs, options.charsPerSecond);
+  const cues: SubtitleCue[] = [];
+  let paragraphStart = 0;
+
+  paragraphs.forEach((paragraph, i) => {
+    const captions = splitIntoCaptions(paragraph.content, options);
+    const weights = captions.map(lines => Math.max(countSpokenChars(lines.join('')), 1));
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    let cursor = paragraphStart;
+
+    captions.forEach((lines, j) => {
+      const length = (durations[i] * weights[j]) / totalWeight;
+      cues.push({
+        index: cues.length + 1,
+        sceneId: i + 1,
+        start: cursor,
+        end: cursor + length,
+        lines
+      });
+      cursor += length;
+    });
+
+    paragraphStart += durations[i];
+  });
+
+  return cues;
+};
+
+const formatTimestamp = (seconds: number, separator: ',' | '.') => {
+  const totalMs = Math.round(seconds * 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(totalMs % 1000, 3)}`;
+};
+
+export const formatSrt = (cues: SubtitleCue[]): string =>
+  cues
+    .map(cue => `${cue.index}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.lines.join('\n')}\n`)
+    .join('\n');
+
+// Cue identifiers carry the scene number so captions can be matched to scene_XX images.
+export const formatVtt = (cues: SubtitleCue[]): string =>
+  `WEBVTT\n\n${cues
+    .map(cue => `scene-${String(cue.sceneId).padStart(2, '0')}-${cue.index}\n${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.lines.join('\n')}\n`)
+    .join('\n')}`;
@@ -0,0 +1,78 @@
+import { AIError } from "./aiErrors";
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+export const createAbortError = () => new DOMException('작업이 취소되었습니다.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Rate limits and transient server errors are worth retrying; bad keys or blocked prompts are not.
+export const isRetryableError = (error: unknown): boolean => {
+  if (isAbortError(error) || error instanceof AIError) return false;
+  const status = (error as { status?: number })?.status;
+  if (status === 429 || (status !== undefined && status >= 500)) return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return /RESOURCE_EXHAUSTED|rate.?limit|UNAVAILABLE|overloaded|\b429\b|\b50[03]\b/i.test(message);
+};
+
+export const withRetry = async <T>(task: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> => {
+  const { retries, baseDelayMs = 1000, maxDelayMs = 30000, signal, shouldRetry = isRetryableError } = options;
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (attempt >= retries || !shouldRetry(error)) throw error;
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      await sleep(backoff + Math.random() * backoff * 0.2, signal);
+    }
+  }
+};
+
+// Runs `worker` over `items` with at most `concurrency` in flight. Items not yet started when
+// `signal` aborts are skipped; in-flight workers are expected to observe the signal themselves.
+export const runWithConcurrency = async <T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const lanes = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+  await Promise.all(lanes);
+  return results;
+};
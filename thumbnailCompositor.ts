@@ -0,0 +1,152 @@
+import { ThumbnailComposition, ThumbnailTextStyle, TextPosition, VideoFormat } from "./types";
+
+export const THUMBNAIL_SIZES: Record<VideoFormat, [number, number]> = {
+  long: [1280, 720],
+  shorts: [1080, 1920]
+};
+// YouTube rejects custom thumbnails above 2MB.
+export const MAX_THUMBNAIL_BYTES = 2 * 1024 * 1024;
+
+const MARGIN = 56;
+const LINE_HEIGHT = 1.15;
+const JPEG_QUALITIES = [0.92, 0.85, 0.75, 0.65, 0.5, 0.35];
+
+export const THUMBNAIL_FONTS = ['Black Han Sans', 'Do Hyeon', 'Jua', 'Noto Sans KR', 'Pretendard'];
+
+export const TEXT_POSITIONS: { id: TextPosition; label: string }[] = [
+  { id: 'top-left', label: '좌상단' },
+  { id: 'top-center', label: '상단' },
+  { id: 'top-right', label: '우상단' },
+  { id: 'center', label: '중앙' },
+  { id: 'bottom-left', label: '좌하단' },
+  { id: 'bottom-center', label: '하단' },
+  { id: 'bottom-right', label: '우하단' }
+];
+
+export const DEFAULT_TEXT_STYLE: ThumbnailTextStyle = {
+  fontFamily: 'Black Han Sans',
+  fontSize: 110,
+  fillColor: '#ffffff',
+  strokeColor: '#000000',
+  strokeWidth: 12,
+  shadow: true,
+  highlightColor: '#facc15',
+  position: 'bottom-left'
+};
+
+export const createComposition = (text = ''): ThumbnailComposition => ({
+  text,
+  highlights: {},
+  style: { ...DEFAULT_TEXT_STYLE }
+});
+
+export const normalizeKeyword = (word: string) => word.replace(/[^\p{L}\p{N}]/gu, '');
+
+export const extractKeywords = (text: string): string[] =>
+  Array.from(new Set(text.split(/\s+/).map(normalizeKeyword).filter(Boolean)));
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('썸네일 배경 이미지를 불러올 수 없습니다.'));
+    image.src = src;
+  });
+
+const drawCover = (ctx: CanvasRenderingContext2D, image: HTMLImageElement) => {
+  const { width: canvasWidth, height: canvasHeight } = ctx.canvas;
+  const scale = Math.max(canvasWidth / image.width, canvasHeight / image.height);
+  const width = image.width * scale;
+  const height = image.height * scale;
+  ctx.drawImage(image, (canvasWidth - width) / 2, (canvasHeight - height) / 2, width, height);
+};
+
+const fontFor = (style: ThumbnailTextStyle) => `900 ${style.fontSize}px "${style.fontFamily}", sans-serif`;
+
+const drawText = (ctx: CanvasRenderingContext2D, composition: ThumbnailComposition) => {
+  const { style, highlights } = composition;
+  const lines = composition.text.split('\n').map(line => line.trim()).filter(Boolean);
+  if (lines.length === 0) return;
+  const { width: canvasWidth, height: canvasHeight } = ctx.canvas;
+
+  ctx.font = fontFor(style);
+  ctx.textBaseline = 'top';
+  ctx.lineJoin = 'round';
+
+  const [vertical, horizontal = 'center'] = style.position === 'center' ? ['center', 'center'] : style.position.split('-');
+  const lineHeight = style.fontSize * LINE_HEIGHT;
+  const blockHeight = lineHeight * lines.length;
+  const top = vertical === 'top'
+    ? MARGIN
+    : vertical === 'bottom'
+      ? canvasHeight - MARGIN - blockHeight
+      : (canvasHeight - blockHeight) / 2;
+
+  lines.forEach((line, i) => {
+    const tokens = line.split(/(\s+)/);
+    const lineWidth = ctx.measureText(line).width;
+    let x = horizontal === 'left'
+      ? MARGIN
+      : horizontal === 'right'
+        ? canvasWidth - MARGIN - lineWidth
+        : (canvasWidth - lineWidth) / 2;
+    const y = top + i * lineHeight;
+
+    tokens.forEach(token => {
+      const width = ctx.measureText(token).width;
+      if (token.trim()) {
+        ctx.save();
+        if (style.shadow) {
+          ctx.shadowColor = 'rgba(0, 0, 0, 0.75)';
+          ctx.shadowBlur = style.fontSize * 0.2;
+          ctx.shadowOffsetX = style.fontSize * 0.04;
+          ctx.shadowOffsetY = style.fontSize * 0.06;
+        }
+        if (style.strokeWidth > 0) {
+          ctx.strokeStyle = style.strokeColor;
+          ctx.lineWidth = style.strokeWidth;
+          ctx.strokeText(token, x, y);
+          // Shadow only once, behind the stroke, so the fill stays crisp.
+          ctx.shadowColor = 'transparent';
+        }
+        ctx.fillStyle = highlights[normalizeKeyword(token)] || style.fillColor;
+        ctx.fillText(token, x, y);
+        ctx.restore();
+      }
+      x += width;
+    });
+  });
+};
+
+export const renderThumbnail = async (
+  canvas: HTMLCanvasElement,
+  backgroundUrl: string | undefined,
+  composition: ThumbnailComposition,
+  format: VideoFormat = 'long'
+) => {
+  [canvas.width, canvas.height] = THUMBNAIL_SIZES[format];
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  const [image] = await Promise.all([
+    backgroundUrl ? loadImage(backgroundUrl) : Promise.resolve(null),
+    document.fonts.load(fontFor(composition.style)).catch(() => [])
+  ]);
+
+  ctx.fillStyle = '#0f172a';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  if (image) drawCover(ctx, image);
+  drawText(ctx, composition);
+};
+
+const dataUrlBytes = (dataUrl: string) => Math.ceil((dataUrl.length - dataUrl.indexOf(',') - 1) * 3 / 4);
+
+// Steps JPEG quality down until the file fits YouTube's upload limit.
+export const exportThumbnailJpeg = (canvas: HTMLCanvasElement): string => {
+  let dataUrl = '';
+  for (const quality of JPEG_QUALITIES) {
+    dataUrl = canvas.toDataURL('image/jpeg', quality);
+    if (dataUrlBytes(dataUrl) <= MAX_THUMBNAIL_BYTES) break;
+  }
+  return dataUrl;
+};
@@ -0,0 +1,15 @@
+import { ParagraphItem } from "./types";
+import { isAudioStale } from "./narration";
+
+export const DEFAULT_CHARS_PER_SECOND = 6;
+
+// Characters that are actually voiced; spaces and punctuation don't take narration time.
+export const countSpokenChars = (text: string): number =>
+  text.replace(/[\s.,!?…·"'“”‘’()\[\]~:;-]/g, '').length;
+
+export const estimateSeconds = (text: string, charsPerSecond = DEFAULT_CHARS_PER_SECOND): number =>
+  countSpokenChars(text) / Math.max(charsPerSecond, 0.1);
+
+// Real audio durations win over estimates, paragraph by paragraph, unless the text changed since.
+export const paragraphDurations = (paragraphs: ParagraphItem[], charsPerSecond = DEFAULT_CHARS_PER_SECOND): number[] =>
+  paragraphs.map(p => p.audioDuration !== undefined && !isAudioStale(p) ? p.audioDuration : estimateSeconds(p.content, charsPerSecond));
@@ -0,0 +1,57 @@
+import { TitleCandidate, VideoFormat } from "./types";
+import { SHORTS_TITLE_MAX_CHARS } from "./shorts";
+
+// YouTube rejects longer titles outright.
+export const YOUTUBE_TITLE_MAX_CHARS = 100;
+// Search results and suggested videos cut long-form titles off around here.
+const VISIBLE_TITLE_CHARS = 60;
+// The model lists keywords most relevant first, so coverage only looks at the leading ones.
+const COVERAGE_KEYWORDS = 5;
+
+// YouTube counts characters, not UTF-16 code units, so an emoji is one.
+export const titleLength = (title: string): number => [...title].length;
+
+const normalize = (text: string) => text.toLowerCase().replace(/[\s#]/g, '');
+
+export const keywordCoverage = (title: string, keywords: string[]): number => {
+  const leading = keywords.map(normalize).filter(Boolean).slice(0, COVERAGE_KEYWORDS);
+  if (!leading.length) return 0;
+  const normalized = normalize(title);
+  return leading.filter(keyword => normalized.includes(keyword)).length / leading.length;
+};
+
+export interface RawTitleCandidate {
+  text: string;
+  curiosity: number;
+  thumbnailCopy?: string;
+}
+
+// Curiosity carries half the score and keyword coverage most of the rest; a title that is fully
+// visible in search results gets a small bonus. Over the hard limit, the title can't be published.
+export const scoreTitle = (candidate: RawTitleCandidate, keywords: string[], format: VideoFormat): TitleCandidate => {
+  const text = candidate.text.trim();
+  const curiosity = Math.min(10, Math.max(1, Math.round(candidate.curiosity) || 1));
+  const coverage = keywordCoverage(text, keywords);
+  const length = titleLength(text);
+  const visibleChars = format === 'shorts' ? SHORTS_TITLE_MAX_CHARS : VISIBLE_TITLE_CHARS;
+  const score = length === 0 || length > YOUTUBE_TITLE_MAX_CHARS
+    ? 0
+    : Math.round(curiosity * 5 + coverage * 40 + (length <= visibleChars ? 10 : 0));
+  return {
+    text,
+    ...(candidate.thumbnailCopy ? { thumbnailCopy: candidate.thumbnailCopy } : {}),
+    curiosity,
+    keywordCoverage: coverage,
+    score
+  };
+};
+
+// Best first; of two identical titles only the higher-scoring one is kept.
+export const rankTitles = (candidates: TitleCandidate[]): TitleCandidate[] => {
+  const sorted = [...candidates].sort((a, b) => b.score - a.score);
+  return sorted.filter((candidate, i) => sorted.findIndex(other => other.text === candidate.text) === i);
+};
+
+// The title to preselect: the best one that can actually be published.
+export const pickTitle = (candidates: TitleCandidate[]): string | undefined =>
+  (candidates.find(candidate => candidate.score > 0) || candidates[0])?.text;
@@ -1,30 +1,211 @@
 
 export enum AppStep {
   INPUT = 'input',
+  LIBRARY = 'library',
+  BATCH = 'batch',
   RESEARCH = 'research',
   SCRIPT = 'script',
   IMAGES = 'images',
   METADATA = 'metadata',
-  THUMBNAIL = 'thumbnail'
+  THUMBNAIL = 'thumbnail',
+  AUDIO = 'audio',
+  PREVIEW = 'preview',
+  PUBLISH = 'publish'
 }
 
+export type PipelineStep =
+  | AppStep.RESEARCH
+  | AppStep.SCRIPT
+  | AppStep.METADATA
+  | AppStep.THUMBNAIL
+  | AppStep.IMAGES
+  | AppStep.AUDIO;
+
+export enum StepStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  DONE = 'done',
+  FAILED = 'failed',
+  STALE = 'stale'
+}
+
+// Why a model call failed, as far as the error lets us tell; drives the hint and retry UI.
+export type AIErrorKind = 'quota' | 'safety' | 'invalidKey' | 'malformed' | 'unavailable' | 'unknown';
+
+export interface StepState {
+  status: StepStatus;
+  error?: string;
+  errorKind?: AIErrorKind;
+  updatedAt?: number;
+}
+
+export type PipelineSteps = Record<PipelineStep, StepState>;
+
 export enum ScriptLength {
   SHORT = 'SHORT', // 4000
   MEDIUM = 'MEDIUM', // 8000
   LONG = 'LONG' // 12000
 }
 
+export type VideoFormat = 'long' | 'shorts';
+
+export interface NarrationOptions {
+  voice: string;
+  speed: number;
+}
+
+export interface ScriptTarget {
+  unit: 'chars' | 'minutes';
+  value: number;
+}
+
+// Scene count is either fixed or derived from narration length (one scene per N seconds).
+export interface ScenePacing {
+  mode: 'fixed' | 'auto';
+  sceneCount: number;
+  secondsPerScene: number;
+}
+
+// A saved channel identity applied to every generation prompt.
+export interface ChannelProfile {
+  id: string;
+  name: string;
+  description: string;
+  narratorVoice: string;
+  structure: string;
+  bannedWords: string[];
+  cta: string;
+  imageStyle: string;
+  defaultHashtags: string[];
+}
+
+export type SourceDocumentKind = 'pdf' | 'txt' | 'md' | 'docx' | 'transcript';
+
+// A local file parsed in the browser and handed to research as a primary source.
+export interface SourceDocument {
+  id: string;
+  name: string;
+  kind: SourceDocumentKind;
+  text: string;
+  truncated: boolean;
+}
+
+// A recurring character or the project's style reference, passed to the image model as an input image.
+export interface VisualReference {
+  id: string;
+  kind: 'character' | 'style';
+  name: string;
+  description: string;
+  // Extra names that identify the character in narration or image prompts (e.g. "할머니", "grandma").
+  aliases: string[];
+  // Characters such as a first-person narrator are in every scene without being named.
+  always: boolean;
+  imageUrl?: string;
+}
+
+export interface ResearchSource {
+  title: string;
+  uri: string;
+  // Attached documents have no URI; older projects only carry web sources.
+  kind?: 'web' | 'document';
+}
+
+// A report segment and the sources (indices into `ResearchData.sources`) that ground it.
+export interface ResearchSupport {
+  text: string;
+  sourceIndices: number[];
+}
+
+// Every structured item cites indices into `ResearchData.sources`.
+export interface ResearchFact {
+  id: string;
+  text: string;
+  sourceIndices: number[];
+  // Ticked by the user: the script must state this fact.
+  required?: boolean;
+}
+
+export interface ResearchTimelineEntry {
+  date: string;
+  event: string;
+  sourceIndices: number[];
+}
+
+export interface ResearchStakeholder {
+  name: string;
+  role: string;
+  sourceIndices: number[];
+}
+
+export interface ResearchQuestion {
+  question: string;
+  sourceIndices: number[];
+}
+
+export interface StructuredReport {
+  summary: string;
+  keyFacts: ResearchFact[];
+  timeline: ResearchTimelineEntry[];
+  stakeholders: ResearchStakeholder[];
+  openQuestions: ResearchQuestion[];
+}
+
 export interface ResearchData {
   report: string;
-  sources: { title: string; uri: string }[];
+  sources: ResearchSource[];
+  supports?: ResearchSupport[];
+  // Absent for projects researched before structured reports existed.
+  structured?: StructuredReport;
+}
+
+export type ClaimStatus = 'supported' | 'unsupported' | 'contradicted';
+
+export interface FactClaim {
+  paragraphId: number;
+  claim: string;
+  status: ClaimStatus;
+  sourceIndices: number[];
+  note?: string;
+}
+
+export interface FactCheckReport {
+  claims: FactClaim[];
+  checkedAt: number;
+  // The TTS script the claims were extracted from; any later edit makes the report stale.
+  ttsScript: string;
+}
+
+export interface ImageVariant {
+  id: string;
+  imageUrl: string;
+  // The prompt this image was generated from, which may differ from the current one.
+  prompt: string;
+  createdAt: number;
 }
 
 export interface ParagraphItem {
   id: number;
   content: string;
   imagePrompt: string;
+  // The picked variant; this is what exports and previews use.
   imageUrl?: string;
+  // Every image generated for this scene, oldest first, so regenerating never discards one.
+  variants?: ImageVariant[];
+  // Short on-screen text for this beat; Shorts only.
+  caption?: string;
+  imageError?: string;
+  // Set when the text changed after the image was made; the image step regenerates it.
+  imageStale?: boolean;
+  // WAV data URL of the synthesized narration.
+  audioUrl?: string;
+  // Length in seconds of synthesized narration, when audio exists; otherwise timing is estimated.
+  audioDuration?: number;
+  // The text the audio was made from; once the paragraph differs, the audio is stale.
+  audioText?: string;
+  audioError?: string;
   isGenerating?: boolean;
+  isRewriting?: boolean;
+  isSynthesizing?: boolean;
 }
 
 export interface ScriptData {
@@ -33,8 +214,34 @@ export interface ScriptData {
   paragraphs: ParagraphItem[];
 }
 
+export type LanguageCode = 'ko' | 'en' | 'ja' | 'es' | 'zh' | 'pt' | 'fr' | 'de';
+
+export interface TitleCandidate {
+  text: string;
+  // The thumbnail text this title was written to pair with; absent for standalone titles.
+  thumbnailCopy?: string;
+  // Model-rated, 1-10.
+  curiosity: number;
+  // Share of the leading SEO keywords the title contains, 0-1.
+  keywordCoverage: number;
+  // Ranking score, 0-100; a title over YouTube's length limit scores 0.
+  score: number;
+}
+
+// A chapter starts at a paragraph; its timestamp is worked out from narration timing when the description is built.
+export interface ChapterMarker {
+  paragraphId: number;
+  title: string;
+}
+
 export interface MetadataResults {
+  // The chosen title; defaults to the best-ranked candidate.
+  title?: string;
+  // Best first. Absent for metadata generated before candidates existed.
+  titleCandidates?: TitleCandidate[];
   youtubeDescription: string;
+  // Long-form only; the chapters block is appended to the description, never stored in it.
+  chapters?: ChapterMarker[];
   summary4Lines: string;
   hashtags: string[];
   seoKeywords: string[];
@@ -43,20 +250,204 @@ export interface MetadataResults {
 
 export interface ThumbnailData {
   pureImageUrl?: string;
+  backgroundPrompt?: string;
+  backgroundVariants?: ImageVariant[];
   mockupImageUrl?: string;
   copySuggestions: {
     type1: string[];
     type2: string[];
   };
+  composition?: ThumbnailComposition;
+}
+
+export type TextPosition =
+  | 'top-left'
+  | 'top-center'
+  | 'top-right'
+  | 'center'
+  | 'bottom-left'
+  | 'bottom-center'
+  | 'bottom-right';
+
+export interface ThumbnailTextStyle {
+  fontFamily: string;
+  fontSize: number;
+  fillColor: string;
+  strokeColor: string;
+  strokeWidth: number;
+  shadow: boolean;
+  highlightColor: string;
+  position: TextPosition;
+}
+
+export interface ThumbnailComposition {
+  text: string;
+  // Keyword -> color; matched per word, ignoring surrounding punctuation.
+  highlights: Record<string, string>;
+  style: ThumbnailTextStyle;
+}
+
+export interface ThumbnailTemplate {
+  id: string;
+  name: string;
+  style: ThumbnailTextStyle;
 }
 
 export interface AppState {
+  projectId?: string;
   currentStep: AppStep;
   topic: string;
-  length: ScriptLength;
+  target: ScriptTarget;
+  pacing: ScenePacing;
+  channel: ChannelProfile;
+  language: LanguageCode;
+  format: VideoFormat;
+  narration: NarrationOptions;
+  documents?: SourceDocument[];
+  // Research falls back to the attached documents alone when web search is off.
+  webSearch?: boolean;
   research?: ResearchData;
   script?: ScriptData;
+  visualReferences?: VisualReference[];
+  // When locked, the style reference is attached to every scene and to the thumbnail background.
+  styleLock?: boolean;
+  factCheck?: FactCheckReport;
   metadata?: MetadataResults;
+  // Per-language translations of `metadata` for YouTube's localized title/description fields.
+  localizedMetadata?: Partial<Record<LanguageCode, MetadataResults>>;
   thumbnail?: ThumbnailData;
+  // Every paid model call made for this project, in call order.
+  usage?: UsageRecord[];
+  // The last upload to YouTube.
+  publish?: PublishRecord;
+  steps: PipelineSteps;
   isProcessing: boolean;
 }
+
+export type PersistedState = Omit<AppState, 'projectId' | 'isProcessing'>;
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  topic: string;
+  target: ScriptTarget;
+  format?: VideoFormat;
+  charCount: number;
+  sceneCount: number;
+  // Estimated USD spent on model calls.
+  cost?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ProjectRecord extends ProjectSummary {
+  state: PersistedState;
+}
+
+// One topic in the batch queue. It becomes its own project once it starts; a retry resumes that project.
+export interface BatchItem {
+  id: string;
+  topic: string;
+  target: ScriptTarget;
+  channel: ChannelProfile;
+  // Only PENDING, RUNNING, DONE and FAILED are used.
+  status: StepStatus;
+  projectId?: string;
+  // The step running now, or the one that stopped the item.
+  step?: PipelineStep;
+  // Per-paragraph progress of the running step, e.g. "3/12".
+  progress?: string;
+  error?: string;
+  errorKind?: AIErrorKind;
+}
+
+export enum AIProviderId {
+  GEMINI = 'gemini',
+  MOCK = 'mock'
+}
+
+export interface AppSettings {
+  provider: AIProviderId;
+  imageConcurrency: number;
+  imageMaxRetries: number;
+  // Candidates generated per scene or thumbnail background on each run.
+  imageVariants: number;
+  subtitles: SubtitleOptions;
+  // Keyed by model name; models missing from the table are counted but cost nothing.
+  prices: Record<string, ModelPrice>;
+  // USD per project; 0 means no limit.
+  projectBudget: number;
+  youtube: YouTubeSettings;
+}
+
+export interface YouTubeSettings {
+  // OAuth client ID of a Google Cloud "web application" client that lists this origin.
+  clientId: string;
+  // Sends every request to an in-browser mock of the YouTube API instead of Google; nothing is uploaded.
+  mock: boolean;
+}
+
+export type PrivacyStatus = 'private' | 'unlisted' | 'public';
+
+// Optional steps after the video upload. Each can fail on its own without losing the uploaded video.
+export type PublishExtra = 'thumbnail' | 'captions' | 'comment';
+
+export interface PublishRecord {
+  videoId: string;
+  url: string;
+  privacyStatus: PrivacyStatus;
+  // ISO 8601; set when the video goes public later.
+  publishAt?: string;
+  uploadedAt: number;
+  // Extras that still have to be done, with the error that stopped each one.
+  failedExtras: Partial<Record<PublishExtra, string>>;
+  // Whether the upload went to the mock API.
+  mock?: boolean;
+}
+
+// USD. Token prices are per million tokens.
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  perImage: number;
+}
+
+export interface UsageRecord {
+  task: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  // Priced when the call was made, so later price edits don't rewrite history.
+  cost: number;
+  createdAt: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  cost: number;
+}
+
+export interface MonthlyUsage extends UsageTotals {
+  // Local calendar month, "YYYY-MM".
+  month: string;
+  byTask: Record<string, UsageTotals>;
+}
+
+export interface SubtitleOptions {
+  maxCharsPerLine: number;
+  maxLinesPerCue: number;
+  // Narration speed in characters per second, not counting spaces or punctuation.
+  charsPerSecond: number;
+}
+
+export interface SubtitleCue {
+  index: number;
+  sceneId: number;
+  start: number;
+  end: number;
+  lines: string[];
+}
@@ -0,0 +1,145 @@
+import { AppStep, MonthlyUsage, PipelineStep, UsageRecord, UsageTotals } from "./types";
+import { TokenUsage } from "./aiProvider";
+import { loadSettings } from "./settings";
+import { priceUsage } from "./pricing";
+
+const MONTHLY_USAGE_KEY = 'creator-toolkit:usage-monthly';
+
+// Which pipeline step a provider task is billed to; tasks not listed show up as "기타".
+const TASK_STEPS: Record<string, PipelineStep> = {
+  research: AppStep.RESEARCH,
+  researchStructure: AppStep.RESEARCH,
+  script: AppStep.SCRIPT,
+  scriptLength: AppStep.SCRIPT,
+  imagePrompt: AppStep.SCRIPT,
+  factCheck: AppStep.SCRIPT,
+  rewriteParagraph: AppStep.SCRIPT,
+  deriveShorts: AppStep.SCRIPT,
+  metadata: AppStep.METADATA,
+  localizeMetadata: AppStep.METADATA,
+  titleCandidates: AppStep.METADATA,
+  thumbnailCopy: AppStep.THUMBNAIL,
+  thumbnailImage: AppStep.THUMBNAIL,
+  image: AppStep.IMAGES,
+  referenceImage: AppStep.IMAGES,
+  narration: AppStep.AUDIO
+};
+
+export const stepOfTask = (task: string): PipelineStep | undefined => TASK_STEPS[task];
+
+export class BudgetExceededError extends Error {
+  constructor() {
+    super('프로젝트 예산 한도에 도달해 일시정지했습니다. 설정에서 한도를 올린 뒤 재개하세요.');
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// A project's ledger. Calls made while no meter is set still count toward the monthly totals.
+export interface UsageMeter {
+  records: () => UsageRecord[];
+  onRecord: (record: UsageRecord) => void;
+}
+
+// The open project's meter, used for every call that isn't scoped to another project.
+let meter: UsageMeter | null = null;
+
+export const setUsageMeter = (next: UsageMeter) => {
+  meter = next;
+  return () => {
+    if (meter === next) meter = null;
+  };
+};
+
+// Background runs bill their own project: they bind a meter to the abort signal they pass to every call.
+const scopedMeters = new WeakMap<AbortSignal, UsageMeter>();
+
+export const bindUsageMeter = (signal: AbortSignal, scoped: UsageMeter) => {
+  scopedMeters.set(signal, scoped);
+};
+
+const meterFor = (signal?: AbortSignal) => (signal && scopedMeters.get(signal)) || meter;
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, images: 0, cost: 0 });
+
+const addTo = (totals: UsageTotals, record: UsageRecord): UsageTotals => ({
+  calls: totals.calls + 1,
+  inputTokens: totals.inputTokens + record.inputTokens,
+  outputTokens: totals.outputTokens + record.outputTokens,
+  images: totals.images + record.images,
+  cost: totals.cost + record.cost
+});
+
+export const sumUsage = (records: UsageRecord[]): UsageTotals => records.reduce(addTo, emptyTotals());
+
+export const usageByStep = (records: UsageRecord[]): Map<PipelineStep | undefined, UsageTotals> => {
+  const result = new Map<PipelineStep | undefined, UsageTotals>();
+  records.forEach(record => {
+    const step = stepOfTask(record.task);
+    result.set(step, addTo(result.get(step) || emptyTotals(), record));
+  });
+  return result;
+};
+
+const monthOf = (time: number) => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+// Newest month first.
+export const loadMonthlyUsage = (): MonthlyUsage[] => {
+  try {
+    const raw = localStorage.getItem(MONTHLY_USAGE_KEY);
+    const months: MonthlyUsage[] = raw ? JSON.parse(raw) : [];
+    return months.sort((a, b) => b.month.localeCompare(a.month));
+  } catch {
+    return [];
+  }
+};
+
+const addToMonthlyUsage = (record: UsageRecord) => {
+  const month = monthOf(record.createdAt);
+  const months = loadMonthlyUsage();
+  const current = months.find(m => m.month === month) || { month, byTask: {}, ...emptyTotals() };
+  const updated: MonthlyUsage = {
+    ...current,
+    ...addTo(current, record),
+    byTask: { ...current.byTask, [record.task]: addTo(current.byTask[record.task] || emptyTotals(), record) }
+  };
+  localStorage.setItem(MONTHLY_USAGE_KEY, JSON.stringify([updated, ...months.filter(m => m.month !== month)]));
+};
+
+export const monthlyUsageCsv = (months: MonthlyUsage[]): string => [
+  'month,calls,input_tokens,output_tokens,images,cost_usd',
+  ...months.map(m => [m.month, m.calls, m.inputTokens, m.outputTokens, m.images, m.cost.toFixed(4)].join(','))
+].join('\n');
+
+// Called by providers after every successful call, with the request's signal.
+export const reportUsage = (task: string, usage: TokenUsage, signal?: AbortSignal) => {
+  const record: UsageRecord = { task, ...usage, cost: priceUsage(usage, loadSettings().prices), createdAt: Date.now() };
+  try {
+    addToMonthlyUsage(record);
+  } catch (err) {
+    console.error('Failed to update monthly usage', err);
+  }
+  meterFor(signal)?.onRecord(record);
+};
+
+// The next call is assumed to cost as much as the priciest earlier call of the same task in
+// this project, or this month's average for the task; a task never seen before is assumed free.
+const estimateCallCost = (task: string, records: UsageRecord[]): number => {
+  const previous = records.filter(record => record.task === task).map(record => record.cost);
+  if (previous.length) return Math.max(...previous);
+  const monthly = loadMonthlyUsage().find(m => m.month === monthOf(Date.now()))?.byTask[task];
+  return monthly?.calls ? monthly.cost / monthly.calls : 0;
+};
+
+// Throws before a call that would take the open project past its budget.
+export const checkBudget = (task: string, signal?: AbortSignal) => {
+  const { projectBudget } = loadSettings();
+  const scoped = meterFor(signal);
+  if (!projectBudget || !scoped) return;
+  const records = scoped.records();
+  if (sumUsage(records).cost + estimateCallCost(task, records) > projectBudget) {
+    throw new BudgetExceededError();
+  }
+};
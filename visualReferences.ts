@@ -0,0 +1,39 @@
+import { VisualReference } from "./types";
+
+export const createVisualReference = (kind: VisualReference['kind'], name: string): VisualReference => ({
+  id: crypto.randomUUID(),
+  kind,
+  name,
+  description: '',
+  aliases: [],
+  always: false
+});
+
+const mentions = (reference: VisualReference, text: string): boolean => {
+  const haystack = text.toLowerCase();
+  return [reference.name, ...reference.aliases]
+    .map(name => name.trim().toLowerCase())
+    .some(name => name && haystack.includes(name));
+};
+
+// Characters named in the scene (or always present) plus, under a style lock, the style reference.
+export const referencesForScene = (
+  references: VisualReference[],
+  sceneText: string,
+  styleLock: boolean
+): VisualReference[] =>
+  references.filter(reference => reference.imageUrl && (
+    reference.kind === 'style'
+      ? styleLock
+      : reference.always || mentions(reference, sceneText)
+  ));
+
+export const styleReferences = (references: VisualReference[], styleLock: boolean): VisualReference[] =>
+  styleLock ? references.filter(reference => reference.kind === 'style' && reference.imageUrl) : [];
+
+// Numbered in the same order as the images sent to the model.
+export const describeReferences = (references: VisualReference[]): string =>
+  references.map((reference, i) => reference.kind === 'character'
+    ? `Reference image ${i + 1} shows the character "${reference.name}"${reference.description ? ` (${reference.description})` : ''}: keep the face, hairstyle, body type and outfit identical whenever this character appears.`
+    : `Reference image ${i + 1} is the style reference${reference.description ? ` (${reference.description})` : ''}: match its art style, color palette, lighting and rendering, but not its content.`
+  ).join('\n');
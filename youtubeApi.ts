@@ -0,0 +1,265 @@
+import { isRetryableError, withRetry } from "./taskQueue";
+
+export const YOUTUBE_API_BASE = 'https://www.googleapis.com';
+const IDENTITY_SCRIPT_URL = 'https://accounts.google.com/gsi/client';
+// upload covers the video and thumbnail; captions and comments need force-ssl.
+const OAUTH_SCOPES = [
+  'https://www.googleapis.com/auth/youtube.upload',
+  'https://www.googleapis.com/auth/youtube.force-ssl'
+].join(' ');
+
+// Resumable chunks must be a multiple of 256 KiB.
+const UPLOAD_CHUNK_BYTES = 32 * 256 * 1024;
+const UPLOAD_RETRIES = 5;
+
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface YouTubeClient {
+  baseUrl: string;
+  accessToken: string;
+  transport: Transport;
+}
+
+export interface UploadedVideo {
+  id: string;
+  status?: { privacyStatus?: string; publishAt?: string };
+}
+
+export class YouTubeApiError extends Error {
+  constructor(public status: number, message: string, public reason?: string) {
+    super(message);
+    this.name = 'YouTubeApiError';
+  }
+}
+
+const REASON_MESSAGES: Record<string, string> = {
+  quotaExceeded: 'YouTube API 일일 할당량을 모두 사용했습니다. 내일 다시 시도하세요.',
+  uploadLimitExceeded: '채널의 업로드 한도를 넘었습니다. 잠시 후 다시 시도하세요.',
+  forbidden: '권한이 없습니다. 맞춤 썸네일은 전화번호 인증을 마친 채널에서만 올릴 수 있습니다.',
+  insufficientPermissions: '로그인할 때 필요한 권한을 모두 허용하지 않았습니다.',
+  authError: 'Google 로그인이 만료되었습니다. 다시 업로드하면 새로 로그인합니다.',
+  invalidTitle: 'YouTube가 제목을 거부했습니다.',
+  invalidDescription: 'YouTube가 설명을 거부했습니다.',
+  invalidTags: 'YouTube가 태그를 거부했습니다.',
+  invalidPublishAt: '예약 시간이 올바르지 않습니다. 미래 시각을 지정하세요.',
+  invalidImage: '썸네일 이미지 형식이 올바르지 않습니다. PNG나 JPEG만 올릴 수 있습니다.',
+  mediaBodyTooLarge: '파일이 너무 큽니다.'
+};
+
+const toApiError = async (response: Response): Promise<YouTubeApiError> => {
+  let message = `${response.status} ${response.statusText}`.trim();
+  let reason: string | undefined;
+  try {
+    const body = await response.json();
+    message = body.error?.message || message;
+    reason = body.error?.errors?.[0]?.reason;
+  } catch {
+    // Not every failure carries a JSON body.
+  }
+  const known = reason && REASON_MESSAGES[reason];
+  return new YouTubeApiError(response.status, known ? `${known} (${message})` : message, reason);
+};
+
+// Network drops surface from fetch as TypeErrors; those are worth resuming too.
+const isTransientUploadError = (error: unknown) => error instanceof TypeError || isRetryableError(error);
+
+interface TokenResponse {
+  access_token?: string;
+  expires_in?: number;
+  error?: string;
+  error_description?: string;
+}
+
+interface GoogleIdentity {
+  accounts: {
+    oauth2: {
+      initTokenClient: (config: {
+        client_id: string;
+        scope: string;
+        callback: (response: TokenResponse) => void;
+        error_callback?: (error: { type: string }) => void;
+      }) => { requestAccessToken: () => void };
+    };
+  };
+}
+
+let identityScript: Promise<void> | null = null;
+let cachedToken: { clientId: string; token: string; expiresAt: number } | null = null;
+
+// Loading the sign-in library ahead of the click keeps the popup inside the user gesture.
+export const prepareSignIn = (): Promise<void> => {
+  if (!identityScript) {
+    identityScript = new Promise<void>((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = IDENTITY_SCRIPT_URL;
+      script.async = true;
+      script.onload = () => resolve();
+      script.onerror = () => {
+        identityScript = null;
+        reject(new Error('Google 로그인 스크립트를 불러오지 못했습니다. 네트워크 연결을 확인하세요.'));
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return identityScript;
+};
+
+// Opens Google's consent popup unless a token for this client is still valid for another minute.
+export const requestAccessToken = async (clientId: string): Promise<string> => {
+  if (cachedToken && cachedToken.clientId === clientId && cachedToken.expiresAt > Date.now() + 60_000) {
+    return cachedToken.token;
+  }
+  await prepareSignIn();
+  const oauth2 = (window as unknown as { google?: GoogleIdentity }).google?.accounts.oauth2;
+  if (!oauth2) throw new Error('Google 로그인 라이브러리를 초기화하지 못했습니다.');
+
+  return new Promise((resolve, reject) => {
+    oauth2.initTokenClient({
+      client_id: clientId,
+      scope: OAUTH_SCOPES,
+      callback: response => {
+        if (!response.access_token) {
+          reject(new YouTubeApiError(401, `Google 로그인에 실패했습니다. (${response.error_description || response.error})`));
+          return;
+        }
+        cachedToken = {
+          clientId,
+          token: response.access_token,
+          expiresAt: Date.now() + (response.expires_in || 3600) * 1000
+        };
+        resolve(response.access_token);
+      },
+      error_callback: error => reject(new YouTubeApiError(401, `Google 로그인 창이 닫혔거나 차단되었습니다. (${error.type})`))
+    }).requestAccessToken();
+  });
+};
+
+const authorized = (client: YouTubeClient, headers: Record<string, string> = {}) => ({
+  Authorization: `Bearer ${client.accessToken}`,
+  ...headers
+});
+
+// Opens an upload session for `file` with the video resource; returns the session URL to send bytes to.
+export const startResumableUpload = async (
+  client: YouTubeClient,
+  resource: object,
+  file: Blob,
+  signal?: AbortSignal
+): Promise<string> => {
+  const parts = Object.keys(resource).join(',');
+  const response = await withRetry(() => client.transport(
+    `${client.baseUrl}/upload/youtube/v3/videos?uploadType=resumable&part=${parts}`,
+    {
+      method: 'POST',
+      signal,
+      headers: authorized(client, {
+        'Content-Type': 'application/json; charset=UTF-8',
+        'X-Upload-Content-Length': String(file.size),
+        'X-Upload-Content-Type': file.type || 'video/*'
+      }),
+      body: JSON.stringify(resource)
+    }
+  ).then(async res => {
+    if (!res.ok) throw await toApiError(res);
+    return res;
+  }), { retries: UPLOAD_RETRIES, signal, shouldRetry: isTransientUploadError });
+
+  const location = response.headers.get('Location');
+  if (!location) throw new YouTubeApiError(response.status, '업로드 세션 주소를 받지 못했습니다.');
+  return location;
+};
+
+// 308 means the session wants more bytes; its Range header says how many it already holds.
+const readUploadResponse = async (response: Response): Promise<number | UploadedVideo> => {
+  if (response.status === 308) {
+    const range = response.headers.get('Range')?.match(/bytes=0-(\d+)/);
+    return range ? Number(range[1]) + 1 : 0;
+  }
+  if (!response.ok) throw await toApiError(response);
+  return response.json();
+};
+
+// Sends `file` in chunks. After a dropped or failed chunk it asks the session how far it got and resumes there.
+export const uploadVideoFile = async (
+  client: YouTubeClient,
+  sessionUrl: string,
+  file: Blob,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<UploadedVideo> => {
+  let offset = 0;
+  onProgress(0);
+  for (;;) {
+    const result = await withRetry(async attempt => {
+      if (attempt > 0) {
+        const status = await readUploadResponse(await client.transport(sessionUrl, {
+          method: 'PUT',
+          signal,
+          headers: authorized(client, { 'Content-Range': `bytes */${file.size}` })
+        }));
+        if (typeof status !== 'number') return status;
+        offset = status;
+      }
+      const end = Math.min(offset + UPLOAD_CHUNK_BYTES, file.size);
+      return readUploadResponse(await client.transport(sessionUrl, {
+        method: 'PUT',
+        signal,
+        headers: authorized(client, { 'Content-Range': `bytes ${offset}-${end - 1}/${file.size}` }),
+        body: file.slice(offset, end)
+      }));
+    }, { retries: UPLOAD_RETRIES, signal, shouldRetry: isTransientUploadError });
+
+    if (typeof result !== 'number') {
+      onProgress(1);
+      return result;
+    }
+    offset = result;
+    onProgress(offset / file.size);
+  }
+};
+
+export const setThumbnail = async (client: YouTubeClient, videoId: string, image: Blob, signal?: AbortSignal) => {
+  const response = await client.transport(
+    `${client.baseUrl}/upload/youtube/v3/thumbnails/set?videoId=${encodeURIComponent(videoId)}&uploadType=media`,
+    { method: 'POST', signal, headers: authorized(client, { 'Content-Type': image.type || 'image/png' }), body: image }
+  );
+  if (!response.ok) throw await toApiError(response);
+};
+
+// The caption resource and the SRT file go together as one multipart/related body.
+export const insertCaption = async (
+  client: YouTubeClient,
+  videoId: string,
+  caption: { language: string; name: string; srt: string },
+  signal?: AbortSignal
+) => {
+  const boundary = `caption_${crypto.randomUUID()}`;
+  const body = [
+    `--${boundary}`,
+    'Content-Type: application/json; charset=UTF-8',
+    '',
+    JSON.stringify({ snippet: { videoId, language: caption.language, name: caption.name, isDraft: false } }),
+    `--${boundary}`,
+    'Content-Type: application/x-subrip; charset=UTF-8',
+    '',
+    caption.srt,
+    `--${boundary}--`,
+    ''
+  ].join('\r\n');
+  const response = await client.transport(
+    `${client.baseUrl}/upload/youtube/v3/captions?part=snippet&uploadType=multipart`,
+    { method: 'POST', signal, headers: authorized(client, { 'Content-Type': `multipart/related; boundary=${boundary}` }), body }
+  );
+  if (!response.ok) throw await toApiError(response);
+};
+
+// The Data API has no call for pinning, so the comment is posted and pinned by hand in YouTube Studio.
+export const postComment = async (client: YouTubeClient, videoId: string, text: string, signal?: AbortSignal) => {
+  const response = await client.transport(`${client.baseUrl}/youtube/v3/commentThreads?part=snippet`, {
+    method: 'POST',
+    signal,
+    headers: authorized(client, { 'Content-Type': 'application/json; charset=UTF-8' }),
+    body: JSON.stringify({ snippet: { videoId, topLevelComment: { snippet: { textOriginal: text } } } })
+  });
+  if (!response.ok) throw await toApiError(response);
+};
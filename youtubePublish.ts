@@ -0,0 +1,259 @@
+import { AppState, LanguageCode, PrivacyStatus, PublishExtra, PublishRecord, SubtitleOptions, YouTubeSettings } from "./types";
+import {
+  YOUTUBE_API_BASE,
+  YouTubeClient,
+  insertCaption,
+  postComment,
+  requestAccessToken,
+  setThumbnail,
+  startResumableUpload,
+  uploadVideoFile
+} from "./youtubeApi";
+import { MOCK_ACCESS_TOKEN, MOCK_YOUTUBE_BASE, mockYouTubeTransport } from "./mockYouTubeApi";
+import { YOUTUBE_TITLE_MAX_CHARS, titleLength } from "./titleScoring";
+import { buildDescription } from "./projectExport";
+import { buildSubtitleCues, formatSrt } from "./subtitles";
+import { LANGUAGES } from "./languages";
+import { throwIfAborted } from "./taskQueue";
+
+export const YOUTUBE_DESCRIPTION_MAX_BYTES = 5000;
+const YOUTUBE_TAGS_MAX_CHARS = 500;
+const MAX_THUMBNAIL_BYTES = 2 * 1024 * 1024;
+// "People & Blogs", the category YouTube gives new uploads by default.
+const DEFAULT_CATEGORY_ID = '22';
+
+// YouTube names Chinese by script; the app always writes Simplified Chinese.
+const YOUTUBE_LANGUAGES: Partial<Record<LanguageCode, string>> = { zh: 'zh-CN' };
+
+export const youtubeLanguage = (language: LanguageCode) => YOUTUBE_LANGUAGES[language] || language;
+
+export const PUBLISH_EXTRA_LABELS: Record<PublishExtra, string> = {
+  thumbnail: '썸네일',
+  captions: '자막',
+  comment: '고정 댓글'
+};
+
+export type PublishStage = 'auth' | 'upload' | PublishExtra;
+
+export const PUBLISH_STAGE_LABELS: Record<PublishStage, string> = {
+  auth: 'Google 로그인',
+  upload: '영상 업로드',
+  ...PUBLISH_EXTRA_LABELS
+};
+
+export interface PublishProgress {
+  stage: PublishStage;
+  // Share of the video file sent, during the upload stage.
+  fraction?: number;
+}
+
+export interface PublishExtras {
+  thumbnail?: Blob;
+  captions?: { language: string; name: string; srt: string };
+  comment?: string;
+}
+
+export interface PublishRequest extends PublishExtras {
+  video: Blob;
+  title: string;
+  description: string;
+  tags: string[];
+  language: LanguageCode;
+  localizations?: Record<string, { title: string; description: string }>;
+  privacyStatus: PrivacyStatus;
+  // ISO 8601. The video is uploaded private and YouTube makes it public at this time.
+  publishAt?: string;
+}
+
+// YouTube rejects titles and descriptions that contain angle brackets.
+export const stripAngleBrackets = (text: string) => text.replace(/[<>]/g, '');
+
+export const descriptionBytes = (text: string) => new TextEncoder().encode(text).length;
+
+const clipToBytes = (text: string, maxBytes: number) => {
+  let clipped = text;
+  while (descriptionBytes(clipped) > maxBytes) clipped = [...clipped].slice(0, -1).join('');
+  return clipped;
+};
+
+// The tag limit counts the commas between tags and the quotes YouTube adds around tags with spaces.
+export const fitTags = (keywords: string[]): string[] => {
+  const tags: string[] = [];
+  let total = 0;
+  keywords.forEach(keyword => {
+    const tag = stripAngleBrackets(keyword).replace(/^#/, '').replace(/,/g, ' ').trim();
+    if (!tag || tags.some(t => t.toLowerCase() === tag.toLowerCase())) return;
+    const cost = tag.length + (tag.includes(' ') ? 2 : 0) + (tags.length ? 1 : 0);
+    if (total + cost > YOUTUBE_TAGS_MAX_CHARS) return;
+    tags.push(tag);
+    total += cost;
+  });
+  return tags;
+};
+
+// Korean message for the first problem YouTube would reject the upload for, or null.
+export const validatePublishRequest = (request: Pick<PublishRequest, 'title' | 'description' | 'privacyStatus' | 'publishAt'>): string | null => {
+  if (!request.title.trim()) return '제목을 입력하세요.';
+  if (titleLength(request.title) > YOUTUBE_TITLE_MAX_CHARS) return `제목은 ${YOUTUBE_TITLE_MAX_CHARS}자 이하여야 합니다.`;
+  if (descriptionBytes(request.description) > YOUTUBE_DESCRIPTION_MAX_BYTES) {
+    return `설명이 YouTube 한도(${YOUTUBE_DESCRIPTION_MAX_BYTES}바이트)를 넘습니다. 한글은 한 글자에 3바이트입니다.`;
+  }
+  if (request.publishAt && !(Date.parse(request.publishAt) > Date.now())) return '예약 시간은 지금 이후여야 합니다.';
+  return null;
+};
+
+// Everything the publish form starts with, taken from the project.
+export const publishDefaults = (state: AppState, subtitleOptions: SubtitleOptions) => {
+  const metadata = state.metadata;
+  const language = state.language || 'ko';
+  const localizations: Record<string, { title: string; description: string }> = {};
+  Object.entries(state.localizedMetadata || {}).forEach(([code, localized]) => {
+    if (!localized?.title || code === language) return;
+    localizations[youtubeLanguage(code as LanguageCode)] = {
+      title: [...stripAngleBrackets(localized.title)].slice(0, YOUTUBE_TITLE_MAX_CHARS).join(''),
+      description: clipToBytes(stripAngleBrackets(localized.youtubeDescription), YOUTUBE_DESCRIPTION_MAX_BYTES)
+    };
+  });
+  const paragraphs = state.script?.paragraphs || [];
+  return {
+    title: stripAngleBrackets(metadata?.title || ''),
+    description: stripAngleBrackets(buildDescription(state, subtitleOptions.charsPerSecond).trim()),
+    tags: fitTags(metadata?.seoKeywords || []),
+    localizations,
+    captions: paragraphs.length ? {
+      language: youtubeLanguage(language),
+      name: LANGUAGES[language].label,
+      srt: formatSrt(buildSubtitleCues(paragraphs, subtitleOptions))
+    } : undefined,
+    comment: metadata?.pinnedComment?.trim() || undefined
+  };
+};
+
+// The composed thumbnail when there is one. YouTube takes PNG or JPEG up to 2 MB, so larger images are re-encoded.
+export const thumbnailBlob = async (state: AppState): Promise<Blob | undefined> => {
+  const dataUrl = state.thumbnail?.mockupImageUrl || state.thumbnail?.pureImageUrl;
+  if (!dataUrl) return undefined;
+  const blob = await (await fetch(dataUrl)).blob();
+  if (blob.size <= MAX_THUMBNAIL_BYTES && /^image\/(png|jpeg)$/.test(blob.type)) return blob;
+
+  const bitmap = await createImageBitmap(blob);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  for (const quality of [0.92, 0.8, 0.65]) {
+    const jpeg = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', quality));
+    if (jpeg && jpeg.size <= MAX_THUMBNAIL_BYTES) return jpeg;
+  }
+  throw new Error('썸네일을 2MB 이하로 줄이지 못했습니다.');
+};
+
+const connect = async (settings: YouTubeSettings): Promise<YouTubeClient> => {
+  if (settings.mock) {
+    return { baseUrl: MOCK_YOUTUBE_BASE, accessToken: MOCK_ACCESS_TOKEN, transport: mockYouTubeTransport };
+  }
+  if (!settings.clientId.trim()) throw new Error('설정에서 YouTube OAuth 클라이언트 ID를 입력하세요.');
+  return {
+    baseUrl: YOUTUBE_API_BASE,
+    accessToken: await requestAccessToken(settings.clientId.trim()),
+    transport: (url, init) => fetch(url, init)
+  };
+};
+
+export const buildVideoResource = (request: PublishRequest) => {
+  const language = youtubeLanguage(request.language);
+  const hasLocalizations = !!request.localizations && Object.keys(request.localizations).length > 0;
+  return {
+    snippet: {
+      title: stripAngleBrackets(request.title).trim(),
+      description: stripAngleBrackets(request.description),
+      tags: fitTags(request.tags),
+      categoryId: DEFAULT_CATEGORY_ID,
+      defaultLanguage: language,
+      defaultAudioLanguage: language
+    },
+    status: {
+      privacyStatus: request.publishAt ? 'private' : request.privacyStatus,
+      ...(request.publishAt && { publishAt: request.publishAt }),
+      selfDeclaredMadeForKids: false
+    },
+    ...(hasLocalizations && { localizations: request.localizations })
+  };
+};
+
+// Runs each extra on its own; a failure is recorded and the rest still run.
+const runExtras = async (
+  client: YouTubeClient,
+  videoId: string,
+  extras: PublishExtras,
+  onProgress: (progress: PublishProgress) => void,
+  signal?: AbortSignal
+): Promise<PublishRecord['failedExtras']> => {
+  const failed: PublishRecord['failedExtras'] = {};
+  const run = async (extra: PublishExtra, task: () => Promise<void>) => {
+    try {
+      throwIfAborted(signal);
+      onProgress({ stage: extra });
+      await task();
+    } catch (err) {
+      console.error(`YouTube ${extra} failed for ${videoId}`, err);
+      failed[extra] = err instanceof Error ? err.message : String(err);
+    }
+  };
+  if (extras.thumbnail) await run('thumbnail', () => setThumbnail(client, videoId, extras.thumbnail!, signal));
+  if (extras.captions) await run('captions', () => insertCaption(client, videoId, extras.captions!, signal));
+  if (extras.comment) await run('comment', () => postComment(client, videoId, extras.comment!, signal));
+  return failed;
+};
+
+// Uploads the video, then the extras. Once the video is up the record is returned even if extras failed,
+// so they can be retried without uploading again.
+export const publishVideo = async (
+  request: PublishRequest,
+  settings: YouTubeSettings,
+  onProgress: (progress: PublishProgress) => void,
+  signal?: AbortSignal
+): Promise<PublishRecord> => {
+  const problem = validatePublishRequest(request);
+  if (problem) throw new Error(problem);
+  if (!request.video.size) throw new Error('영상 파일이 비어 있습니다.');
+
+  onProgress({ stage: 'auth' });
+  const client = await connect(settings);
+  const resource = buildVideoResource(request);
+  onProgress({ stage: 'upload', fraction: 0 });
+  const sessionUrl = await startResumableUpload(client, resource, request.video, signal);
+  const video = await uploadVideoFile(client, sessionUrl, request.video, fraction => onProgress({ stage: 'upload', fraction }), signal);
+
+  return {
+    videoId: video.id,
+    url: `https://youtu.be/${video.id}`,
+    privacyStatus: resource.status.privacyStatus,
+    publishAt: request.publishAt,
+    uploadedAt: Date.now(),
+    failedExtras: await runExtras(client, video.id, request, onProgress, signal),
+    ...(settings.mock && { mock: true })
+  };
+};
+
+// Retries the extras that failed last time, against the same API the video went to. An extra
+// with no input this time stays failed.
+export const retryPublishExtras = async (
+  record: PublishRecord,
+  extras: PublishExtras,
+  settings: YouTubeSettings,
+  onProgress: (progress: PublishProgress) => void,
+  signal?: AbortSignal
+): Promise<PublishRecord> => {
+  const pending: PublishExtras = {};
+  const skipped: PublishRecord['failedExtras'] = {};
+  (Object.keys(record.failedExtras) as PublishExtra[]).forEach(extra => {
+    if (extras[extra]) Object.assign(pending, { [extra]: extras[extra] });
+    else skipped[extra] = record.failedExtras[extra];
+  });
+  onProgress({ stage: 'auth' });
+  const client = await connect({ ...settings, mock: !!record.mock });
+  const failed = await runExtras(client, record.videoId, pending, onProgress, signal);
+  return { ...record, failedExtras: { ...skipped, ...failed } };
+};